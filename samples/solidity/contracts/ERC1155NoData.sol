@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: Apache-2.0
+
+pragma solidity ^0.8.0;
+
+import '@openzeppelin/contracts/token/ERC1155/ERC1155.sol';
+import '@openzeppelin/contracts/utils/Context.sol';
+import '@openzeppelin/contracts/access/Ownable.sol';
+
+/**
+ * Example ERC1155 multi-token with mint and burn.
+ *
+ * This contract is identical to ERC1155WithData, except that there is no way to record
+ * extra data alongside mint and burn operations. While FireFly can still index
+ * the transactions and balances from this type of ABI, certain features will not be
+ * available (such as tieing FireFly transactions, messages, and data to a token event).
+ *
+ * This is a sample only and NOT a reference implementation.
+ */
+contract ERC1155NoData is Context, Ownable, ERC1155 {
+    string public name;
+    string public symbol;
+
+    constructor(string memory name_, string memory symbol_) ERC1155('firefly://token/{id}') {
+        name = name_;
+        symbol = symbol_;
+    }
+
+    function mint(
+        address to,
+        uint256 id,
+        uint256 amount
+    ) external onlyOwner {
+        _mint(to, id, amount, '');
+    }
+
+    function burn(
+        address from,
+        uint256 id,
+        uint256 amount
+    ) external {
+        require(from == _msgSender(), 'ERC1155NoData: caller is not owner');
+        _burn(from, id, amount);
+    }
+}
@@ -0,0 +1,80 @@
+// SPDX-License-Identifier: Apache-2.0
+
+pragma solidity ^0.8.0;
+
+import '@openzeppelin/contracts/token/ERC1155/ERC1155.sol';
+import '@openzeppelin/contracts/utils/Context.sol';
+import '@openzeppelin/contracts/access/Ownable.sol';
+import './IERC1155WithData.sol';
+
+/**
+ * Example ERC1155 multi-token with mint, burn, and attached data support.
+ *
+ * This contract demonstrates a very simple ERC1155 token holding any mix of fungible
+ * and non-fungible token ids. Notes on functionality:
+ *   - the contract owner (ie deployer) is the only party allowed to mint
+ *   - any party can approve another party to manage (ie transfer) all of their tokens
+ *   - any party can burn their own tokens
+ *   - token URIs are hard-coded to "firefly://token/{id}"
+ *   - the contract does not track which ids are fungible or non-fungible
+ *
+ * The inclusion of a "data" argument on each external method allows FireFly to write
+ * extra data to the chain alongside each token transaction, in order to correlate it with
+ * other on- and off-chain events.
+ *
+ * This is a sample only and NOT a reference implementation.
+ */
+contract ERC1155WithData is Context, Ownable, ERC1155, IERC1155WithData {
+    string public name;
+    string public symbol;
+
+    constructor(string memory name_, string memory symbol_) ERC1155('firefly://token/{id}') {
+        name = name_;
+        symbol = symbol_;
+    }
+
+    function supportsInterface(
+        bytes4 interfaceId
+    ) public view virtual override(ERC1155, IERC165) returns (bool) {
+        return
+            interfaceId == type(IERC1155WithData).interfaceId ||
+            super.supportsInterface(interfaceId);
+    }
+
+    function mintWithData(
+        address to,
+        uint256 id,
+        uint256 amount,
+        bytes calldata data
+    ) external override onlyOwner {
+        _mint(to, id, amount, data);
+    }
+
+    function transferWithData(
+        address from,
+        address to,
+        uint256 id,
+        uint256 amount,
+        bytes calldata data
+    ) external override {
+        safeTransferFrom(from, to, id, amount, data);
+    }
+
+    function burnWithData(
+        address from,
+        uint256 id,
+        uint256 amount,
+        bytes calldata data
+    ) external override {
+        require(from == _msgSender(), 'ERC1155WithData: caller is not owner');
+        _burn(from, id, amount);
+    }
+
+    function setApprovalForAllWithData(
+        address operator,
+        bool approved,
+        bytes calldata data
+    ) external override {
+        setApprovalForAll(operator, approved);
+    }
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: Apache-2.0
+
+pragma solidity ^0.8.0;
+
+import '@openzeppelin/contracts/utils/introspection/IERC165.sol';
+
+/**
+ * Optional batch interface for ERC20 and ERC721 contracts with attached data support.
+ *
+ * Each entry in the arrays describes one mint or transfer. The "values" entries are
+ * amounts for ERC20 contracts, and token IDs for ERC721 contracts. When a contract
+ * advertises this interface via ERC165, FireFly will submit batches of mints and transfers
+ * as a single transaction instead of one transaction per entry.
+ */
+interface ITokenBatchWithData is IERC165 {
+    function mintBatchWithData(
+        address[] calldata to,
+        uint256[] calldata values,
+        bytes[] calldata data
+    ) external;
+
+    function transferBatchWithData(
+        address[] calldata from,
+        address[] calldata to,
+        uint256[] calldata values,
+        bytes[] calldata data
+    ) external;
+}
@@ -4,6 +4,8 @@ pragma solidity ^0.8.0;
 
 import './IERC20WithData.sol';
 import './IERC721WithData.sol';
+import './IERC1155WithData.sol';
+import './ITokenBatchWithData.sol';
 
 /**
  * Test utility for checking ERC165 interface identifiers.
@@ -16,4 +18,12 @@ contract InterfaceCheck {
     function erc721WithData() external view returns (bytes4) {
         return type(IERC721WithData).interfaceId;
     }
+
+    function erc1155WithData() external view returns (bytes4) {
+        return type(IERC1155WithData).interfaceId;
+    }
+
+    function tokenBatchWithData() external view returns (bytes4) {
+        return type(ITokenBatchWithData).interfaceId;
+    }
 }
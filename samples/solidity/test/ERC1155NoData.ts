@@ -0,0 +1,73 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { ERC1155NoData } from '../typechain';
+
+describe('ERC1155NoData - Unit Tests', function () {
+  const contractName = 'testName';
+  const contractSymbol = 'testSymbol';
+  const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+  let deployedERC1155NoData: ERC1155NoData;
+  let Factory;
+
+  let deployerSignerA: SignerWithAddress;
+  let signerB: SignerWithAddress;
+
+  beforeEach(async () => {
+    [deployerSignerA, signerB] = await ethers.getSigners();
+    Factory = await ethers.getContractFactory('ERC1155NoData');
+    // Deploy erc1155 token pool with Signer A
+    deployedERC1155NoData = await Factory.connect(deployerSignerA).deploy(
+      contractName,
+      contractSymbol,
+    );
+    await deployedERC1155NoData.deployed();
+  });
+
+  it('Create - Should create a new ERC1155 instance with default state', async function () {
+    expect(await deployedERC1155NoData.name()).to.equal(contractName);
+    expect(await deployedERC1155NoData.symbol()).to.equal(contractSymbol);
+  });
+
+  it('Mint - Deployer should mint tokens to itself successfully', async function () {
+    // Signer A mint 20 of token 1 to Signer A (Allowed)
+    await expect(
+      deployedERC1155NoData.connect(deployerSignerA).mint(deployerSignerA.address, 1, 20),
+    )
+      .to.emit(deployedERC1155NoData, 'TransferSingle')
+      .withArgs(deployerSignerA.address, ZERO_ADDRESS, deployerSignerA.address, 1, 20);
+
+    expect(await deployedERC1155NoData.balanceOf(deployerSignerA.address, 1)).to.equal(20);
+  });
+
+  it('Mint - Non-deployer of contract should not be able to mint tokens', async function () {
+    // Signer B mint to Signer B (Not allowed)
+    await expect(
+      deployedERC1155NoData.connect(signerB).mint(signerB.address, 1, 20),
+    ).to.be.revertedWith('Ownable: caller is not the owner');
+  });
+
+  it('Transfer - Signer should transfer tokens to another signer', async function () {
+    await deployedERC1155NoData.connect(deployerSignerA).mint(deployerSignerA.address, 1, 20);
+    // Signer A transfer 5 of token 1 to Signer B
+    await expect(
+      deployedERC1155NoData
+        .connect(deployerSignerA)
+        .safeTransferFrom(deployerSignerA.address, signerB.address, 1, 5, '0x00'),
+    )
+      .to.emit(deployedERC1155NoData, 'TransferSingle')
+      .withArgs(deployerSignerA.address, deployerSignerA.address, signerB.address, 1, 5);
+
+    expect(await deployedERC1155NoData.balanceOf(signerB.address, 1)).to.equal(5);
+  });
+
+  it("Burn - Signer should not burn another signer's tokens", async function () {
+    await deployedERC1155NoData.connect(deployerSignerA).mint(signerB.address, 1, 20);
+    // Signer A attempts to burn from Signer B wallet (not allowed)
+    await expect(
+      deployedERC1155NoData.connect(deployerSignerA).burn(signerB.address, 1, 5),
+    ).to.be.revertedWith('ERC1155NoData: caller is not owner');
+
+    expect(await deployedERC1155NoData.balanceOf(signerB.address, 1)).to.equal(20);
+  });
+});
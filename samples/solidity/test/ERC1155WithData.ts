@@ -0,0 +1,146 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { expect } from 'chai';
+import { ethers } from 'hardhat';
+import { ERC1155WithData, InterfaceCheck } from '../typechain';
+
+describe('ERC1155WithData - Unit Tests', function () {
+  const contractName = 'testName';
+  const contractSymbol = 'testSymbol';
+  const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+  let deployedERC1155WithData: ERC1155WithData;
+  let Factory;
+
+  let deployerSignerA: SignerWithAddress;
+  let signerB: SignerWithAddress;
+  let signerC: SignerWithAddress;
+
+  beforeEach(async () => {
+    [deployerSignerA, signerB, signerC] = await ethers.getSigners();
+    Factory = await ethers.getContractFactory('ERC1155WithData');
+    // Deploy erc1155 token pool with Signer A
+    deployedERC1155WithData = await Factory.connect(deployerSignerA).deploy(
+      contractName,
+      contractSymbol,
+    );
+    await deployedERC1155WithData.deployed();
+  });
+
+  it('Verify interface ID', async function () {
+    const checkerFactory = await ethers.getContractFactory('InterfaceCheck');
+    const checker: InterfaceCheck = await checkerFactory.connect(deployerSignerA).deploy();
+    expect(await checker.erc1155WithData()).to.equal('0xd0b056e0');
+  });
+
+  it('Create - Should create a new ERC1155 instance with default state', async function () {
+    expect(await deployedERC1155WithData.name()).to.equal(contractName);
+    expect(await deployedERC1155WithData.symbol()).to.equal(contractSymbol);
+    expect(await deployedERC1155WithData.uri(1)).to.equal('firefly://token/{id}');
+  });
+
+  it('Mint - Deployer should mint tokens to itself successfully', async function () {
+    expect(await deployedERC1155WithData.balanceOf(deployerSignerA.address, 1)).to.equal(0);
+    // Signer A mint 20 of token 1 to Signer A (Allowed)
+    await expect(
+      deployedERC1155WithData
+        .connect(deployerSignerA)
+        .mintWithData(deployerSignerA.address, 1, 20, '0x00'),
+    )
+      .to.emit(deployedERC1155WithData, 'TransferSingle')
+      .withArgs(deployerSignerA.address, ZERO_ADDRESS, deployerSignerA.address, 1, 20);
+
+    expect(await deployedERC1155WithData.balanceOf(deployerSignerA.address, 1)).to.equal(20);
+  });
+
+  it('Mint - Non-deployer of contract should not be able to mint tokens', async function () {
+    // Signer B mint to Signer B (Not allowed)
+    await expect(
+      deployedERC1155WithData.connect(signerB).mintWithData(signerB.address, 1, 20, '0x00'),
+    ).to.be.revertedWith('Ownable: caller is not the owner');
+
+    expect(await deployedERC1155WithData.balanceOf(signerB.address, 1)).to.equal(0);
+  });
+
+  it('Transfer - Signer should transfer tokens to another signer', async function () {
+    await deployedERC1155WithData
+      .connect(deployerSignerA)
+      .mintWithData(deployerSignerA.address, 1, 20, '0x00');
+    // Signer A transfer 5 of token 1 to Signer B
+    await expect(
+      deployedERC1155WithData
+        .connect(deployerSignerA)
+        .transferWithData(deployerSignerA.address, signerB.address, 1, 5, '0x00'),
+    )
+      .to.emit(deployedERC1155WithData, 'TransferSingle')
+      .withArgs(deployerSignerA.address, deployerSignerA.address, signerB.address, 1, 5);
+
+    expect(await deployedERC1155WithData.balanceOf(deployerSignerA.address, 1)).to.equal(15);
+    expect(await deployedERC1155WithData.balanceOf(signerB.address, 1)).to.equal(5);
+  });
+
+  it("Transfer - Approved signer should transfer tokens from approving signer's wallet", async function () {
+    await deployedERC1155WithData
+      .connect(deployerSignerA)
+      .mintWithData(signerB.address, 1, 20, '0x00');
+    // Signer B approves signer A for all tokens
+    await expect(
+      deployedERC1155WithData
+        .connect(signerB)
+        .setApprovalForAllWithData(deployerSignerA.address, true, '0x00'),
+    )
+      .to.emit(deployedERC1155WithData, 'ApprovalForAll')
+      .withArgs(signerB.address, deployerSignerA.address, true);
+    // Signer A transfers 20 of token 1 from Signer B to Signer C
+    await expect(
+      deployedERC1155WithData
+        .connect(deployerSignerA)
+        .transferWithData(signerB.address, signerC.address, 1, 20, '0x00'),
+    )
+      .to.emit(deployedERC1155WithData, 'TransferSingle')
+      .withArgs(deployerSignerA.address, signerB.address, signerC.address, 1, 20);
+
+    expect(await deployedERC1155WithData.balanceOf(signerB.address, 1)).to.equal(0);
+    expect(await deployedERC1155WithData.balanceOf(signerC.address, 1)).to.equal(20);
+  });
+
+  it('Transfer - Signer should not be able to transfer from another signer if not approved', async function () {
+    await deployedERC1155WithData
+      .connect(deployerSignerA)
+      .mintWithData(signerB.address, 1, 20, '0x00');
+    // Signer C attempts to transfer from Signer B to Signer C (Not allowed)
+    await expect(
+      deployedERC1155WithData
+        .connect(signerC)
+        .transferWithData(signerB.address, signerC.address, 1, 20, '0x00'),
+    ).to.be.revertedWith('ERC1155: caller is not owner nor approved');
+
+    expect(await deployedERC1155WithData.balanceOf(signerB.address, 1)).to.equal(20);
+  });
+
+  it('Burn - Signer should burn their own tokens successfully', async function () {
+    await deployedERC1155WithData
+      .connect(deployerSignerA)
+      .mintWithData(deployerSignerA.address, 1, 20, '0x00');
+    // Signer A burns 5 of token 1
+    await expect(
+      deployedERC1155WithData
+        .connect(deployerSignerA)
+        .burnWithData(deployerSignerA.address, 1, 5, '0x00'),
+    )
+      .to.emit(deployedERC1155WithData, 'TransferSingle')
+      .withArgs(deployerSignerA.address, deployerSignerA.address, ZERO_ADDRESS, 1, 5);
+
+    expect(await deployedERC1155WithData.balanceOf(deployerSignerA.address, 1)).to.equal(15);
+  });
+
+  it("Burn - Signer should not burn another signer's tokens", async function () {
+    await deployedERC1155WithData
+      .connect(deployerSignerA)
+      .mintWithData(signerB.address, 1, 20, '0x00');
+    // Signer C attempts to burn from Signer B wallet (not allowed)
+    await expect(
+      deployedERC1155WithData.connect(signerC).burnWithData(signerB.address, 1, 5, '0x00'),
+    ).to.be.revertedWith('ERC1155WithData: caller is not owner');
+
+    expect(await deployedERC1155WithData.balanceOf(signerB.address, 1)).to.equal(20);
+  });
+});
@@ -0,0 +1,101 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  Param,
+  Post,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiResponse, ApiSecurity } from '@nestjs/swagger';
+import { AuthGuard } from '../auth/auth.guard';
+import { MetricsInterceptor } from '../metrics/metrics.interceptor';
+import { TracingInterceptor } from '../tracing/tracing.interceptor';
+import {
+  EventStreamInfo,
+  RemediationPlan,
+  RemediationRequest,
+  SubscriptionInfo,
+  SubscriptionReset,
+} from '../tokens/tokens.interfaces';
+import { TokensService } from '../tokens/tokens.service';
+
+@Controller('admin')
+@UseGuards(AuthGuard)
+@UseInterceptors(MetricsInterceptor, TracingInterceptor)
+@ApiSecurity('api_key')
+@ApiBearerAuth()
+export class AdminController {
+  constructor(private readonly tokens: TokensService) {}
+
+  @Get('streams')
+  @ApiOperation({ summary: 'List event streams' })
+  @ApiResponse({ status: 200, type: [EventStreamInfo] })
+  getStreams() {
+    return this.tokens.getStreams();
+  }
+
+  @Delete('streams/:id')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Delete an event stream' })
+  async deleteStream(@Param('id') id: string) {
+    await this.tokens.deleteStream(id);
+  }
+
+  @Get('subscriptions')
+  @ApiOperation({
+    summary: 'List event stream subscriptions',
+    description: 'The pool locator and event of each subscription are decoded from its name',
+  })
+  @ApiResponse({ status: 200, type: [SubscriptionInfo] })
+  getSubscriptions() {
+    return this.tokens.getSubscriptions();
+  }
+
+  @Delete('subscriptions/:id')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Delete an event stream subscription' })
+  async deleteSubscription(@Param('id') id: string) {
+    await this.tokens.deleteSubscription(id);
+  }
+
+  @Post('subscriptions/:id/reset')
+  @HttpCode(204)
+  @ApiOperation({ summary: 'Redeliver the events for a subscription from a given block' })
+  @ApiBody({ type: SubscriptionReset })
+  async resetSubscription(@Param('id') id: string, @Body() dto: SubscriptionReset) {
+    await this.tokens.resetSubscription(id, dto.fromBlock);
+  }
+
+  @Post('remediate')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Repair event stream subscriptions flagged by the migration check',
+    description:
+      'Deletes subscriptions that cannot be parsed or are incomplete, and recreates the ' +
+      'subscriptions for affected pools from the last delivered block',
+  })
+  @ApiBody({ type: RemediationRequest })
+  @ApiResponse({ status: 200, type: RemediationPlan })
+  remediate(@Body() dto: RemediationRequest) {
+    return this.tokens.remediate(dto.dryRun ?? false);
+  }
+}
@@ -17,11 +17,17 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { TerminusModule } from '@nestjs/terminus';
+import { AdminModule } from './admin/admin.module';
 import { TokensModule } from './tokens/tokens.module';
 import { EventStreamModule } from './event-stream/event-stream.module';
 import { EventStreamProxyModule } from './eventstream-proxy/eventstream-proxy.module';
+import { EventsModule } from './events/events.module';
 import { HealthModule } from './health/health.module';
 import { HealthController } from './health/health.controller';
+import { MetricsModule } from './metrics/metrics.module';
+import { TracingModule } from './tracing/tracing.module';
+import { TransactionsModule } from './transactions/transactions.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
 
 @Module({
   imports: [
@@ -31,6 +37,12 @@ import { HealthController } from './health/health.controller';
     EventStreamProxyModule,
     TerminusModule,
     HealthModule,
+    MetricsModule,
+    TracingModule,
+    AdminModule,
+    WebhooksModule,
+    EventsModule,
+    TransactionsModule,
   ],
   controllers: [HealthController],
 })
@@ -0,0 +1,159 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AuthService } from './auth.service';
+
+const SECRET = 'secret123';
+
+function encode(value: Record<string, unknown>) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signWithKey(
+  header: Record<string, unknown>,
+  payload: Record<string, unknown>,
+  hash: string,
+  key: crypto.KeyObject,
+) {
+  const content = `${encode(header)}.${encode(payload)}`;
+  const signature = crypto.sign(hash, Buffer.from(content), { key, dsaEncoding: 'ieee-p1363' });
+  return `${content}.${signature.toString('base64url')}`;
+}
+
+function signHmac(payload: Record<string, unknown>, secret = SECRET) {
+  const content = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+  const signature = crypto.createHmac('sha256', secret).update(content).digest('base64url');
+  return `${content}.${signature}`;
+}
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [AuthService],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  it('should allow all requests when not configured', () => {
+    service.configure([''], '', '');
+    expect(service.enabled).toBe(false);
+    expect(service.authenticate({})).toBe(true);
+  });
+
+  it('should check API keys', () => {
+    service.configure(['key1', 'key2']);
+    expect(service.enabled).toBe(true);
+    expect(service.authenticate({})).toBe(false);
+    expect(service.authenticate({ 'x-api-key': 'key2' })).toBe(true);
+    expect(service.authenticate({ 'x-api-key': 'key3' })).toBe(false);
+    expect(service.authenticate({ authorization: 'Bearer key1' })).toBe(true);
+    expect(service.authenticate({ authorization: 'Basic key1' })).toBe(false);
+  });
+
+  it('should check HMAC-signed JWTs', () => {
+    service.configure([], SECRET);
+    const now = Math.floor(Date.now() / 1000);
+    const valid = signHmac({ sub: 'test', exp: now + 60 });
+    expect(service.authenticate({ authorization: `Bearer ${valid}` })).toBe(true);
+
+    const expired = signHmac({ sub: 'test', exp: now - 60 });
+    expect(service.authenticate({ authorization: `Bearer ${expired}` })).toBe(false);
+
+    const notYetValid = signHmac({ sub: 'test', nbf: now + 60 });
+    expect(service.authenticate({ authorization: `Bearer ${notYetValid}` })).toBe(false);
+
+    const wrongSecret = signHmac({ sub: 'test' }, 'other');
+    expect(service.authenticate({ authorization: `Bearer ${wrongSecret}` })).toBe(false);
+
+    expect(service.authenticate({ authorization: 'Bearer not.a.jwt' })).toBe(false);
+  });
+
+  it('should check JWTs signed with a key from a JWKS file', () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const jwk = publicKey.export({ format: 'jwk' });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-'));
+    const jwksFile = path.join(dir, 'jwks.json');
+    fs.writeFileSync(jwksFile, JSON.stringify({ keys: [{ ...jwk, kid: 'key1' }] }));
+
+    try {
+      service.configure([], undefined, jwksFile);
+
+      const content = `${encode({ alg: 'RS256', kid: 'key1' })}.${encode({ sub: 'test' })}`;
+      const signature = crypto.sign('sha256', Buffer.from(content), privateKey);
+      const token = `${content}.${signature.toString('base64url')}`;
+      expect(service.authenticate({ authorization: `Bearer ${token}` })).toBe(true);
+
+      const otherKid = `${encode({ alg: 'RS256', kid: 'key2' })}.${encode({ sub: 'test' })}`;
+      const otherToken = `${otherKid}.${signature.toString('base64url')}`;
+      expect(service.authenticate({ authorization: `Bearer ${otherToken}` })).toBe(false);
+
+      const hmacToken = signHmac({ sub: 'test' });
+      expect(service.authenticate({ authorization: `Bearer ${hmacToken}` })).toBe(false);
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+
+  it('should only use JWKS keys that match the JWT algorithm', () => {
+    const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const ec = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-'));
+    const jwksFile = path.join(dir, 'jwks.json');
+    fs.writeFileSync(
+      jwksFile,
+      JSON.stringify({
+        keys: [
+          { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa' },
+          { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rs256', alg: 'RS256' },
+          { ...ec.publicKey.export({ format: 'jwk' }), kid: 'ec' },
+        ],
+      }),
+    );
+
+    try {
+      service.configure([], undefined, jwksFile);
+      const auth = (token: string) => service.authenticate({ authorization: `Bearer ${token}` });
+
+      expect(auth(signWithKey({ alg: 'RS256' }, { sub: 'test' }, 'sha256', rsa.privateKey))).toBe(
+        true,
+      );
+      expect(auth(signWithKey({ alg: 'ES256' }, { sub: 'test' }, 'sha256', ec.privateKey))).toBe(
+        true,
+      );
+
+      // RSA signature presented as an EC algorithm
+      expect(
+        auth(signWithKey({ alg: 'ES256', kid: 'rsa' }, { sub: 'test' }, 'sha256', rsa.privateKey)),
+      ).toBe(false);
+      // Algorithm does not match the one declared by the key
+      expect(
+        auth(
+          signWithKey({ alg: 'RS384', kid: 'rs256' }, { sub: 'test' }, 'sha384', rsa.privateKey),
+        ),
+      ).toBe(false);
+    } finally {
+      fs.rmSync(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,173 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { IncomingHttpHeaders } from 'http';
+import { Injectable, Logger } from '@nestjs/common';
+import { JsonWebKey, JsonWebKeySet, JwtHeader, JwtPayload } from './auth.interfaces';
+
+const API_KEY_HEADER = 'x-api-key';
+const BEARER_PREFIX = 'bearer ';
+
+const hmacAlgorithms: Record<string, string> = {
+  HS256: 'sha256',
+  HS384: 'sha384',
+  HS512: 'sha512',
+};
+
+// Hash and JWK key type ("kty") for each supported public key algorithm
+const publicKeyAlgorithms: Record<string, { hash: string; keyType: string }> = {
+  RS256: { hash: 'sha256', keyType: 'RSA' },
+  RS384: { hash: 'sha384', keyType: 'RSA' },
+  RS512: { hash: 'sha512', keyType: 'RSA' },
+  ES256: { hash: 'sha256', keyType: 'EC' },
+  ES384: { hash: 'sha384', keyType: 'EC' },
+  ES512: { hash: 'sha512', keyType: 'EC' },
+};
+
+function decodeBase64Url(value: string) {
+  return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64');
+}
+
+function safeEquals(a: string | Buffer, b: string | Buffer) {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
+  private apiKeys: string[] = [];
+  private jwtSecret?: string;
+  private jwks: JsonWebKey[] = [];
+
+  configure(apiKeys: string[], jwtSecret?: string, jwksFile?: string) {
+    this.apiKeys = apiKeys.filter(key => key !== '');
+    this.jwtSecret = jwtSecret !== '' ? jwtSecret : undefined;
+    this.jwks = [];
+    if (jwksFile !== undefined && jwksFile !== '') {
+      const keySet: JsonWebKeySet = JSON.parse(fs.readFileSync(jwksFile, 'utf8'));
+      this.jwks = keySet.keys ?? [];
+      this.logger.log(`Loaded ${this.jwks.length} key(s) from JWKS file '${jwksFile}'`);
+    }
+  }
+
+  /**
+   * Authentication is only enforced if at least one credential source is configured.
+   */
+  get enabled() {
+    return this.apiKeys.length > 0 || this.jwtSecret !== undefined || this.jwks.length > 0;
+  }
+
+  /**
+   * Check the credentials on an incoming HTTP or websocket upgrade request.
+   * Accepts either an "X-API-Key" header or an "Authorization: Bearer" header
+   * containing an API key or a JWT.
+   */
+  authenticate(headers: IncomingHttpHeaders): boolean {
+    if (!this.enabled) {
+      return true;
+    }
+
+    const apiKey = headers[API_KEY_HEADER];
+    if (typeof apiKey === 'string' && this.checkApiKey(apiKey)) {
+      return true;
+    }
+
+    const authorization = headers.authorization;
+    if (authorization !== undefined && authorization.toLowerCase().startsWith(BEARER_PREFIX)) {
+      const token = authorization.substring(BEARER_PREFIX.length).trim();
+      return this.checkApiKey(token) || this.checkJwt(token);
+    }
+    return false;
+  }
+
+  private checkApiKey(key: string) {
+    return this.apiKeys.some(valid => safeEquals(valid, key));
+  }
+
+  private checkJwt(token: string) {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      return false;
+    }
+
+    let header: JwtHeader;
+    let payload: JwtPayload;
+    try {
+      header = JSON.parse(decodeBase64Url(parts[0]).toString('utf8'));
+      payload = JSON.parse(decodeBase64Url(parts[1]).toString('utf8'));
+    } catch (err) {
+      return false;
+    }
+
+    const signedContent = `${parts[0]}.${parts[1]}`;
+    const signature = decodeBase64Url(parts[2]);
+    if (!this.verifySignature(header, signedContent, signature)) {
+      return false;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (payload.exp !== undefined && now >= payload.exp) {
+      return false;
+    }
+    if (payload.nbf !== undefined && now < payload.nbf) {
+      return false;
+    }
+    return true;
+  }
+
+  private verifySignature(header: JwtHeader, content: string, signature: Buffer) {
+    const hmacAlgorithm = hmacAlgorithms[header.alg];
+    if (hmacAlgorithm !== undefined) {
+      if (this.jwtSecret === undefined) {
+        return false;
+      }
+      const expected = crypto.createHmac(hmacAlgorithm, this.jwtSecret).update(content).digest();
+      return safeEquals(expected, signature);
+    }
+
+    const publicKeyAlgorithm = publicKeyAlgorithms[header.alg];
+    if (publicKeyAlgorithm !== undefined) {
+      const candidates = this.jwks.filter(
+        jwk =>
+          (header.kid === undefined || jwk.kid === header.kid) &&
+          jwk.kty === publicKeyAlgorithm.keyType &&
+          (jwk.alg === undefined || jwk.alg === header.alg),
+      );
+      return candidates.some(jwk => {
+        try {
+          const input: crypto.JsonWebKeyInput = { key: jwk, format: 'jwk' };
+          const key = crypto.createPublicKey(input);
+          return crypto.verify(
+            publicKeyAlgorithm.hash,
+            Buffer.from(content),
+            { key, dsaEncoding: 'ieee-p1363' },
+            signature,
+          );
+        } catch (err) {
+          this.logger.warn(`Failed to verify JWT with key '${jwk.kid}': ${err}`);
+          return false;
+        }
+      });
+    }
+
+    return false;
+  }
+}
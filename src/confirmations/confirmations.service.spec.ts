@@ -0,0 +1,140 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { HttpService } from '@nestjs/axios';
+import { Test, TestingModule } from '@nestjs/testing';
+import { of } from 'rxjs';
+import { Event } from '../event-stream/event-stream.interfaces';
+import { RetryableEventError } from '../eventstream-proxy/eventstream-proxy.interfaces';
+import { ConfirmationsService } from './confirmations.service';
+
+const RPC_URL = 'http://rpc';
+
+const mockEvent = <Event>{
+  subId: 'sb-123',
+  signature: 'Transfer(address,address,uint256)',
+  address: '0x123456',
+  blockNumber: '10',
+  blockHash: '0xabc',
+  transactionIndex: '0x0',
+  transactionHash: '0x123',
+  logIndex: '1',
+  timestamp: '2020-01-01 00:00:00Z',
+  data: {},
+};
+
+function rpcResponse(result: any) {
+  return of({ data: { jsonrpc: '2.0', id: 1, result } });
+}
+
+describe('ConfirmationsService', () => {
+  let service: ConfirmationsService;
+  const http = {
+    post: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    http.post.mockReset();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConfirmationsService,
+        {
+          provide: HttpService,
+          useValue: http,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ConfirmationsService>(ConfirmationsService);
+  });
+
+  it('should not wait when confirmations are disabled', async () => {
+    service.configure('', 0);
+    expect(await service.waitForConfirmation(mockEvent)).toBe(true);
+    expect(http.post).not.toHaveBeenCalled();
+  });
+
+  it('should require an RPC URL when confirmations are enabled', () => {
+    expect(() => service.configure('', 5)).toThrow();
+  });
+
+  it('should wait for the configured number of blocks', async () => {
+    service.configure(RPC_URL, 5, 1);
+    http.post
+      .mockReturnValueOnce(rpcResponse('0xc')) // 12
+      .mockReturnValueOnce(rpcResponse('0xf')) // 15
+      .mockReturnValueOnce(
+        rpcResponse({ blockNumber: '0xa', blockHash: '0xabc', transactionHash: '0x123' }),
+      );
+
+    expect(await service.waitForConfirmation(mockEvent)).toBe(true);
+    expect(http.post).toHaveBeenCalledTimes(3);
+    expect(http.post).toHaveBeenLastCalledWith(RPC_URL, {
+      jsonrpc: '2.0',
+      id: 3,
+      method: 'eth_getTransactionReceipt',
+      params: ['0x123'],
+    });
+  });
+
+  it('should drop events removed by a reorg', async () => {
+    service.configure(RPC_URL, 1, 1);
+    http.post.mockReturnValueOnce(rpcResponse('0xf')).mockReturnValueOnce(rpcResponse(null));
+    expect(await service.waitForConfirmation(mockEvent)).toBe(false);
+
+    http.post
+      .mockReturnValueOnce(rpcResponse('0xf'))
+      .mockReturnValueOnce(
+        rpcResponse({ blockNumber: '0xb', blockHash: '0xdef', transactionHash: '0x123' }),
+      );
+    expect(await service.waitForConfirmation(mockEvent)).toBe(false);
+
+    http.post
+      .mockReturnValueOnce(rpcResponse('0xf'))
+      .mockReturnValueOnce(
+        rpcResponse({ blockNumber: '0xa', blockHash: '0xdef', transactionHash: '0x123' }),
+      );
+    expect(await service.waitForConfirmation(mockEvent)).toBe(false);
+  });
+
+  it('should retry after RPC errors', async () => {
+    service.configure(RPC_URL, 1, 1);
+    http.post
+      .mockReturnValueOnce(of({ data: { jsonrpc: '2.0', id: 1, error: { message: 'Failed' } } }))
+      .mockReturnValueOnce(rpcResponse('0xf'))
+      .mockReturnValueOnce(
+        rpcResponse({ blockNumber: '0xa', blockHash: '0xabc', transactionHash: '0x123' }),
+      );
+    expect(await service.waitForConfirmation(mockEvent)).toBe(true);
+    expect(http.post).toHaveBeenCalledTimes(3);
+  });
+
+  it('should give up when the RPC endpoint keeps failing', async () => {
+    service.configure(RPC_URL, 1, 1, 10);
+    http.post.mockReturnValue(
+      of({ data: { jsonrpc: '2.0', id: 1, error: { message: 'Unavailable' } } }),
+    );
+    await expect(service.waitForConfirmation(mockEvent)).rejects.toThrow(RetryableEventError);
+  });
+
+  it('should give up when the chain head stops advancing', async () => {
+    service.configure(RPC_URL, 5, 1, 10);
+    http.post.mockReturnValue(rpcResponse('0xc'));
+    await expect(service.waitForConfirmation(mockEvent)).rejects.toThrow(
+      'chain head stuck at block 12',
+    );
+  });
+});
@@ -0,0 +1,142 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { HttpService } from '@nestjs/axios';
+import { Injectable, Logger } from '@nestjs/common';
+import { JsonRpcClient } from '../connector/jsonrpc.client';
+import { Event } from '../event-stream/event-stream.interfaces';
+import { RetryableEventError } from '../eventstream-proxy/eventstream-proxy.interfaces';
+import { TransactionReceipt } from './confirmations.interfaces';
+
+const DEFAULT_POLL_INTERVAL = 2000;
+const DEFAULT_TIMEOUT = 300000;
+
+@Injectable()
+export class ConfirmationsService {
+  private readonly logger = new Logger(ConfirmationsService.name);
+
+  rpcUrl: string;
+  confirmations = 0;
+  pollInterval = DEFAULT_POLL_INTERVAL;
+  timeout = DEFAULT_TIMEOUT;
+  private client?: JsonRpcClient;
+
+  constructor(private http: HttpService) {}
+
+  configure(
+    rpcUrl: string,
+    confirmations: number,
+    pollInterval = DEFAULT_POLL_INTERVAL,
+    timeout = DEFAULT_TIMEOUT,
+  ) {
+    if (confirmations > 0 && rpcUrl === '') {
+      throw new Error('An Ethereum JSON-RPC URL is required in order to wait for confirmations');
+    }
+    this.rpcUrl = rpcUrl;
+    this.client = rpcUrl !== '' ? new JsonRpcClient(this.http, rpcUrl) : undefined;
+    this.confirmations = confirmations;
+    this.pollInterval = pollInterval;
+    this.timeout = timeout;
+  }
+
+  private async rpc<T>(method: string, params: any[] = []): Promise<T | undefined> {
+    if (this.client === undefined) {
+      throw new Error('An Ethereum JSON-RPC URL is not configured');
+    }
+    return (await this.client.call<T | null>(method, params)) ?? undefined;
+  }
+
+  async getBlockNumber() {
+    const result = await this.rpc<string>('eth_blockNumber');
+    return BigInt(result ?? 0);
+  }
+
+  getTransactionReceipt(transactionHash: string) {
+    return this.rpc<TransactionReceipt>('eth_getTransactionReceipt', [transactionHash]);
+  }
+
+  private sleep() {
+    return new Promise(resolve => setTimeout(resolve, this.pollInterval));
+  }
+
+  /**
+   * Wait until the chain head is the configured number of blocks past the block of this event.
+   * Returns false if the event is no longer part of the chain (ie it was removed by a reorg).
+   *
+   * Throws a RetryableEventError if no progress is seen within the timeout (because the RPC
+   * endpoint keeps failing, or the chain head stops advancing), so that the batch is redelivered.
+   */
+  async waitForConfirmation(event: Event): Promise<boolean> {
+    if (this.confirmations <= 0) {
+      return true;
+    }
+
+    const target = BigInt(event.blockNumber) + BigInt(this.confirmations);
+    let deadline = Date.now() + this.timeout;
+    let lastHead: bigint | undefined;
+    let lastError: unknown;
+    for (;;) {
+      try {
+        const head = await this.getBlockNumber();
+        if (head >= target) {
+          const receipt = await this.getTransactionReceipt(event.transactionHash);
+          return this.checkReceipt(event, receipt);
+        }
+        if (lastHead === undefined || head > lastHead) {
+          deadline = Date.now() + this.timeout;
+          lastHead = head;
+        }
+        lastError = undefined;
+        this.logger.log(
+          `Waiting for confirmation of tx ${event.transactionHash}: block ${head}/${target}`,
+        );
+      } catch (err) {
+        lastError = err;
+        this.logger.error(`Failed to check confirmation of tx ${event.transactionHash}: ${err}`);
+      }
+      if (Date.now() >= deadline) {
+        const reason =
+          lastError !== undefined ? `${lastError}` : `chain head stuck at block ${lastHead}`;
+        throw new RetryableEventError(
+          `Timed out waiting for confirmation of tx ${event.transactionHash}: ${reason}`,
+        );
+      }
+      await this.sleep();
+    }
+  }
+
+  private checkReceipt(event: Event, receipt?: TransactionReceipt) {
+    if (receipt === undefined) {
+      this.logger.warn(`Dropping event from tx ${event.transactionHash}: transaction not found`);
+      return false;
+    }
+    if (BigInt(receipt.blockNumber) !== BigInt(event.blockNumber)) {
+      this.logger.warn(
+        `Dropping event from tx ${event.transactionHash}: ` +
+          `block changed from ${event.blockNumber} to ${BigInt(receipt.blockNumber)}`,
+      );
+      return false;
+    }
+    if (event.blockHash !== undefined && receipt.blockHash !== event.blockHash) {
+      this.logger.warn(
+        `Dropping event from tx ${event.transactionHash}: ` +
+          `block hash changed from ${event.blockHash} to ${receipt.blockHash}`,
+      );
+      return false;
+    }
+    return true;
+  }
+}
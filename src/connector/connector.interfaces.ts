@@ -0,0 +1,166 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  Event,
+  EventStream,
+  EventStreamReply,
+  EventStreamSubscription,
+} from '../event-stream/event-stream.interfaces';
+import {
+  EthConnectAsyncResponse,
+  EthConnectReturn,
+  IAbiMethod,
+  TokenEstimate,
+} from '../tokens/tokens.interfaces';
+
+/**
+ * Backend used to query contracts and submit transactions.
+ */
+export interface TransactionConnector {
+  query(to: string, method?: IAbiMethod, params?: any[]): Promise<EthConnectReturn>;
+  sendTransaction(
+    from: string,
+    to: string,
+    id?: string,
+    method?: IAbiMethod,
+    params?: any[],
+  ): Promise<EthConnectAsyncResponse>;
+  getReceipt(id: string): Promise<EventStreamReply>;
+}
+
+export interface EventStreamConnection {
+  ack(): void;
+  nack(message: string): void;
+  close(): void;
+}
+
+/**
+ * Backend used to manage event streams and subscriptions, and to receive events.
+ */
+export interface EventStreamConnector {
+  getStreams(): Promise<EventStream[]>;
+  createOrUpdateStream(topic: string): Promise<EventStream>;
+  deleteStream(id: string): Promise<void>;
+  getSubscriptions(): Promise<EventStreamSubscription[]>;
+  getSubscription(subId: string): Promise<EventStreamSubscription | undefined>;
+  deleteSubscription(subId: string): Promise<void>;
+  resetSubscription(subId: string, fromBlock: string): Promise<void>;
+  getOrCreateSubscription(
+    instancePath: string,
+    eventABI: IAbiMethod,
+    streamId: string,
+    event: string,
+    name: string,
+    contractAddress: string,
+    possibleABIs: IAbiMethod[],
+    fromBlock?: string,
+  ): Promise<EventStreamSubscription>;
+  connect(
+    url: string,
+    topic: string,
+    handleEvents: (events: Event[]) => void,
+    handleReceipt: (receipt: EventStreamReply) => void,
+  ): EventStreamConnection;
+}
+
+export type BlockchainConnector = TransactionConnector & EventStreamConnector;
+
+/**
+ * Backend used to look up past events directly, independently of any event stream.
+ */
+export interface HistoricalEventConnector {
+  getBlockNumber(): Promise<number>;
+  getHistoricalEvents(
+    address: string,
+    events: IAbiMethod[],
+    methods: IAbiMethod[],
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<Event[]>;
+}
+
+/**
+ * Backend used to simulate transactions without submitting them.
+ */
+export interface TransactionEstimator {
+  estimate(from: string, to: string, method?: IAbiMethod, params?: any[]): Promise<TokenEstimate>;
+}
+
+/**
+ * Backend used to look up details of the chain itself.
+ */
+export interface ChainConnector {
+  getChainId(): Promise<number>;
+}
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: number;
+  method: string;
+  params: any[];
+}
+
+export interface JsonRpcErrorDetails {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse<T> {
+  jsonrpc: '2.0';
+  id: number;
+  result?: T;
+  error?: JsonRpcErrorDetails;
+}
+
+export interface JsonRpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: string;
+  logIndex: string;
+}
+
+export interface JsonRpcBlock {
+  number: string;
+  hash: string;
+  timestamp: string;
+  baseFeePerGas?: string;
+}
+
+export interface JsonRpcTransaction {
+  hash: string;
+  from: string;
+  input: string;
+}
+
+export interface JsonRpcReceipt {
+  transactionHash: string;
+  blockNumber: string;
+  status?: string;
+}
+
+export interface JsonRpcSubscription extends EventStreamSubscription {
+  address: string;
+  event: IAbiMethod;
+  methods: IAbiMethod[];
+  fromBlock: string;
+  nextBlock?: number;
+}
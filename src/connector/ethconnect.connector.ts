@@ -0,0 +1,110 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { ClientRequest } from 'http';
+import { HttpService } from '@nestjs/axios';
+import { InternalServerErrorException, Logger, NotFoundException } from '@nestjs/common';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { lastValueFrom } from 'rxjs';
+import { EventStreamReply } from '../event-stream/event-stream.interfaces';
+import { EthConnectAsyncResponse, EthConnectReturn, IAbiMethod } from '../tokens/tokens.interfaces';
+import { basicAuth } from '../utils';
+import { TransactionConnector } from './connector.interfaces';
+
+const sendTransactionHeader = 'SendTransaction';
+const queryHeader = 'Query';
+
+/**
+ * Submits queries and transactions via the ethconnect (or FireFly Transaction Manager) REST API.
+ */
+export class EthConnectConnector implements TransactionConnector {
+  private readonly logger = new Logger(EthConnectConnector.name);
+
+  constructor(
+    private http: HttpService,
+    private baseUrl: string,
+    private fftmUrl: string,
+    private username: string,
+    private password: string,
+  ) {}
+
+  private requestOptions(): AxiosRequestConfig {
+    return basicAuth(this.username, this.password);
+  }
+
+  private async wrapError<T>(response: Promise<AxiosResponse<T>>) {
+    return response.catch(err => {
+      if (axios.isAxiosError(err)) {
+        const request: ClientRequest | undefined = err.request;
+        const response: AxiosResponse | undefined = err.response;
+        const errorMessage = response?.data?.error ?? err.message;
+        this.logger.warn(
+          `${request?.path} <-- HTTP ${response?.status} ${response?.statusText}: ${errorMessage}`,
+        );
+        throw new InternalServerErrorException(errorMessage);
+      }
+      throw err;
+    });
+  }
+
+  async query(to: string, method?: IAbiMethod, params?: any[]) {
+    const response = await this.wrapError(
+      lastValueFrom(
+        this.http.post<EthConnectReturn>(
+          this.baseUrl,
+          { headers: { type: queryHeader }, to, method, params },
+          this.requestOptions(),
+        ),
+      ),
+    );
+    return response.data;
+  }
+
+  async sendTransaction(
+    from: string,
+    to: string,
+    id?: string,
+    method?: IAbiMethod,
+    params?: any[],
+  ) {
+    const url = this.fftmUrl !== undefined && this.fftmUrl !== '' ? this.fftmUrl : this.baseUrl;
+    const response = await this.wrapError(
+      lastValueFrom(
+        this.http.post<EthConnectAsyncResponse>(
+          url,
+          { headers: { id, type: sendTransactionHeader }, from, to, method, params },
+          this.requestOptions(),
+        ),
+      ),
+    );
+    return response.data;
+  }
+
+  async getReceipt(id: string): Promise<EventStreamReply> {
+    const response = await this.wrapError(
+      lastValueFrom(
+        this.http.get<EventStreamReply>(`${this.baseUrl}/reply/${id}`, {
+          validateStatus: status => status < 300 || status === 404,
+          ...this.requestOptions(),
+        }),
+      ),
+    );
+    if (response.status === 404) {
+      throw new NotFoundException();
+    }
+    return response.data;
+  }
+}
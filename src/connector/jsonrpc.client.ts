@@ -0,0 +1,86 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { defaultAbiCoder } from '@ethersproject/abi';
+import { HttpService } from '@nestjs/axios';
+import { InternalServerErrorException, Logger } from '@nestjs/common';
+import { lastValueFrom } from 'rxjs';
+import { JsonRpcErrorDetails, JsonRpcRequest, JsonRpcResponse } from './connector.interfaces';
+
+// Selector of Error(string), used by require() and revert() with a message
+const ERROR_SELECTOR = '0x08c379a0';
+
+/**
+ * Get the reason a call reverted, preferring the decoded revert message over the node's
+ * error text.
+ */
+export function getRevertReason(error: { message: string; data?: unknown }) {
+  if (typeof error.data === 'string' && error.data.startsWith(ERROR_SELECTOR)) {
+    try {
+      const [reason] = defaultAbiCoder.decode(['string'], '0x' + error.data.substring(10));
+      return reason as string;
+    } catch (err) {
+      // Fall back to the error message
+    }
+  }
+  return error.message;
+}
+
+/**
+ * An error returned by the node for a JSON-RPC call, keeping the error code and data
+ * (such as the encoded revert reason of a failed call).
+ */
+export class JsonRpcError extends InternalServerErrorException {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(readonly method: string, error: JsonRpcErrorDetails) {
+    super(error.message);
+    this.code = error.code;
+    this.data = error.data;
+  }
+}
+
+/**
+ * Minimal client for an Ethereum JSON-RPC endpoint over HTTP.
+ */
+export class JsonRpcClient {
+  private readonly logger = new Logger(JsonRpcClient.name);
+  private requestId = 0;
+
+  constructor(private http: HttpService, readonly url: string) {}
+
+  /**
+   * Send a request and return the raw response, including any error from the node.
+   */
+  async request<T>(method: string, params: any[] = []) {
+    const request: JsonRpcRequest = { jsonrpc: '2.0', id: ++this.requestId, method, params };
+    const response = await lastValueFrom(this.http.post<JsonRpcResponse<T>>(this.url, request));
+    return response.data;
+  }
+
+  /**
+   * Send a request and return its result, throwing a JsonRpcError if the node returns an error.
+   */
+  async call<T>(method: string, params: any[] = []): Promise<T> {
+    const response = await this.request<T>(method, params);
+    if (response.error !== undefined) {
+      this.logger.warn(`JSON-RPC ${method} failed: ${response.error.message}`);
+      throw new JsonRpcError(method, response.error);
+    }
+    return response.result as T;
+  }
+}
@@ -0,0 +1,557 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { HttpService } from '@nestjs/axios';
+import { defaultAbiCoder, Interface } from '@ethersproject/abi';
+import { BadRequestException } from '@nestjs/common';
+import { parse } from '@ethersproject/transactions';
+import { of } from 'rxjs';
+import ERC20WithDataABI from '../abi/ERC20WithData.json';
+import { KeystoreSigner } from '../signer/keystore.signer';
+import { IAbiMethod } from '../tokens/tokens.interfaces';
+import { JsonRpcConnector } from './jsonrpc.connector';
+
+const RPC_URL = 'http://rpc';
+const CONTRACT_ADDRESS = '0x123456789abcdef0123456789abcdef012345678';
+const ACCOUNT = '0xb107ed9caa1323b7bc36e81995a4658ec2251951';
+const TX_HASH = '0x' + '12'.repeat(32);
+const BLOCK_HASH = '0x' + 'ab'.repeat(32);
+// Well-known development key (Hardhat/Anvil account 0)
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const SIGNER = '0xf39fd6e51aad88f6f4ce6ab8827279cfffb92266';
+
+const erc20 = new Interface(ERC20WithDataABI.abi);
+const balanceOfABI = ERC20WithDataABI.abi.find(m => m.name === 'balanceOf') as IAbiMethod;
+const mintABI = ERC20WithDataABI.abi.find(m => m.name === 'mintWithData') as IAbiMethod;
+const transferEventABI = ERC20WithDataABI.abi.find(
+  m => m.name === 'Transfer' && m.type === 'event',
+) as IAbiMethod;
+
+function rpcResponse(result: any) {
+  return of({ data: { jsonrpc: '2.0', id: 1, result } });
+}
+
+function rpcError(message: string) {
+  return of({ data: { jsonrpc: '2.0', id: 1, error: { code: -32000, message } } });
+}
+
+describe('JsonRpcConnector', () => {
+  let connector: JsonRpcConnector;
+  const http = {
+    post: jest.fn(),
+  };
+
+  // Responses for the nonce, gas estimate and (legacy) fees of a new transaction
+  const mockSubmission = () =>
+    http.post
+      .mockReturnValueOnce(rpcResponse('0x0'))
+      .mockReturnValueOnce(rpcResponse('0x5208'))
+      .mockReturnValueOnce(rpcResponse({ number: '0x10' }))
+      .mockReturnValueOnce(rpcResponse('0x3b9aca00'));
+
+  beforeEach(() => {
+    http.post.mockReset();
+    connector = new JsonRpcConnector(http as unknown as HttpService, RPC_URL);
+  });
+
+  it('should encode queries and decode the result', async () => {
+    http.post.mockReturnValueOnce(
+      rpcResponse(erc20.encodeFunctionResult('balanceOf', ['1000000000000000000000'])),
+    );
+
+    const result = await connector.query(CONTRACT_ADDRESS, balanceOfABI, [ACCOUNT]);
+    expect(result).toEqual({ output: '1000000000000000000000' });
+    expect(http.post).toHaveBeenCalledWith(RPC_URL, {
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'eth_call',
+      params: [
+        { to: CONTRACT_ADDRESS, data: erc20.encodeFunctionData('balanceOf', [ACCOUNT]) },
+        'latest',
+      ],
+    });
+  });
+
+  it('should surface JSON-RPC errors from queries', async () => {
+    http.post.mockReturnValueOnce(rpcError('execution reverted'));
+    await expect(connector.query(CONTRACT_ADDRESS, balanceOfABI, [ACCOUNT])).rejects.toThrow(
+      'execution reverted',
+    );
+  });
+
+  it('should send transactions and track their receipts', async () => {
+    mockSubmission()
+      .mockReturnValueOnce(rpcResponse(TX_HASH))
+      .mockReturnValueOnce(rpcResponse(null))
+      .mockReturnValueOnce(
+        rpcResponse({ transactionHash: TX_HASH, blockNumber: '0x2', status: '0x1' }),
+      );
+
+    const params = [ACCOUNT, '20', '0x00'];
+    const response = await connector.sendTransaction(
+      ACCOUNT,
+      CONTRACT_ADDRESS,
+      'req-1',
+      mintABI,
+      params,
+    );
+    expect(response).toEqual({ id: 'req-1', sent: true });
+    expect(http.post).toHaveBeenCalledWith(RPC_URL, {
+      jsonrpc: '2.0',
+      id: 5,
+      method: 'eth_sendTransaction',
+      params: [
+        {
+          from: ACCOUNT,
+          to: CONTRACT_ADDRESS,
+          data: erc20.encodeFunctionData('mintWithData', params),
+          nonce: '0x0',
+          gas: '0x5208',
+          gasPrice: '0x3b9aca00',
+        },
+      ],
+    });
+
+    await expect(connector.getReceipt('req-1')).rejects.toThrow('Not Found');
+    expect(await connector.checkReceipts()).toEqual([
+      {
+        headers: { type: 'TransactionSuccess', requestId: 'req-1' },
+        transactionHash: TX_HASH,
+      },
+    ]);
+    expect(await connector.getReceipt('req-1')).toEqual({
+      headers: { type: 'TransactionSuccess', requestId: 'req-1' },
+      transactionHash: TX_HASH,
+    });
+    expect(http.post).toHaveBeenCalledTimes(7);
+  });
+
+  it('should sign EIP-1559 transactions locally', async () => {
+    const signer = new KeystoreSigner();
+    await signer.addKey(PRIVATE_KEY);
+    connector.useSigner(signer);
+    http.post
+      .mockReturnValueOnce(rpcResponse('0x7'))
+      .mockReturnValueOnce(rpcResponse('0x5208'))
+      .mockReturnValueOnce(rpcResponse({ number: '0x10', baseFeePerGas: '0x3b9aca00' }))
+      .mockReturnValueOnce(rpcResponse('0x59682f00'))
+      .mockReturnValueOnce(rpcResponse('0x539'))
+      .mockReturnValueOnce(rpcResponse(TX_HASH));
+
+    const params = [ACCOUNT, '20', '0x00'];
+    const data = erc20.encodeFunctionData('mintWithData', params);
+    const response = await connector.sendTransaction(
+      SIGNER,
+      CONTRACT_ADDRESS,
+      'req-1',
+      mintABI,
+      params,
+    );
+    expect(response).toEqual({ id: 'req-1', sent: true });
+
+    const methods = http.post.mock.calls.map(call => call[1].method as string);
+    expect(methods).toEqual([
+      'eth_getTransactionCount',
+      'eth_estimateGas',
+      'eth_getBlockByNumber',
+      'eth_maxPriorityFeePerGas',
+      'eth_chainId',
+      'eth_sendRawTransaction',
+    ]);
+    const tx = parse(http.post.mock.calls[5][1].params[0]);
+    expect(tx.from?.toLowerCase()).toEqual(SIGNER);
+    expect(tx.to?.toLowerCase()).toEqual(CONTRACT_ADDRESS);
+    expect(tx.data).toEqual(data);
+    expect(tx.chainId).toEqual(1337);
+    expect(tx.nonce).toEqual(7);
+    expect(tx.type).toEqual(2);
+    expect(tx.gasLimit.toNumber()).toEqual(21000);
+    expect(tx.maxPriorityFeePerGas?.toString()).toEqual('1500000000');
+    expect(tx.maxFeePerGas?.toString()).toEqual('3500000000');
+  });
+
+  it('should sign legacy transactions locally on chains without a base fee', async () => {
+    const signer = new KeystoreSigner();
+    await signer.addKey(PRIVATE_KEY);
+    connector.useSigner(signer);
+    mockSubmission()
+      .mockReturnValueOnce(rpcResponse('0x2a'))
+      .mockReturnValueOnce(rpcResponse(TX_HASH));
+
+    await connector.sendTransaction(SIGNER, CONTRACT_ADDRESS, 'req-1', mintABI, [
+      ACCOUNT,
+      '20',
+      '0x00',
+    ]);
+    expect(http.post.mock.calls[3][1].method).toEqual('eth_gasPrice');
+    const tx = parse(http.post.mock.calls[5][1].params[0]);
+    expect(tx.from?.toLowerCase()).toEqual(SIGNER);
+    expect(tx.maxFeePerGas).toBeUndefined();
+    expect(tx.chainId).toEqual(42);
+    expect(tx.gasPrice?.toString()).toEqual('1000000000');
+  });
+
+  it('should reject transactions that would revert', async () => {
+    http.post.mockReturnValueOnce(rpcResponse('0x0')).mockReturnValueOnce(
+      of({
+        data: {
+          jsonrpc: '2.0',
+          id: 2,
+          error: {
+            code: 3,
+            message: 'execution reverted: ERC20: insufficient allowance',
+            data:
+              '0x08c379a0' +
+              defaultAbiCoder.encode(['string'], ['ERC20: insufficient allowance']).substring(2),
+          },
+        },
+      }),
+    );
+
+    const sent = connector.sendTransaction(ACCOUNT, CONTRACT_ADDRESS, 'req-1', mintABI, [
+      ACCOUNT,
+      '20',
+      '0x00',
+    ]);
+    await expect(sent).rejects.toThrow(BadRequestException);
+    await expect(sent).rejects.toThrow('ERC20: insufficient allowance');
+    expect(http.post).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject signers that are not in the keystore', async () => {
+    connector.useSigner(new KeystoreSigner());
+    await expect(
+      connector.sendTransaction(ACCOUNT, CONTRACT_ADDRESS, 'req-1', mintABI, [
+        ACCOUNT,
+        '20',
+        '0x00',
+      ]),
+    ).rejects.toThrow(BadRequestException);
+    expect(http.post).not.toHaveBeenCalled();
+  });
+
+  it('should report reverted transactions as failures', async () => {
+    mockSubmission()
+      .mockReturnValueOnce(rpcResponse(TX_HASH))
+      .mockReturnValueOnce(
+        rpcResponse({ transactionHash: TX_HASH, blockNumber: '0x2', status: '0x0' }),
+      );
+
+    await connector.sendTransaction(ACCOUNT, CONTRACT_ADDRESS, 'req-1', mintABI, [
+      ACCOUNT,
+      '20',
+      '0x00',
+    ]);
+    expect(await connector.getReceipt('req-1')).toEqual({
+      headers: { type: 'TransactionFailure', requestId: 'req-1' },
+      transactionHash: TX_HASH,
+      errorMessage: 'Transaction reverted',
+    });
+  });
+
+  it('should estimate transactions without submitting them', async () => {
+    http.post.mockReturnValueOnce(rpcResponse('0x')).mockReturnValueOnce(rpcResponse('0x5208'));
+
+    const params = [ACCOUNT, '20', '0x00'];
+    const data = erc20.encodeFunctionData('mintWithData', params);
+    expect(await connector.estimate(ACCOUNT, CONTRACT_ADDRESS, mintABI, params)).toEqual({
+      to: CONTRACT_ADDRESS,
+      data,
+      success: true,
+      gasEstimate: '21000',
+    });
+    const methods = http.post.mock.calls.map(call => call[1].method as string);
+    expect(methods).toEqual(['eth_call', 'eth_estimateGas']);
+  });
+
+  it('should decode the revert reason of a failing estimate', async () => {
+    http.post.mockReturnValueOnce(
+      of({
+        data: {
+          jsonrpc: '2.0',
+          id: 1,
+          error: {
+            code: 3,
+            message: 'execution reverted: ERC20: insufficient allowance',
+            data:
+              '0x08c379a0' +
+              defaultAbiCoder.encode(['string'], ['ERC20: insufficient allowance']).substring(2),
+          },
+        },
+      }),
+    );
+
+    const result = await connector.estimate(ACCOUNT, CONTRACT_ADDRESS, mintABI, [
+      ACCOUNT,
+      '20',
+      '0x00',
+    ]);
+    expect(result).toMatchObject({
+      to: CONTRACT_ADDRESS,
+      success: false,
+      revertReason: 'ERC20: insufficient allowance',
+    });
+    expect(result.gasEstimate).toBeUndefined();
+    expect(http.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to the error message when there is no revert data', async () => {
+    http.post.mockReturnValueOnce(rpcError('insufficient funds for gas'));
+    const result = await connector.estimate(ACCOUNT, CONTRACT_ADDRESS, mintABI, [
+      ACCOUNT,
+      '20',
+      '0x00',
+    ]);
+    expect(result.revertReason).toEqual('insufficient funds for gas');
+  });
+
+  it('should report a failing gas estimate as a failure', async () => {
+    http.post
+      .mockReturnValueOnce(rpcResponse('0x'))
+      .mockReturnValueOnce(rpcError('gas required exceeds allowance'));
+
+    const result = await connector.estimate(ACCOUNT, CONTRACT_ADDRESS, mintABI, [
+      ACCOUNT,
+      '20',
+      '0x00',
+    ]);
+    expect(result).toMatchObject({
+      success: false,
+      revertReason: 'gas required exceeds allowance',
+    });
+    expect(result.gasEstimate).toBeUndefined();
+  });
+
+  it('should poll logs and only advance once the batch is committed', async () => {
+    const stream = await connector.createOrUpdateStream('tokens');
+    const sub = await connector.getOrCreateSubscription(
+      RPC_URL,
+      transferEventABI,
+      stream.id,
+      'Transfer',
+      'fft:pool:Transfer',
+      CONTRACT_ADDRESS,
+      [mintABI],
+      '0',
+    );
+    expect(
+      await connector.getOrCreateSubscription(
+        RPC_URL,
+        transferEventABI,
+        stream.id,
+        'Transfer',
+        'fft:pool:Transfer',
+        CONTRACT_ADDRESS,
+        [mintABI],
+        '0',
+      ),
+    ).toBe(sub);
+
+    const transferLog = erc20.encodeEventLog(erc20.getEvent('Transfer'), [
+      '0x0000000000000000000000000000000000000000',
+      ACCOUNT,
+      '20',
+    ]);
+    const log = {
+      ...transferLog,
+      address: CONTRACT_ADDRESS,
+      blockNumber: '0x2',
+      blockHash: BLOCK_HASH,
+      transactionHash: TX_HASH,
+      transactionIndex: '0x1a',
+      logIndex: '0x1',
+    };
+
+    http.post
+      .mockReturnValueOnce(rpcResponse('0x5'))
+      .mockReturnValueOnce(rpcResponse([log]))
+      .mockReturnValueOnce(rpcResponse({ number: '0x2', hash: BLOCK_HASH, timestamp: '0x64' }))
+      .mockReturnValueOnce(
+        rpcResponse({
+          hash: TX_HASH,
+          from: ACCOUNT,
+          input: erc20.encodeFunctionData('mintWithData', [ACCOUNT, '20', '0x1234']),
+        }),
+      );
+
+    const batch = await connector.getEvents('tokens');
+    expect(batch.events).toEqual([
+      {
+        subId: sub.id,
+        signature: 'Transfer(address,address,uint256)',
+        address: CONTRACT_ADDRESS,
+        operator: ACCOUNT,
+        blockNumber: '2',
+        blockHash: BLOCK_HASH,
+        transactionIndex: '0x1a',
+        transactionHash: TX_HASH,
+        logIndex: '1',
+        timestamp: '100',
+        data: {
+          from: '0x0000000000000000000000000000000000000000',
+          to: ACCOUNT,
+          value: '20',
+        },
+        inputMethod: 'mintWithData',
+        inputArgs: {
+          to: ACCOUNT,
+          amount: '20',
+          data: '0x1234',
+        },
+        inputSigner: ACCOUNT,
+      },
+    ]);
+    expect(http.post.mock.calls[1][1]).toEqual({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'eth_getLogs',
+      params: [
+        {
+          address: CONTRACT_ADDRESS,
+          topics: [erc20.getEventTopic('Transfer')],
+          fromBlock: '0x0',
+          toBlock: '0x5',
+        },
+      ],
+    });
+
+    // Not committed - the same range is fetched again
+    http.post.mockReturnValueOnce(rpcResponse('0x5')).mockReturnValueOnce(rpcResponse([]));
+    await connector.getEvents('tokens');
+    expect(http.post.mock.calls[5][1].params[0].fromBlock).toEqual('0x0');
+
+    batch.commit();
+    http.post.mockReturnValueOnce(rpcResponse('0x6')).mockReturnValueOnce(rpcResponse([]));
+    await connector.getEvents('tokens');
+    expect(http.post.mock.calls[7][1].params[0]).toEqual(
+      expect.objectContaining({ fromBlock: '0x6', toBlock: '0x6' }),
+    );
+  });
+
+  it('should restart polling from the block a subscription is reset to', async () => {
+    const stream = await connector.createOrUpdateStream('tokens');
+    const sub = await connector.getOrCreateSubscription(
+      RPC_URL,
+      transferEventABI,
+      stream.id,
+      'Transfer',
+      'fft:pool:Transfer',
+      CONTRACT_ADDRESS,
+      [mintABI],
+      '0',
+    );
+
+    http.post.mockReturnValueOnce(rpcResponse('0x5')).mockReturnValueOnce(rpcResponse([]));
+    const batch = await connector.getEvents('tokens');
+
+    await connector.resetSubscription(sub.id, '3');
+    batch.commit();
+
+    http.post.mockReturnValueOnce(rpcResponse('0x6')).mockReturnValueOnce(rpcResponse([]));
+    await connector.getEvents('tokens');
+    expect(http.post.mock.calls[3][1].params[0]).toEqual(
+      expect.objectContaining({ fromBlock: '0x3', toBlock: '0x6' }),
+    );
+  });
+
+  it('should look up historical events for several event types', async () => {
+    const approvalEventABI = ERC20WithDataABI.abi.find(
+      m => m.name === 'Approval' && m.type === 'event',
+    ) as IAbiMethod;
+    const approvalLog = erc20.encodeEventLog(erc20.getEvent('Approval'), [ACCOUNT, ACCOUNT, '7']);
+
+    http.post
+      .mockReturnValueOnce(
+        rpcResponse([
+          {
+            ...approvalLog,
+            address: CONTRACT_ADDRESS,
+            blockNumber: '0xa',
+            blockHash: BLOCK_HASH,
+            transactionHash: TX_HASH,
+            transactionIndex: '0x3',
+            logIndex: '0x0',
+          },
+        ]),
+      )
+      .mockReturnValueOnce(rpcResponse({ number: '0xa', hash: BLOCK_HASH, timestamp: '0x64' }))
+      .mockReturnValueOnce(rpcResponse({ hash: TX_HASH, from: ACCOUNT, input: '0x' }));
+
+    const events = await connector.getHistoricalEvents(
+      CONTRACT_ADDRESS,
+      [transferEventABI, approvalEventABI],
+      [],
+      5,
+      20,
+    );
+    expect(events).toEqual([
+      expect.objectContaining({
+        signature: 'Approval(address,address,uint256)',
+        blockNumber: '10',
+        transactionIndex: '0x3',
+        data: { owner: ACCOUNT, spender: ACCOUNT, value: '7' },
+      }),
+    ]);
+    expect(http.post.mock.calls[0][1].params[0]).toEqual({
+      address: CONTRACT_ADDRESS,
+      topics: [[erc20.getEventTopic('Transfer'), erc20.getEventTopic('Approval')]],
+      fromBlock: '0x5',
+      toBlock: '0x14',
+    });
+  });
+
+  it('should report event locations in the same format as ethconnect', async () => {
+    const transferLog = erc20.encodeEventLog(erc20.getEvent('Transfer'), [ACCOUNT, ACCOUNT, '5']);
+    http.post
+      .mockReturnValueOnce(
+        rpcResponse([
+          {
+            ...transferLog,
+            address: CONTRACT_ADDRESS,
+            blockNumber: '0x1f',
+            blockHash: BLOCK_HASH,
+            transactionHash: TX_HASH,
+            transactionIndex: '0x1a',
+            logIndex: '0xb',
+          },
+        ]),
+      )
+      .mockReturnValueOnce(rpcResponse({ number: '0x1f', hash: BLOCK_HASH, timestamp: '0x64' }))
+      .mockReturnValueOnce(rpcResponse({ hash: TX_HASH, from: ACCOUNT, input: '0x' }));
+
+    // The same log as delivered by an ethconnect event stream
+    const ethconnectEvent = {
+      signature: 'Transfer(address,address,uint256)',
+      address: CONTRACT_ADDRESS,
+      blockNumber: '31',
+      transactionIndex: '0x1a',
+      transactionHash: TX_HASH,
+      logIndex: '11',
+      timestamp: '100',
+      data: { from: ACCOUNT, to: ACCOUNT, value: '5' },
+      inputSigner: ACCOUNT,
+    };
+
+    const [event] = await connector.getHistoricalEvents(
+      CONTRACT_ADDRESS,
+      [transferEventABI],
+      [],
+      0,
+      31,
+    );
+    expect(event).toMatchObject(ethconnectEvent);
+  });
+});
@@ -0,0 +1,525 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { HttpService } from '@nestjs/axios';
+import { InternalServerErrorException, Logger, NotFoundException } from '@nestjs/common';
+import { Interface, ParamType } from '@ethersproject/abi';
+import { BigNumber } from '@ethersproject/bignumber';
+import { v4 as uuidv4 } from 'uuid';
+import { Event, EventStream, EventStreamReply } from '../event-stream/event-stream.interfaces';
+import { KeystoreSigner } from '../signer/keystore.signer';
+import {
+  EthConnectAsyncResponse,
+  EthConnectReturn,
+  IAbiMethod,
+  TokenEstimate,
+} from '../tokens/tokens.interfaces';
+import { ManagedTransaction, TransactionStatus } from '../transactions/transactions.interfaces';
+import { TransactionManager } from '../transactions/transactions.manager';
+import {
+  BlockchainConnector,
+  ChainConnector,
+  EventStreamConnection,
+  HistoricalEventConnector,
+  JsonRpcBlock,
+  JsonRpcLog,
+  JsonRpcSubscription,
+  JsonRpcTransaction,
+  TransactionEstimator,
+} from './connector.interfaces';
+import { getRevertReason, JsonRpcClient, JsonRpcError } from './jsonrpc.client';
+
+const DEFAULT_POLL_INTERVAL = 1000;
+const MAX_BLOCK_RANGE = 1000;
+
+interface EventBatch {
+  events: Event[];
+  commit: () => void;
+}
+
+function toHex(value: number) {
+  return '0x' + value.toString(16);
+}
+
+function toDecimal(value: string) {
+  return BigNumber.from(value).toString();
+}
+
+/**
+ * Convert decoded ABI values to the same JSON representation used by ethconnect
+ * (numbers as decimal strings, addresses in lowercase).
+ */
+function formatValue(param: ParamType, value: any): any {
+  if (param.baseType === 'array') {
+    return (value as unknown[]).map(v => formatValue(param.arrayChildren, v) as unknown);
+  }
+  if (param.baseType === 'tuple') {
+    return formatValues(param.components, value);
+  }
+  if (BigNumber.isBigNumber(value)) {
+    return value.toString();
+  }
+  if (param.baseType === 'address') {
+    return (value as string).toLowerCase();
+  }
+  return value;
+}
+
+function formatValues(params: ParamType[], values: any) {
+  const result: Record<string, any> = {};
+  params.forEach((param, i) => {
+    result[param.name ?? i.toString()] = formatValue(param, values[i]);
+  });
+  return result;
+}
+
+/**
+ * Polls the connector for new events and receipts, and delivers them in the same way as the
+ * ethconnect websocket. A batch of events is not advanced past until it is acknowledged.
+ */
+export class JsonRpcEventStream implements EventStreamConnection {
+  private readonly logger = new Logger(JsonRpcEventStream.name);
+
+  private timer?: NodeJS.Timeout;
+  private closed = false;
+  private pendingBatch?: EventBatch;
+
+  constructor(
+    private connector: JsonRpcConnector,
+    private topic: string,
+    private pollInterval: number,
+    private handleEvents: (events: Event[]) => void,
+    private handleReceipt: (receipt: EventStreamReply) => void,
+  ) {
+    this.schedule();
+  }
+
+  private schedule() {
+    if (!this.closed) {
+      this.timer = setTimeout(() => this.poll(), this.pollInterval);
+    }
+  }
+
+  async poll() {
+    try {
+      for (const receipt of await this.connector.checkReceipts()) {
+        this.handleReceipt(receipt);
+      }
+      if (this.pendingBatch === undefined) {
+        const batch = await this.connector.getEvents(this.topic);
+        if (batch.events.length > 0) {
+          this.pendingBatch = batch;
+          for (const event of batch.events) {
+            this.logger.log(`JSON-RPC '${event.signature}' event: ${JSON.stringify(event.data)}`);
+          }
+          this.handleEvents(batch.events);
+        } else {
+          batch.commit();
+        }
+      }
+    } catch (err) {
+      this.logger.error(`Failed to poll for events: ${err}`);
+    }
+    this.schedule();
+  }
+
+  ack() {
+    this.pendingBatch?.commit();
+    this.pendingBatch = undefined;
+  }
+
+  /**
+   * Discard the current batch without committing it, so the same events are polled again.
+   */
+  nack(message: string) {
+    this.logger.warn(`Batch rejected, will be redelivered: ${message}`);
+    this.pendingBatch = undefined;
+  }
+
+  close() {
+    this.closed = true;
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+    }
+    this.logger.log('JSON-RPC event stream closed');
+  }
+}
+
+/**
+ * Connector that talks directly to an Ethereum JSON-RPC node (such as Hardhat or Anvil).
+ *
+ * ABI encoding is performed locally, transactions are submitted with eth_sendTransaction
+ * (so the signing accounts must be managed by the node) unless a local signer is provided,
+ * and events are streamed by polling eth_getLogs. Nonces and receipts are tracked by a
+ * TransactionManager. Streams and subscriptions are held in memory only.
+ */
+export class JsonRpcConnector
+  implements BlockchainConnector, HistoricalEventConnector, TransactionEstimator, ChainConnector
+{
+  private readonly logger = new Logger(JsonRpcConnector.name);
+
+  private streams = new Map<string, EventStream>();
+  private subscriptions = new Map<string, JsonRpcSubscription>();
+  readonly transactions = new TransactionManager(<T>(method: string, params?: any[]) =>
+    this.rpc<T>(method, params),
+  );
+
+  private client: JsonRpcClient;
+
+  constructor(http: HttpService, rpcUrl: string, private pollInterval = DEFAULT_POLL_INTERVAL) {
+    this.client = new JsonRpcClient(http, rpcUrl);
+  }
+
+  private rpc<T>(method: string, params: any[] = []): Promise<T> {
+    return this.client.call<T>(method, params);
+  }
+
+  /**
+   * Sign transactions locally with the given keys, and submit them with eth_sendRawTransaction.
+   */
+  useSigner(signer: KeystoreSigner) {
+    this.transactions.useSigner(signer);
+  }
+
+  async query(to: string, method?: IAbiMethod, params: any[] = []): Promise<EthConnectReturn> {
+    if (method?.name === undefined) {
+      throw new InternalServerErrorException('A method is required for queries');
+    }
+    const iface = new Interface([method]);
+    const data = iface.encodeFunctionData(method.name, params);
+    const result = await this.rpc<string>('eth_call', [{ to, data }, 'latest']);
+
+    let decoded: any;
+    try {
+      decoded = iface.decodeFunctionResult(method.name, result);
+    } catch (err) {
+      throw new InternalServerErrorException(`Failed to decode result of ${method.name}: ${err}`);
+    }
+    const outputs = iface.getFunction(method.name).outputs ?? [];
+    const response: Record<string, any> = { output: undefined };
+    outputs.forEach((param, i) => {
+      const key = i === 0 ? 'output' : `output${i}`;
+      response[key] = formatValue(param, decoded[i]);
+    });
+    return response as EthConnectReturn;
+  }
+
+  async sendTransaction(
+    from: string,
+    to: string,
+    id?: string,
+    method?: IAbiMethod,
+    params: any[] = [],
+  ): Promise<EthConnectAsyncResponse> {
+    const requestId = id ?? uuidv4();
+    await this.transactions.submit(requestId, from, to, this.encodeCall(method, params));
+    return { id: requestId, sent: true };
+  }
+
+  async estimate(
+    from: string,
+    to: string,
+    method?: IAbiMethod,
+    params: any[] = [],
+  ): Promise<TokenEstimate> {
+    const data = this.encodeCall(method, params);
+    const call = await this.client.request<string>('eth_call', [{ from, to, data }, 'latest']);
+    if (call.error !== undefined) {
+      return { to, data, success: false, revertReason: getRevertReason(call.error) };
+    }
+    try {
+      const gas = await this.rpc<string>('eth_estimateGas', [{ from, to, data }]);
+      return { to, data, success: true, gasEstimate: toDecimal(gas) };
+    } catch (err) {
+      if (err instanceof JsonRpcError) {
+        return { to, data, success: false, revertReason: getRevertReason(err) };
+      }
+      throw err;
+    }
+  }
+
+  private encodeCall(method?: IAbiMethod, params: any[] = []) {
+    if (method?.name === undefined) {
+      return '0x';
+    }
+    return new Interface([method]).encodeFunctionData(method.name, params);
+  }
+
+  async getReceipt(id: string): Promise<EventStreamReply> {
+    const tx = await this.transactions.checkTransaction(id);
+    if (tx === undefined || tx.status === TransactionStatus.PENDING) {
+      throw new NotFoundException();
+    }
+    return this.toReceipt(tx);
+  }
+
+  private toReceipt(tx: ManagedTransaction): EventStreamReply {
+    return {
+      headers: {
+        type:
+          tx.status === TransactionStatus.CONFIRMED ? 'TransactionSuccess' : 'TransactionFailure',
+        requestId: tx.requestId,
+      },
+      transactionHash: tx.hash,
+      errorMessage: tx.errorMessage,
+    };
+  }
+
+  /**
+   * Check all submitted transactions, and return receipts for any that have completed.
+   */
+  async checkReceipts() {
+    const completed = await this.transactions.checkPending();
+    return completed.filter(tx => tx.gapFill !== true).map(tx => this.toReceipt(tx));
+  }
+
+  getStreams(): Promise<EventStream[]> {
+    return Promise.resolve(Array.from(this.streams.values()));
+  }
+
+  createOrUpdateStream(topic: string): Promise<EventStream> {
+    const existing = Array.from(this.streams.values()).find(s => s.name === topic);
+    if (existing !== undefined) {
+      return Promise.resolve(existing);
+    }
+    const stream: EventStream = { id: uuidv4(), name: topic };
+    this.streams.set(stream.id, stream);
+    this.logger.log(`Event stream for ${topic}: ${stream.id}`);
+    return Promise.resolve(stream);
+  }
+
+  deleteStream(id: string) {
+    this.streams.delete(id);
+    return Promise.resolve();
+  }
+
+  getSubscriptions(): Promise<JsonRpcSubscription[]> {
+    return Promise.resolve(Array.from(this.subscriptions.values()));
+  }
+
+  getSubscription(subId: string): Promise<JsonRpcSubscription | undefined> {
+    return Promise.resolve(this.subscriptions.get(subId));
+  }
+
+  deleteSubscription(subId: string) {
+    this.subscriptions.delete(subId);
+    return Promise.resolve();
+  }
+
+  resetSubscription(subId: string, fromBlock: string) {
+    const sub = this.subscriptions.get(subId);
+    if (sub !== undefined) {
+      sub.fromBlock = fromBlock;
+      sub.nextBlock = undefined;
+    }
+    return Promise.resolve();
+  }
+
+  getOrCreateSubscription(
+    instancePath: string,
+    eventABI: IAbiMethod,
+    streamId: string,
+    event: string,
+    name: string,
+    contractAddress: string,
+    possibleABIs: IAbiMethod[],
+    fromBlock = '0', // subscribe from the start of the chain by default
+  ): Promise<JsonRpcSubscription> {
+    const existing = Array.from(this.subscriptions.values()).find(
+      s => s.name === name && s.stream === streamId,
+    );
+    if (existing !== undefined) {
+      this.logger.log(`Existing subscription for ${event}: ${existing.id}`);
+      return Promise.resolve(existing);
+    }
+    const sub: JsonRpcSubscription = {
+      id: uuidv4(),
+      name,
+      stream: streamId,
+      address: contractAddress.toLowerCase(),
+      event: eventABI,
+      methods: possibleABIs,
+      fromBlock,
+    };
+    this.subscriptions.set(sub.id, sub);
+    this.logger.log(`Created subscription ${event}: ${sub.id}`);
+    return Promise.resolve(sub);
+  }
+
+  /**
+   * Fetch the next set of events for all subscriptions on the stream for a topic.
+   * The subscriptions are only advanced past these events once the batch is committed.
+   */
+  async getEvents(topic: string): Promise<EventBatch> {
+    const streamId = Array.from(this.streams.values()).find(s => s.name === topic)?.id;
+    const head = await this.getBlockNumber();
+    const blocks = new Map<string, JsonRpcBlock>();
+    const transactions = new Map<string, JsonRpcTransaction>();
+    const events: Event[] = [];
+    const updates: [JsonRpcSubscription, number, number][] = [];
+
+    for (const sub of this.subscriptions.values()) {
+      if (sub.stream !== streamId) {
+        continue;
+      }
+      if (sub.nextBlock === undefined) {
+        sub.nextBlock =
+          sub.fromBlock === 'latest' ? head : BigNumber.from(sub.fromBlock).toNumber();
+      }
+      if (sub.nextBlock > head) {
+        continue;
+      }
+
+      const toBlock = Math.min(head, sub.nextBlock + MAX_BLOCK_RANGE - 1);
+      const iface = new Interface([sub.event]);
+      const fragment = iface.events[Object.keys(iface.events)[0]];
+      const logs = await this.rpc<JsonRpcLog[]>('eth_getLogs', [
+        {
+          address: sub.address,
+          topics: [iface.getEventTopic(fragment)],
+          fromBlock: toHex(sub.nextBlock),
+          toBlock: toHex(toBlock),
+        },
+      ]);
+      for (const log of logs) {
+        events.push(await this.buildEvent(sub, iface, log, blocks, transactions));
+      }
+      updates.push([sub, sub.nextBlock, toBlock + 1]);
+    }
+
+    events.sort(
+      (a, b) =>
+        Number(a.blockNumber) - Number(b.blockNumber) || Number(a.logIndex) - Number(b.logIndex),
+    );
+    return {
+      events,
+      commit: () => {
+        for (const [sub, fromBlock, nextBlock] of updates) {
+          // Skip subscriptions that were reset while this batch was being delivered
+          if (sub.nextBlock === fromBlock) {
+            sub.nextBlock = nextBlock;
+          }
+        }
+      },
+    };
+  }
+
+  getChainId() {
+    return this.transactions.getChainId();
+  }
+
+  async getBlockNumber() {
+    return BigNumber.from(await this.rpc<string>('eth_blockNumber')).toNumber();
+  }
+
+  /**
+   * Fetch the events emitted by a contract in a block range, without affecting any subscriptions.
+   */
+  async getHistoricalEvents(
+    address: string,
+    events: IAbiMethod[],
+    methods: IAbiMethod[],
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<Event[]> {
+    const iface = new Interface(events);
+    const sub: JsonRpcSubscription = {
+      id: 'replay',
+      name: 'replay',
+      stream: '',
+      address: address.toLowerCase(),
+      event: events[0],
+      methods,
+      fromBlock: fromBlock.toString(),
+    };
+    const logs = await this.rpc<JsonRpcLog[]>('eth_getLogs', [
+      {
+        address: sub.address,
+        topics: [Object.values(iface.events).map(fragment => iface.getEventTopic(fragment))],
+        fromBlock: toHex(fromBlock),
+        toBlock: toHex(toBlock),
+      },
+    ]);
+
+    const blocks = new Map<string, JsonRpcBlock>();
+    const transactions = new Map<string, JsonRpcTransaction>();
+    const result: Event[] = [];
+    for (const log of logs) {
+      result.push(await this.buildEvent(sub, iface, log, blocks, transactions));
+    }
+    return result.sort(
+      (a, b) =>
+        Number(a.blockNumber) - Number(b.blockNumber) || Number(a.logIndex) - Number(b.logIndex),
+    );
+  }
+
+  private async buildEvent(
+    sub: JsonRpcSubscription,
+    iface: Interface,
+    log: JsonRpcLog,
+    blocks: Map<string, JsonRpcBlock>,
+    transactions: Map<string, JsonRpcTransaction>,
+  ): Promise<Event> {
+    const parsed = iface.parseLog(log);
+
+    let block = blocks.get(log.blockHash);
+    if (block === undefined) {
+      block = await this.rpc<JsonRpcBlock>('eth_getBlockByHash', [log.blockHash, false]);
+      blocks.set(log.blockHash, block);
+    }
+    let tx = transactions.get(log.transactionHash);
+    if (tx === undefined) {
+      tx = await this.rpc<JsonRpcTransaction>('eth_getTransactionByHash', [log.transactionHash]);
+      transactions.set(log.transactionHash, tx);
+    }
+
+    const event: Event = {
+      subId: sub.id,
+      signature: parsed.signature,
+      address: log.address.toLowerCase(),
+      operator: tx.from.toLowerCase(),
+      blockNumber: toDecimal(log.blockNumber),
+      blockHash: log.blockHash,
+      // ethconnect reports the transaction index as a hex quantity, unlike the other locations
+      transactionIndex: toHex(BigNumber.from(log.transactionIndex).toNumber()),
+      transactionHash: log.transactionHash,
+      logIndex: toDecimal(log.logIndex),
+      timestamp: toDecimal(block.timestamp),
+      data: formatValues(parsed.eventFragment.inputs, parsed.args),
+      inputSigner: tx.from.toLowerCase(),
+    };
+
+    if (sub.methods.length > 0) {
+      try {
+        const input = new Interface(sub.methods).parseTransaction({ data: tx.input });
+        event.inputMethod = input.name;
+        event.inputArgs = formatValues(input.functionFragment.inputs, input.args);
+      } catch (err) {
+        // Transaction was not a call to one of the known methods
+      }
+    }
+    return event;
+  }
+
+  connect(
+    url: string,
+    topic: string,
+    handleEvents: (events: Event[]) => void,
+    handleReceipt: (receipt: EventStreamReply) => void,
+  ) {
+    return new JsonRpcEventStream(this, topic, this.pollInterval, handleEvents, handleReceipt);
+  }
+}
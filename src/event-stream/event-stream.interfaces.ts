@@ -25,6 +25,7 @@ export interface EventStreamSubscription {
   id: string;
   name: string;
   stream: string;
+  fromBlock?: string;
 }
 
 export interface Event {
@@ -33,6 +34,7 @@ export interface Event {
   address: string;
   operator: string;
   blockNumber: string;
+  blockHash?: string;
   transactionIndex: string;
   transactionHash: string;
   logIndex: string;
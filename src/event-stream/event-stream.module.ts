@@ -16,6 +16,8 @@
 
 import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
+import { MetricsModule } from '../metrics/metrics.module';
+import { TracingModule } from '../tracing/tracing.module';
 import { EventStreamService } from './event-stream.service';
 
 @Module({
@@ -23,6 +25,8 @@ import { EventStreamService } from './event-stream.service';
     HttpModule.register({
       timeout: 30000,
     }),
+    MetricsModule,
+    TracingModule,
   ],
   providers: [EventStreamService],
   exports: [EventStreamService],
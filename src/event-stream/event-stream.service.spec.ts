@@ -16,6 +16,8 @@
 
 import { HttpService } from '@nestjs/axios';
 import { Test, TestingModule } from '@nestjs/testing';
+import { MetricsService } from '../metrics/metrics.service';
+import { TracingService } from '../tracing/tracing.service';
 import { EventStreamService } from './event-stream.service';
 
 describe('EventStreamService', () => {
@@ -29,6 +31,8 @@ describe('EventStreamService', () => {
           provide: HttpService,
           useValue: jest.fn(),
         },
+        MetricsService,
+        TracingService,
       ],
     }).compile();
 
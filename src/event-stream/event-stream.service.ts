@@ -18,6 +18,9 @@ import { HttpService } from '@nestjs/axios';
 import { Injectable, Logger } from '@nestjs/common';
 import { lastValueFrom } from 'rxjs';
 import WebSocket from 'ws';
+import { EventStreamConnection, EventStreamConnector } from '../connector/connector.interfaces';
+import { MetricsService } from '../metrics/metrics.service';
+import { TracingService } from '../tracing/tracing.service';
 import { IAbiMethod } from '../tokens/tokens.interfaces';
 import { basicAuth } from '../utils';
 import {
@@ -31,7 +34,7 @@ const RECONNECT_TIME = 5000;
 const PING_INTERVAL = 10000;
 const PING_TIMEOUT = 60000;
 
-export class EventStreamSocket {
+export class EventStreamSocket implements EventStreamConnection {
   private readonly logger = new Logger(EventStreamSocket.name);
 
   private ws: WebSocket;
@@ -46,6 +49,8 @@ export class EventStreamSocket {
     private password: string,
     private handleEvents: (events: Event[]) => void,
     private handleReceipt: (receipt: EventStreamReply) => void,
+    private metrics?: MetricsService,
+    private tracing = new TracingService(),
   ) {
     this.init();
   }
@@ -65,11 +70,13 @@ export class EventStreamSocket {
         } else {
           this.logger.log('Event stream websocket connected');
         }
+        this.metrics?.eventStreamConnected.set(1);
         this.produce({ type: 'listen', topic: this.topic });
         this.produce({ type: 'listenreplies' });
         this.ping();
       })
       .on('close', () => {
+        this.metrics?.eventStreamConnected.set(0);
         if (this.closeRequested) {
           this.logger.log('Event stream websocket closed');
         } else {
@@ -110,6 +117,13 @@ export class EventStreamSocket {
     this.produce({ type: 'ack', topic: this.topic });
   }
 
+  /**
+   * Reject the current batch. Ethconnect will redeliver it after its blocked retry delay.
+   */
+  nack(message: string) {
+    this.produce({ type: 'error', topic: this.topic, message });
+  }
+
   close() {
     this.closeRequested = true;
     this.ws.terminate();
@@ -120,27 +134,42 @@ export class EventStreamSocket {
       for (const event of message) {
         this.logger.log(`Ethconnect '${event.signature}' message: ${JSON.stringify(event.data)}`);
       }
-      this.handleEvents(message);
+      this.tracing.traceSync('ethconnect events', { 'event.count': message.length }, () =>
+        this.handleEvents(message),
+      );
     } else {
       const replyType = message.headers.type;
       const errorMessage = message.errorMessage ?? '';
       this.logger.log(
         `Ethconnect '${replyType}' reply request=${message.headers.requestId} tx=${message.transactionHash} ${errorMessage}`,
       );
-      this.handleReceipt(message);
+      this.tracing.traceSync(
+        'ethconnect reply',
+        {
+          'request.id': message.headers.requestId,
+          'transaction.hash': message.transactionHash,
+          'reply.type': replyType,
+        },
+        () => this.handleReceipt(message),
+        this.tracing.requestContext(message.headers.requestId),
+      );
     }
   }
 }
 
 @Injectable()
-export class EventStreamService {
+export class EventStreamService implements EventStreamConnector {
   private readonly logger = new Logger(EventStreamService.name);
 
   private baseUrl: string;
   private username: string;
   private password: string;
 
-  constructor(private http: HttpService) {}
+  constructor(
+    private http: HttpService,
+    private metrics: MetricsService,
+    private tracing: TracingService,
+  ) {}
 
   configure(baseUrl: string, username: string, password: string) {
     this.baseUrl = baseUrl;
@@ -240,6 +269,16 @@ export class EventStreamService {
     );
   }
 
+  async resetSubscription(subId: string, fromBlock: string) {
+    await lastValueFrom(
+      this.http.post(
+        `${this.baseUrl}/subscriptions/${subId}/reset`,
+        { fromBlock },
+        { ...basicAuth(this.username, this.password) },
+      ),
+    );
+  }
+
   async createSubscription(
     instancePath: string,
     eventABI: IAbiMethod,
@@ -311,6 +350,8 @@ export class EventStreamService {
       this.password,
       handleEvents,
       handleReceipt,
+      this.metrics,
+      this.tracing,
     );
   }
 }
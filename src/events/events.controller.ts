@@ -0,0 +1,48 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Controller, MessageEvent, Query, Sse, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiSecurity } from '@nestjs/swagger';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { AuthGuard } from '../auth/auth.guard';
+import { EventStreamProxyGateway } from '../eventstream-proxy/eventstream-proxy.gateway';
+import { TokenEventQuery } from '../tokens/tokens.interfaces';
+
+function splitList(value?: string) {
+  return value === undefined ? undefined : value.split(',').filter(item => item !== '');
+}
+
+@Controller('events')
+@UseGuards(AuthGuard)
+@ApiSecurity('api_key')
+@ApiBearerAuth()
+export class EventsController {
+  constructor(private readonly proxy: EventStreamProxyGateway) {}
+
+  @Sse('stream')
+  @ApiOperation({
+    summary: 'Stream token events as Server-Sent Events',
+    description:
+      'Mirrors the token events sent on the websocket. ' +
+      'Events on this stream do not need to be (and cannot be) acknowledged.',
+  })
+  stream(@Query() query: TokenEventQuery): Observable<MessageEvent> {
+    return this.proxy
+      .watchEvents(splitList(query.poolLocators), splitList(query.events))
+      .pipe(map(message => ({ id: message.id, data: message })));
+  }
+}
@@ -15,10 +15,17 @@
 // limitations under the License.
 
 import { Logger } from '@nestjs/common';
-import { MessageBody, SubscribeMessage } from '@nestjs/websockets';
+import { ConnectedSocket, MessageBody, SubscribeMessage, WsResponse } from '@nestjs/websockets';
+import { trace } from '@opentelemetry/api';
+import { defer, Observable, Subject } from 'rxjs';
+import { filter, finalize } from 'rxjs/operators';
 import { v4 as uuidv4 } from 'uuid';
-import { Event } from '../event-stream/event-stream.interfaces';
-import { EventStreamService, EventStreamSocket } from '../event-stream/event-stream.service';
+import WebSocket from 'ws';
+import { AuthService } from '../auth/auth.service';
+import { EventStreamConnection, EventStreamConnector } from '../connector/connector.interfaces';
+import { Event, EventStreamReply } from '../event-stream/event-stream.interfaces';
+import { MetricsService } from '../metrics/metrics.service';
+import { TracingService } from '../tracing/tracing.service';
 import {
   WebSocketEventsBase,
   WebSocketEx,
@@ -26,10 +33,17 @@ import {
 } from '../websocket-events/websocket-events.base';
 import {
   AckMessageData,
+  EventConsumer,
+  EventDeliveryState,
+  EventDeliveryStore,
   EventListener,
   ReceiptEvent,
+  RetryableEventError,
+  SubscribeMessageData,
+  SubscribeReceiptsMessageData,
   WebSocketMessageWithId,
 } from './eventstream-proxy.interfaces';
+import { MemoryDeliveryStore, ReceiptStore } from './eventstream-proxy.store';
 
 /**
  * Base class for a websocket gateway that listens for and proxies event stream messages.
@@ -38,34 +52,69 @@ import {
  * @WebSocketGateway({ path: '/api/stream' })
  */
 export abstract class EventStreamProxyBase extends WebSocketEventsBase {
-  socket?: EventStreamSocket;
+  socket?: EventStreamConnection;
   url?: string;
   topic?: string;
 
   private listeners: EventListener[] = [];
-  private awaitingAck: WebSocketMessageWithId[] = [];
-  private currentClient: WebSocketEx | undefined;
+  private receiptListeners: ((receipt: ReceiptEvent) => void)[] = [];
+  private dispatched = new Subject<WebSocketMessageWithId>();
+  // Number of subscriptions to watchEvents()
+  private observers = 0;
+  // Consumers keyed by topic - the default consumer (all clients without a topic) uses ''
+  private consumers = new Map<string, EventConsumer>([['', { topic: '', awaitingAck: [] }]]);
+  private dispatchedEvents = new Set<string>();
+  private restoredEvents = new Set<string>();
+  private store: EventDeliveryStore = new MemoryDeliveryStore();
+  private receipts = new ReceiptStore();
+  private restored = false;
   private subscriptionNames = new Map<string, string>();
+  private checkpoints = new Map<string, string>();
   private queue = Promise.resolve();
+  // Set when an event in the current batch could not be processed, so the batch must be rejected
+  private batchError?: string;
+  // Set once the current batch has been rejected, until the next batch arrives
+  private batchRejected = false;
 
   constructor(
     protected readonly logger: Logger,
-    protected eventstream: EventStreamService,
+    protected eventstream: EventStreamConnector,
     requireAuth = false,
+    auth?: AuthService,
+    metrics?: MetricsService,
+    protected tracing = new TracingService(),
   ) {
-    super(logger, requireAuth);
+    super(logger, requireAuth, auth, metrics);
   }
 
-  configure(url?: string, topic?: string) {
+  configure(url?: string, topic?: string, store?: EventDeliveryStore) {
     this.url = url;
     this.topic = topic;
+    if (store !== undefined) {
+      this.store = store;
+      this.restored = false;
+    }
+  }
+
+  /**
+   * Receive events from an alternative connector in place of the ethconnect websocket.
+   */
+  useConnector(connector: EventStreamConnector) {
+    this.eventstream = connector;
   }
 
   handleConnection(client: WebSocketEx) {
     super.handleConnection(client);
-    if (this.server.clients.size === 1) {
+    if (client.readyState !== WebSocket.OPEN) {
+      // Connection was rejected (ie unauthorized)
+      return;
+    }
+    const consumer = this.getConsumer('');
+    if (consumer.currentClient === undefined) {
+      this.setCurrentClient(consumer, client);
+    }
+    if (this.socket === undefined) {
       this.logger.log(`Initializing event stream proxy`);
-      this.setCurrentClient(client);
       this.startListening();
     }
   }
@@ -78,48 +127,355 @@ export abstract class EventStreamProxyBase extends WebSocketEventsBase {
     if (this.url === undefined || this.topic === undefined) {
       return;
     }
+    this.queueTask(() => this.restoreState());
     this.socket = this.eventstream.connect(
       this.url,
       this.topic,
       events => {
+        this.queueTask(() => (this.batchRejected = false));
         for (const event of events) {
           this.queueTask(() => this.processEvent(event));
         }
         this.queueTask(() => this.checkBatchComplete());
       },
       receipt => {
-        this.broadcast('receipt', <ReceiptEvent>{
-          id: receipt.headers.requestId,
-          success: receipt.headers.type === 'TransactionSuccess',
-          message: receipt.errorMessage,
-        });
+        const requestId = receipt.headers.requestId;
+        this.receipts.add(receipt);
+        this.tracing.linkTransaction(requestId, receipt.transactionHash);
+        this.tracing.traceSync(
+          'receipt',
+          {
+            'request.id': requestId,
+            'transaction.hash': receipt.transactionHash,
+            'receipt.type': receipt.headers.type,
+          },
+          () => this.sendReceipt(receipt),
+          this.tracing.requestContext(requestId),
+        );
       },
     );
   }
 
+  /**
+   * Send a receipt to every client, except for clients that have subscribed to the
+   * receipts for specific request IDs (which only receive those receipts).
+   */
+  private sendReceipt(receipt: EventStreamReply) {
+    const id = receipt.headers.requestId;
+    const payload = this.formatReceipt(receipt);
+    this.server.clients.forEach(ws => {
+      const client = ws as WebSocketEx;
+      if (client.receiptIds === undefined || client.receiptIds.delete(id)) {
+        client.send(payload);
+      }
+    });
+    for (const listener of this.receiptListeners) {
+      listener(this.toReceiptEvent(receipt));
+    }
+  }
+
+  private toReceiptEvent(receipt: EventStreamReply): ReceiptEvent {
+    return {
+      id: receipt.headers.requestId,
+      success: receipt.headers.type === 'TransactionSuccess',
+      message: receipt.errorMessage,
+    };
+  }
+
+  private formatReceipt(receipt: EventStreamReply) {
+    return JSON.stringify(<WebSocketMessage>{
+      event: 'receipt',
+      data: this.toReceiptEvent(receipt),
+    });
+  }
+
+  getReceipt(id: string) {
+    return this.receipts.get(id);
+  }
+
+  /**
+   * Wait up to the given time for the receipt of a request to be received.
+   */
+  waitForReceipt(id: string, timeoutMs: number) {
+    return this.receipts.wait(id, timeoutMs);
+  }
+
   handleDisconnect(client: WebSocketEx) {
     super.handleDisconnect(client);
-    if (this.server.clients.size === 0) {
+    if (this.isIdle()) {
       this.stopListening();
-    } else if (client.id === this.currentClient?.id) {
-      for (const newClient of this.server.clients) {
-        this.setCurrentClient(newClient as WebSocketEx);
-        break;
-      }
+    } else {
+      this.leaveConsumer(client);
+      this.queueTask(async () => {
+        if (this.pruneDefaultConsumer()) {
+          await this.checkBatchComplete();
+        }
+      });
     }
   }
 
+  /**
+   * Check if nothing is left to receive events - no websocket clients, callback consumers
+   * or observers.
+   */
+  private isIdle() {
+    const hasCallbackConsumers = [...this.consumers.values()].some(c => c.deliver !== undefined);
+    return this.server.clients.size === 0 && !hasCallbackConsumers && this.observers === 0;
+  }
+
   private stopListening() {
     this.socket?.close();
     this.socket = undefined;
-    this.currentClient = undefined;
+    for (const consumer of this.consumers.values()) {
+      consumer.currentClient = undefined;
+    }
   }
 
   addListener(listener: EventListener) {
     this.listeners.push(listener);
   }
 
-  private async processEvent(event: Event) {
+  addReceiptListener(listener: (receipt: ReceiptEvent) => void) {
+    this.receiptListeners.push(listener);
+  }
+
+  /**
+   * Register a consumer for a topic that receives events through a callback instead of a
+   * websocket client. Each message must be passed to acknowledge() before the batch can be
+   * acknowledged. Events are received from then on, even if no websocket clients are connected.
+   */
+  addConsumer(topic: string, deliver: (message: WebSocketMessageWithId) => void) {
+    const consumer = this.getConsumer(topic);
+    consumer.deliver = deliver;
+    for (const message of consumer.awaitingAck) {
+      deliver(message);
+    }
+    if (this.socket === undefined) {
+      this.logger.log(`Initializing event stream proxy`);
+      this.startListening();
+    }
+  }
+
+  /**
+   * Observe every message dispatched to consumers, optionally filtered by pool locator and
+   * event type. Observers are not consumers, so they take no part in acknowledging a batch.
+   * Events are received while there are observers, even if no websocket clients are connected.
+   */
+  watchEvents(poolLocators?: string[], events?: string[]): Observable<WebSocketMessageWithId> {
+    return defer(() => {
+      this.addObserver();
+      return this.dispatched.pipe(
+        filter(
+          message =>
+            (events === undefined || events.includes(message.event)) &&
+            (poolLocators === undefined || poolLocators.includes(message.data?.poolLocator)),
+        ),
+        finalize(() => this.removeObserver()),
+      );
+    });
+  }
+
+  private addObserver() {
+    this.observers++;
+    if (this.socket === undefined) {
+      this.logger.log(`Initializing event stream proxy`);
+      this.startListening();
+    }
+    this.queueTask(async () => {
+      if (this.pruneDefaultConsumer()) {
+        await this.checkBatchComplete();
+      }
+    });
+  }
+
+  private removeObserver() {
+    this.observers--;
+    if (this.isIdle()) {
+      this.stopListening();
+    }
+  }
+
+  acknowledge(topic: string, id: string) {
+    const consumer = this.getConsumer(topic);
+    consumer.awaitingAck = consumer.awaitingAck.filter(msg => msg.id !== id);
+    this.queueTask(() => this.checkBatchComplete());
+  }
+
+  private send(consumer: EventConsumer, message: WebSocketMessageWithId) {
+    if (consumer.deliver !== undefined) {
+      consumer.deliver(message);
+    } else {
+      consumer.currentClient?.send(JSON.stringify(message));
+    }
+  }
+
+  private getConsumer(topic: string) {
+    let consumer = this.consumers.get(topic);
+    if (consumer === undefined) {
+      consumer = { topic, awaitingAck: [] };
+      this.consumers.set(topic, consumer);
+    }
+    return consumer;
+  }
+
+  /**
+   * Remove a client from its consumer, passing delivery to another client on the same topic.
+   */
+  private leaveConsumer(client: WebSocketEx) {
+    const consumer = this.getConsumer(client.topic ?? '');
+    if (consumer.currentClient?.id !== client.id) {
+      return;
+    }
+    consumer.currentClient = undefined;
+    for (const newClient of this.server.clients) {
+      const candidate = newClient as WebSocketEx;
+      if (
+        candidate.id !== client.id &&
+        candidate.readyState === WebSocket.OPEN &&
+        (candidate.topic ?? '') === consumer.topic
+      ) {
+        this.setCurrentClient(consumer, candidate);
+        break;
+      }
+    }
+  }
+
+  /**
+   * The default consumer only holds on to messages while it has a client, or while there are
+   * no other consumers or observers (to preserve delivery for a single disconnected client).
+   */
+  private isInterested(consumer: EventConsumer, message: WebSocketMessage) {
+    if (consumer.topic === '') {
+      return consumer.currentClient !== undefined || !this.hasOtherReceivers();
+    }
+    if (consumer.poolLocators === undefined) {
+      return true;
+    }
+    const poolLocator: string | undefined = message.data?.poolLocator;
+    return poolLocator === undefined || consumer.poolLocators.includes(poolLocator);
+  }
+
+  private hasOtherReceivers() {
+    return this.consumers.size > 1 || this.observers > 0;
+  }
+
+  private pruneDefaultConsumer() {
+    const consumer = this.getConsumer('');
+    if (
+      consumer.currentClient === undefined &&
+      this.hasOtherReceivers() &&
+      consumer.awaitingAck.length > 0
+    ) {
+      this.logger.log(
+        `Dropping ${consumer.awaitingAck.length} message(s) for default consumer with no clients`,
+      );
+      consumer.awaitingAck = [];
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Restore any state persisted by a previous run, and resend unacknowledged messages.
+   * Events that were already dispatched will be skipped when ethconnect redelivers the batch.
+   */
+  private async restoreState() {
+    if (this.restored) {
+      return;
+    }
+    this.restored = true;
+
+    let state: EventDeliveryState | undefined;
+    try {
+      state = await this.store.load();
+    } catch (err) {
+      this.logger.error(`Failed to restore delivery state: ${err}`);
+      return;
+    }
+    if (state === undefined) {
+      return;
+    }
+
+    const consumers = state.consumers ?? [];
+    this.logger.log(
+      `Restored delivery state: ${state.dispatchedEvents.length} dispatched event(s), ` +
+        `${state.awaitingAck.length} message(s) awaiting ack, ${consumers.length} topic(s)`,
+    );
+    for (const [subName, blockNumber] of Object.entries(state.checkpoints ?? {})) {
+      this.checkpoints.set(subName, blockNumber);
+    }
+    state.dispatchedEvents.forEach(key => {
+      this.dispatchedEvents.add(key);
+      this.restoredEvents.add(key);
+    });
+    this.restoreConsumer(this.getConsumer(''), state.awaitingAck);
+    for (const saved of consumers) {
+      const consumer = this.getConsumer(saved.topic);
+      consumer.poolLocators = saved.poolLocators;
+      this.restoreConsumer(consumer, saved.awaitingAck);
+    }
+  }
+
+  private restoreConsumer(consumer: EventConsumer, awaitingAck: WebSocketMessageWithId[]) {
+    consumer.awaitingAck.push(...awaitingAck);
+    for (const message of awaitingAck) {
+      this.send(consumer, message);
+    }
+  }
+
+  private async saveState() {
+    const consumers = [...this.consumers.values()].filter(consumer => consumer.topic !== '');
+    this.metrics?.awaitingAck.reset();
+    for (const consumer of this.consumers.values()) {
+      this.metrics?.awaitingAck.set({ topic: consumer.topic }, consumer.awaitingAck.length);
+    }
+    const checkpoints: Record<string, string> = {};
+    for (const [subName, blockNumber] of this.checkpoints) {
+      checkpoints[subName] = blockNumber;
+    }
+    try {
+      await this.store.save({
+        dispatchedEvents: [...this.dispatchedEvents],
+        awaitingAck: this.getConsumer('').awaitingAck,
+        consumers: consumers.map(consumer => ({
+          topic: consumer.topic,
+          poolLocators: consumer.poolLocators,
+          awaitingAck: consumer.awaitingAck,
+        })),
+        checkpoints: this.checkpoints.size > 0 ? checkpoints : undefined,
+      });
+    } catch (err) {
+      this.logger.error(`Failed to persist delivery state: ${err}`);
+    }
+  }
+
+  private getEventKey(event: Event) {
+    return `${event.subId}/${event.blockNumber}/${event.transactionIndex}/${event.logIndex}`;
+  }
+
+  private processEvent(event: Event) {
+    if (this.batchError !== undefined || this.batchRejected) {
+      return;
+    }
+    return this.tracing.trace(
+      'processEvent',
+      {
+        'event.signature': event.signature,
+        'event.subscription': event.subId,
+        'transaction.hash': event.transactionHash,
+      },
+      () => this.dispatchEvent(event),
+      this.tracing.transactionContext(event.transactionHash),
+    );
+  }
+
+  private async dispatchEvent(event: Event) {
+    const eventKey = this.getEventKey(event);
+    if (this.restoredEvents.has(eventKey)) {
+      this.logger.log(`Skipping previously dispatched event: ${eventKey}`);
+      return;
+    }
+
     this.logger.log(`Proxying event: ${JSON.stringify(event)}`);
     const subName = await this.getSubscriptionName(event.subId);
     if (subName === undefined) {
@@ -132,14 +488,52 @@ export abstract class EventStreamProxyBase extends WebSocketEventsBase {
         await listener.onEvent(subName, event, (newEvent: WebSocketMessage | undefined) => {
           if (newEvent !== undefined) {
             const message: WebSocketMessageWithId = { ...newEvent, id: uuidv4() };
-            this.awaitingAck.push(message);
-            this.currentClient?.send(JSON.stringify(message));
+            trace.getActiveSpan()?.addEvent('dispatch', { event: message.event, id: message.id });
+            this.dispatched.next(message);
+            for (const consumer of this.consumers.values()) {
+              if (this.isInterested(consumer, message)) {
+                consumer.awaitingAck.push(message);
+                this.send(consumer, message);
+              }
+            }
           }
         });
       } catch (err) {
+        if (err instanceof RetryableEventError) {
+          this.logger.error(`Failed to process event ${eventKey}, rejecting batch: ${err.message}`);
+          this.batchError = err.message;
+          return;
+        }
         this.logger.error(`Error processing event: ${err}`);
       }
     }
+
+    this.dispatchedEvents.add(eventKey);
+    this.updateCheckpoint(subName, event.blockNumber);
+  }
+
+  private updateCheckpoint(subName: string, blockNumber: string) {
+    const checkpoint = this.checkpoints.get(subName);
+    try {
+      if (checkpoint === undefined || BigInt(blockNumber) > BigInt(checkpoint)) {
+        this.checkpoints.set(subName, blockNumber);
+      }
+    } catch (err) {
+      this.logger.warn(`Invalid block number '${blockNumber}' for subscription ${subName}`);
+    }
+  }
+
+  /**
+   * Get the highest block number dispatched for each subscription (by subscription name),
+   * including any checkpoints persisted by a previous run.
+   */
+  getCheckpoints(): Promise<Map<string, string>> {
+    return new Promise(resolve =>
+      this.queueTask(async () => {
+        await this.restoreState();
+        resolve(new Map(this.checkpoints));
+      }),
+    );
   }
 
   private async getSubscriptionName(subId: string) {
@@ -155,29 +549,161 @@ export abstract class EventStreamProxyBase extends WebSocketEventsBase {
     return sub.name;
   }
 
-  private setCurrentClient(client: WebSocketEx) {
-    this.currentClient = client;
-    for (const message of this.awaitingAck) {
-      this.currentClient.send(JSON.stringify(message));
+  /**
+   * Drop the cached name of a subscription that has been deleted.
+   */
+  forgetSubscription(subId: string) {
+    this.subscriptionNames.delete(subId);
+  }
+
+  private setCurrentClient(consumer: EventConsumer, client: WebSocketEx) {
+    consumer.currentClient = client;
+    for (const message of consumer.awaitingAck) {
+      client.send(JSON.stringify(message));
+    }
+  }
+
+  /**
+   * Persist the delivery state at the end of a batch or after an acknowledgment, and ack the
+   * batch once every dispatched message has been acknowledged.
+   */
+  private async checkBatchComplete() {
+    if (this.batchRejected) {
+      await this.saveState();
+      return;
+    }
+    if (this.batchError !== undefined) {
+      await this.rejectBatch(this.batchError);
+      return;
+    }
+    this.pruneDefaultConsumer();
+    for (const consumer of this.consumers.values()) {
+      if (consumer.awaitingAck.length > 0) {
+        await this.saveState();
+        return;
+      }
     }
+    this.dispatchedEvents.clear();
+    this.restoredEvents.clear();
+    await this.saveState();
+    this.logger.log('Sending ack for batch');
+    this.socket?.ack();
+  }
+
+  /**
+   * Reject the current batch so that it is redelivered. Events that were already dispatched
+   * are skipped when the batch comes back, while their messages still await acknowledgment.
+   */
+  private async rejectBatch(reason: string) {
+    this.batchError = undefined;
+    this.batchRejected = true;
+    this.dispatchedEvents.forEach(key => this.restoredEvents.add(key));
+    await this.saveState();
+    this.logger.warn('Sending nack for batch');
+    this.socket?.nack(reason);
   }
 
-  private checkBatchComplete() {
-    if (this.awaitingAck.length === 0) {
-      this.logger.log('Sending ack for batch');
-      this.socket?.ack();
+  /**
+   * Move a client to a named topic. All clients on the same topic share one consumer, which
+   * receives only the events for its pool locators (or all events if none are specified) and
+   * must acknowledge each one before the batch can be acknowledged to ethconnect.
+   */
+  @SubscribeMessage('subscribe')
+  handleSubscribe(
+    @MessageBody() data: SubscribeMessageData,
+    @ConnectedSocket() client: WebSocketEx,
+  ): WsResponse<SubscribeMessageData> | undefined {
+    if (typeof data?.topic !== 'string' || data.topic === '') {
+      this.logger.error('Received malformed subscribe');
+      return;
+    }
+
+    if (this.consumers.get(data.topic)?.deliver !== undefined) {
+      this.logger.error(`Topic '${data.topic}' is reserved`);
+      return;
+    }
+
+    this.logger.log(`WebSocket ${client.id}: subscribing to topic '${data.topic}'`);
+    this.leaveConsumer(client);
+    client.topic = data.topic;
+    const consumer = this.getConsumer(data.topic);
+    if (data.poolLocators !== undefined) {
+      consumer.poolLocators = data.poolLocators;
+    }
+    if (consumer.currentClient === undefined) {
+      this.setCurrentClient(consumer, client);
+    }
+    this.queueTask(async () => {
+      this.pruneDefaultConsumer();
+      await this.saveState();
+    });
+    return {
+      event: 'subscribed',
+      data: { topic: consumer.topic, poolLocators: consumer.poolLocators },
+    };
+  }
+
+  /**
+   * Remove a client from its topic. If it was the last client on the topic, the topic and any
+   * unacknowledged messages for it are discarded.
+   */
+  @SubscribeMessage('unsubscribe')
+  handleUnsubscribe(@ConnectedSocket() client: WebSocketEx) {
+    if (client.topic === undefined) {
+      return;
+    }
+
+    this.logger.log(`WebSocket ${client.id}: unsubscribing from topic '${client.topic}'`);
+    const consumer = this.getConsumer(client.topic);
+    this.leaveConsumer(client);
+    client.topic = undefined;
+    if (consumer.currentClient === undefined) {
+      this.consumers.delete(consumer.topic);
+    }
+    const defaultConsumer = this.getConsumer('');
+    if (defaultConsumer.currentClient === undefined) {
+      this.setCurrentClient(defaultConsumer, client);
+    }
+    this.queueTask(() => this.checkBatchComplete());
+  }
+
+  /**
+   * Only send this client the receipts for the given request IDs, instead of every receipt.
+   * Each ID is removed from the subscription once its receipt has been sent.
+   */
+  @SubscribeMessage('subscribeReceipts')
+  handleSubscribeReceipts(
+    @MessageBody() data: SubscribeReceiptsMessageData,
+    @ConnectedSocket() client: WebSocketEx,
+  ): WsResponse<SubscribeReceiptsMessageData> | undefined {
+    if (!Array.isArray(data?.ids) || data.ids.some(id => typeof id !== 'string')) {
+      this.logger.error('Received malformed subscribeReceipts');
+      return;
+    }
+
+    this.logger.log(`WebSocket ${client.id}: subscribing to ${data.ids.length} receipt(s)`);
+    const receiptIds = client.receiptIds ?? new Set();
+    client.receiptIds = receiptIds;
+    for (const id of data.ids) {
+      const receipt = this.receipts.get(id);
+      if (receipt !== undefined) {
+        // Receipt was received before the client subscribed
+        client.send(this.formatReceipt(receipt));
+      } else {
+        receiptIds.add(id);
+      }
     }
+    return { event: 'receiptsSubscribed', data: { ids: [...receiptIds] } };
   }
 
   @SubscribeMessage('ack')
-  handleAck(@MessageBody() data: AckMessageData) {
+  handleAck(@MessageBody() data: AckMessageData, @ConnectedSocket() client: WebSocketEx) {
     if (data.id === undefined) {
       this.logger.error('Received malformed ack');
       return;
     }
 
     this.logger.log(`Received ack ${data.id}`);
-    this.awaitingAck = this.awaitingAck.filter(msg => msg.id !== data.id);
-    this.checkBatchComplete();
+    this.acknowledge(client.topic ?? '', data.id);
   }
 }
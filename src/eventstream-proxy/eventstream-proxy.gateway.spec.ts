@@ -16,7 +16,10 @@
 
 import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
+import { AuthService } from '../auth/auth.service';
 import { EventStreamService } from '../event-stream/event-stream.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { TracingService } from '../tracing/tracing.service';
 import { EventStreamProxyGateway } from './eventstream-proxy.gateway';
 
 describe('EventStreamProxyGateway', () => {
@@ -37,6 +40,12 @@ describe('EventStreamProxyGateway', () => {
           provide: EventStreamService,
           useValue: jest.fn(),
         },
+        {
+          provide: AuthService,
+          useValue: jest.fn(),
+        },
+        MetricsService,
+        TracingService,
       ],
     }).compile();
 
@@ -16,12 +16,20 @@
 
 import { Logger } from '@nestjs/common';
 import { WebSocketGateway } from '@nestjs/websockets';
+import { AuthService } from '../auth/auth.service';
 import { EventStreamService } from '../event-stream/event-stream.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { TracingService } from '../tracing/tracing.service';
 import { EventStreamProxyBase } from './eventstream-proxy.base';
 
 @WebSocketGateway({ path: '/api/ws' })
 export class EventStreamProxyGateway extends EventStreamProxyBase {
-  constructor(protected eventStream: EventStreamService) {
-    super(new Logger(EventStreamProxyGateway.name), eventStream, false);
+  constructor(
+    protected eventStream: EventStreamService,
+    auth: AuthService,
+    metrics: MetricsService,
+    tracing: TracingService,
+  ) {
+    super(new Logger(EventStreamProxyGateway.name), eventStream, true, auth, metrics, tracing);
   }
 }
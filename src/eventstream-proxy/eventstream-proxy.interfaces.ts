@@ -15,13 +15,19 @@
 // limitations under the License.
 
 import { ApiProperty } from '@nestjs/swagger';
-import { WebSocketMessage } from '../websocket-events/websocket-events.base';
+import { WebSocketEx, WebSocketMessage } from '../websocket-events/websocket-events.base';
 import { Event } from '../event-stream/event-stream.interfaces';
 
 export interface EventProcessor {
   (msg: WebSocketMessage | undefined): void;
 }
 
+/**
+ * Thrown by a listener when an event cannot be processed right now. The rest of the batch is
+ * skipped and the batch is rejected, so that it is redelivered later.
+ */
+export class RetryableEventError extends Error {}
+
 export interface EventListener {
   onEvent: (subName: string, event: Event, process: EventProcessor) => void | Promise<void>;
 }
@@ -44,3 +50,50 @@ export interface WebSocketMessageWithId extends WebSocketMessage {
 export interface AckMessageData {
   id?: string;
 }
+
+export interface SubscribeMessageData {
+  topic?: string;
+  poolLocators?: string[];
+}
+
+export interface SubscribeReceiptsMessageData {
+  ids?: string[];
+}
+
+/**
+ * A group of websocket clients sharing a topic, which receive and acknowledge events together.
+ * Only one client (the current client) receives events at a time.
+ */
+export interface EventConsumer {
+  topic: string;
+  poolLocators?: string[];
+  awaitingAck: WebSocketMessageWithId[];
+  currentClient?: WebSocketEx;
+  // Set for consumers that receive events through a callback instead of a websocket client
+  deliver?: (message: WebSocketMessageWithId) => void;
+}
+
+export interface SavedEventConsumer {
+  topic: string;
+  poolLocators?: string[];
+  awaitingAck: WebSocketMessageWithId[];
+}
+
+/**
+ * Snapshot of the delivery state for the batch currently being processed.
+ */
+export interface EventDeliveryState {
+  // Keys of all events from the current batch that have already been dispatched
+  dispatchedEvents: string[];
+  // Messages that have been dispatched to the default consumer but not yet acknowledged
+  awaitingAck: WebSocketMessageWithId[];
+  // Consumers subscribed to named topics, with their unacknowledged messages
+  consumers?: SavedEventConsumer[];
+  // Highest block number dispatched for each subscription (by subscription name)
+  checkpoints?: Record<string, string>;
+}
+
+export interface EventDeliveryStore {
+  load(): Promise<EventDeliveryState | undefined>;
+  save(state: EventDeliveryState): Promise<void>;
+}
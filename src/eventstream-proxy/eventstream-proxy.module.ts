@@ -16,11 +16,14 @@
 
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { AuthModule } from '../auth/auth.module';
 import { EventStreamModule } from '../event-stream/event-stream.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { TracingModule } from '../tracing/tracing.module';
 import { EventStreamProxyGateway } from './eventstream-proxy.gateway';
 
 @Module({
-  imports: [ConfigModule, EventStreamModule],
+  imports: [ConfigModule, EventStreamModule, AuthModule, MetricsModule, TracingModule],
   providers: [EventStreamProxyGateway],
   exports: [EventStreamProxyGateway],
 })
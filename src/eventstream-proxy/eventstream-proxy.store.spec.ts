@@ -0,0 +1,99 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventStreamReply } from '../event-stream/event-stream.interfaces';
+import { EventDeliveryState } from './eventstream-proxy.interfaces';
+import { FileDeliveryStore, ReceiptStore } from './eventstream-proxy.store';
+
+describe('FileDeliveryStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'delivery-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it('should return undefined when no state has been saved', async () => {
+    const store = new FileDeliveryStore(path.join(dir, 'state.json'));
+    expect(await store.load()).toBeUndefined();
+  });
+
+  it('should persist state across instances', async () => {
+    const file = path.join(dir, 'nested', 'state.json');
+    const state: EventDeliveryState = {
+      dispatchedEvents: ['sb-123/1/0x0/1'],
+      awaitingAck: [{ id: 'msg1', event: 'token-mint', data: { poolLocator: 'pool1' } }],
+    };
+
+    await new FileDeliveryStore(file).save(state);
+    expect(await new FileDeliveryStore(file).load()).toEqual(state);
+    expect(fs.existsSync(`${file}.tmp`)).toBe(false);
+  });
+
+  it('should apply saves in order', async () => {
+    const file = path.join(dir, 'state.json');
+    const store = new FileDeliveryStore(file);
+
+    await Promise.all([
+      store.save({ dispatchedEvents: ['1'], awaitingAck: [] }),
+      store.save({ dispatchedEvents: ['1', '2'], awaitingAck: [] }),
+      store.save({ dispatchedEvents: [], awaitingAck: [] }),
+    ]);
+    expect(await store.load()).toEqual({ dispatchedEvents: [], awaitingAck: [] });
+  });
+});
+
+describe('ReceiptStore', () => {
+  const receipt = (requestId: string) =>
+    <EventStreamReply>{ headers: { requestId, type: 'TransactionSuccess' } };
+
+  it('should return stored receipts', async () => {
+    const store = new ReceiptStore();
+    store.add(receipt('req1'));
+    expect(store.get('req1')).toEqual(receipt('req1'));
+    expect(await store.wait('req1', 1000)).toEqual(receipt('req1'));
+    expect(store.get('req2')).toBeUndefined();
+  });
+
+  it('should evict the oldest receipts', () => {
+    const store = new ReceiptStore(2);
+    store.add(receipt('req1'));
+    store.add(receipt('req2'));
+    store.add(receipt('req3'));
+    expect(store.get('req1')).toBeUndefined();
+    expect(store.get('req2')).toBeDefined();
+    expect(store.get('req3')).toBeDefined();
+  });
+
+  it('should resolve waiters when a receipt arrives', async () => {
+    const store = new ReceiptStore();
+    const waiting = Promise.all([store.wait('req1', 5000), store.wait('req1', 5000)]);
+    store.add(receipt('req1'));
+    expect(await waiting).toEqual([receipt('req1'), receipt('req1')]);
+  });
+
+  it('should time out waiting for a receipt', async () => {
+    const store = new ReceiptStore();
+    expect(await store.wait('req1', 10)).toBeUndefined();
+    expect(await store.wait('req1', 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,118 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Logger } from '@nestjs/common';
+import { EventStreamReply } from '../event-stream/event-stream.interfaces';
+import { JsonFileStore } from '../utils';
+import { EventDeliveryState, EventDeliveryStore } from './eventstream-proxy.interfaces';
+
+const DEFAULT_MAX_RECEIPTS = 10000;
+
+/**
+ * Non-durable store, used when no persistence is configured.
+ */
+export class MemoryDeliveryStore implements EventDeliveryStore {
+  constructor(private state?: EventDeliveryState) {}
+
+  load() {
+    return Promise.resolve(this.state);
+  }
+
+  save(state: EventDeliveryState) {
+    this.state = state;
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Store that persists the delivery state to a JSON file, so a crash mid-write leaves the
+ * previous state intact.
+ */
+export class FileDeliveryStore implements EventDeliveryStore {
+  private readonly logger = new Logger(FileDeliveryStore.name);
+  private readonly json: JsonFileStore<EventDeliveryState>;
+
+  constructor(file: string) {
+    this.json = new JsonFileStore(file);
+  }
+
+  async load() {
+    try {
+      return await this.json.read();
+    } catch (err) {
+      this.logger.error(`Failed to read delivery state from '${this.json.file}': ${err}`);
+      throw err;
+    }
+  }
+
+  save(state: EventDeliveryState) {
+    return this.json.write(state);
+  }
+}
+
+/**
+ * Bounded store of the most recent receipts received from the event stream.
+ *
+ * Callers may wait for a receipt that has not arrived yet; the oldest receipts are
+ * evicted once the limit is reached.
+ */
+export class ReceiptStore {
+  private receipts = new Map<string, EventStreamReply>();
+  private waiters = new Map<string, Set<(receipt: EventStreamReply) => void>>();
+
+  constructor(private readonly maxReceipts = DEFAULT_MAX_RECEIPTS) {}
+
+  get(id: string) {
+    return this.receipts.get(id);
+  }
+
+  add(receipt: EventStreamReply) {
+    const id = receipt.headers.requestId;
+    this.receipts.delete(id);
+    this.receipts.set(id, receipt);
+    while (this.receipts.size > this.maxReceipts) {
+      const oldest = this.receipts.keys().next().value as string;
+      this.receipts.delete(oldest);
+    }
+    this.waiters.get(id)?.forEach(resolve => resolve(receipt));
+    this.waiters.delete(id);
+  }
+
+  /**
+   * Wait up to the given time for a receipt to arrive.
+   * Resolves to undefined if no receipt was received in time.
+   */
+  wait(id: string, timeoutMs: number): Promise<EventStreamReply | undefined> {
+    const existing = this.receipts.get(id);
+    if (existing !== undefined || timeoutMs <= 0) {
+      return Promise.resolve(existing);
+    }
+    return new Promise(resolve => {
+      const waiters = this.waiters.get(id) ?? new Set();
+      const done = (receipt?: EventStreamReply) => {
+        clearTimeout(timer);
+        waiters.delete(done);
+        if (waiters.size === 0 && this.waiters.get(id) === waiters) {
+          this.waiters.delete(id);
+        }
+        resolve(receipt);
+      };
+      const timer = setTimeout(() => done(), timeoutMs);
+      waiters.add(done);
+      this.waiters.set(id, waiters);
+    });
+  }
+}
@@ -14,6 +14,7 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { HttpService } from '@nestjs/axios';
 import { ShutdownSignal, ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { NestFactory } from '@nestjs/core';
@@ -21,10 +22,18 @@ import { WsAdapter } from '@nestjs/platform-ws';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { version as API_VERSION } from '../package.json';
 import { AppModule } from './app.module';
+import { AuthService } from './auth/auth.service';
+import { ConfirmationsService } from './confirmations/confirmations.service';
+import { JsonRpcConnector } from './connector/jsonrpc.connector';
 import { EventStreamReply } from './event-stream/event-stream.interfaces';
 import { EventStreamService } from './event-stream/event-stream.service';
 import { EventStreamProxyGateway } from './eventstream-proxy/eventstream-proxy.gateway';
+import {
+  FileDeliveryStore,
+  MemoryDeliveryStore,
+} from './eventstream-proxy/eventstream-proxy.store';
 import { RequestLoggingInterceptor } from './request-logging.interceptor';
+import { KeystoreSigner } from './signer/keystore.signer';
 import {
   TokenApprovalEvent,
   TokenBurnEvent,
@@ -33,6 +42,11 @@ import {
   TokenTransferEvent,
 } from './tokens/tokens.interfaces';
 import { TokensService } from './tokens/tokens.service';
+import { FileIdempotencyStore, MemoryIdempotencyStore } from './tokens/tokens.store';
+import { TracingService } from './tracing/tracing.service';
+import { FileTransactionStore, MemoryTransactionStore } from './transactions/transactions.store';
+import { TransactionsService } from './transactions/transactions.service';
+import { WebhooksService } from './webhooks/webhooks.service';
 
 const API_DESCRIPTION = `
 <p>All POST APIs are asynchronous. Listen for websocket notifications on <code>/api/ws</code>.
@@ -43,12 +57,14 @@ export function getApiConfig() {
     .setTitle('FireFly Tokens - ERC20')
     .setDescription(API_DESCRIPTION)
     .setVersion(API_VERSION)
+    .addApiKey({ type: 'apiKey', name: 'X-API-Key', in: 'header' }, 'api_key')
+    .addBearerAuth()
     .build();
 }
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
-  app.setGlobalPrefix('api/v1');
+  app.setGlobalPrefix('api/v1', { exclude: ['metrics'] });
   app.useWebSocketAdapter(new WsAdapter(app));
   app.useGlobalPipes(new ValidationPipe({ whitelist: true }));
   app.enableShutdownHooks([ShutdownSignal.SIGTERM, ShutdownSignal.SIGQUIT, ShutdownSignal.SIGINT]);
@@ -74,21 +90,104 @@ async function bootstrap() {
   const topic = config.get<string>('ETHCONNECT_TOPIC', 'tokenERC20ERC721');
   const shortPrefix = config.get<string>('ETHCONNECT_PREFIX', 'fly');
   const autoInit = config.get<string>('AUTO_INIT', 'true');
+  const autoRemediate = config.get<string>('AUTO_REMEDIATE', 'false');
   const username = config.get<string>('ETHCONNECT_USERNAME', '');
   const password = config.get<string>('ETHCONNECT_PASSWORD', '');
   const factoryAddress = config.get<string>('FACTORY_CONTRACT_ADDRESS', '');
+  const apiKeys = config.get<string>('AUTH_API_KEYS', '');
+  const jwtSecret = config.get<string>('AUTH_JWT_SECRET', '');
+  const jwksFile = config.get<string>('AUTH_JWKS_FILE', '');
+  const rpcUrl = config.get<string>('ETHEREUM_RPC_URL', '');
+  const confirmations = config.get<number>('CONFIRMATIONS', 0);
+  const confirmationTimeout = config.get<number>('CONFIRMATION_TIMEOUT_MS', 300000);
+  const otlpEndpoint = config.get<string>('OTEL_EXPORTER_OTLP_TRACES_ENDPOINT', '');
+  const serviceName = config.get<string>('OTEL_SERVICE_NAME', 'firefly-tokens-erc20-erc721');
+  const formatAmounts = config.get<string>('FORMAT_AMOUNTS', 'false');
+  const connector = config.get<string>('CONNECTOR', 'ethconnect');
+  const eventStorePath = config.get<string>('EVENT_STORE_PATH', 'data/eventstream-state.json');
+  const transactionStorePath = config.get<string>(
+    'TRANSACTION_STORE_PATH',
+    'data/transactions.json',
+  );
+  const requestStorePath = config.get<string>('REQUEST_STORE_PATH', 'data/requests.json');
+  const keystorePath = config.get<string>('KEYSTORE_PATH', '');
+  const keystorePassword = config.get<string>('KEYSTORE_PASSWORD', '');
+  const webhookUrls = config.get<string>('WEBHOOK_URLS', '');
+  const webhookSecret = config.get<string>('WEBHOOK_SECRET', '');
 
   const wsUrl = ethConnectUrl.replace('http', 'ws') + '/ws';
 
+  app.get(TracingService).configure(serviceName, otlpEndpoint);
+  app.get(AuthService).configure(apiKeys.split(','), jwtSecret, jwksFile);
+  app
+    .get(ConfirmationsService)
+    .configure(rpcUrl, Number(confirmations), undefined, Number(confirmationTimeout));
   app.get(EventStreamService).configure(ethConnectUrl, username, password);
-  app.get(EventStreamProxyGateway).configure(wsUrl, topic);
+  app
+    .get(EventStreamProxyGateway)
+    .configure(
+      wsUrl,
+      topic,
+      eventStorePath !== '' ? new FileDeliveryStore(eventStorePath) : new MemoryDeliveryStore(),
+    );
+  app
+    .get(TokensService)
+    .configure(
+      ethConnectUrl,
+      fftmUrl,
+      topic,
+      shortPrefix,
+      username,
+      password,
+      factoryAddress,
+      formatAmounts === 'true',
+    );
   app
     .get(TokensService)
-    .configure(ethConnectUrl, fftmUrl, topic, shortPrefix, username, password, factoryAddress);
+    .useIdempotencyStore(
+      requestStorePath !== ''
+        ? new FileIdempotencyStore(requestStorePath)
+        : new MemoryIdempotencyStore(),
+    );
+
+  const jsonRpcConnector =
+    rpcUrl !== '' ? new JsonRpcConnector(app.get(HttpService), rpcUrl) : undefined;
+  if (connector === 'jsonrpc') {
+    if (jsonRpcConnector === undefined) {
+      throw new Error('ETHEREUM_RPC_URL is required when using the JSON-RPC connector');
+    }
+    if (keystorePath !== '') {
+      jsonRpcConnector.useSigner(await KeystoreSigner.load(keystorePath, keystorePassword));
+    }
+    jsonRpcConnector.transactions.useStore(
+      transactionStorePath !== ''
+        ? new FileTransactionStore(transactionStorePath)
+        : new MemoryTransactionStore(),
+    );
+    app.get(TransactionsService).useManager(jsonRpcConnector.transactions);
+    app.get(EventStreamProxyGateway).useConnector(jsonRpcConnector);
+    app.get(TokensService).useConnector(jsonRpcConnector);
+  } else if (keystorePath !== '') {
+    throw new Error(
+      'KEYSTORE_PATH is only supported with the JSON-RPC connector (CONNECTOR=jsonrpc) - ' +
+        'with ethconnect, signing keys must be configured in ethconnect',
+    );
+  } else if (connector !== 'ethconnect') {
+    throw new Error(`Unknown connector: ${connector}`);
+  }
+  if (jsonRpcConnector !== undefined) {
+    app.get(TokensService).useHistoryConnector(jsonRpcConnector);
+    app.get(TokensService).useEstimator(jsonRpcConnector);
+    app.get(TokensService).useChainConnector(jsonRpcConnector);
+  }
+  app.get(WebhooksService).configure(webhookUrls.split(','), webhookSecret);
 
   if (autoInit !== 'false') {
     await app.get(TokensService).init();
   }
+  if (autoRemediate === 'true') {
+    await app.get(TokensService).remediate();
+  }
 
   const port = config.get<number>('PORT', 3000);
   console.log(`Listening on port ${port}`);
@@ -0,0 +1,55 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Request, Response } from 'express';
+import { Observable, throwError } from 'rxjs';
+import { catchError, tap } from 'rxjs/operators';
+import { MetricsService } from './metrics.service';
+
+/**
+ * Records a request counter and latency histogram for each route of a controller.
+ */
+@Injectable()
+export class MetricsInterceptor implements NestInterceptor {
+  constructor(private readonly metrics: MetricsService) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const request: Request = context.switchToHttp().getRequest();
+    const labels = { method: request.method, route: context.getHandler().name };
+    const end = this.metrics.httpRequestDuration.startTimer(labels);
+    const record = (status: number) => {
+      end({ status: status.toString() });
+      this.metrics.httpRequests.inc({ ...labels, status: status.toString() });
+    };
+    return next.handle().pipe(
+      tap(() => {
+        const response: Response = context.switchToHttp().getResponse();
+        record(response.statusCode);
+      }),
+      catchError((error: unknown) => {
+        record(error instanceof HttpException ? error.getStatus() : 500);
+        return throwError(() => error);
+      }),
+    );
+  }
+}
@@ -0,0 +1,59 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { MetricsService } from './metrics.service';
+
+describe('MetricsService', () => {
+  let service: MetricsService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [MetricsService],
+    }).compile();
+
+    service = module.get<MetricsService>(MetricsService);
+  });
+
+  it('should record successful operations', async () => {
+    const result = await service.observe(
+      service.blockchainRequestDuration,
+      { operation: 'query' },
+      () => Promise.resolve('ok'),
+    );
+    expect(result).toEqual('ok');
+    expect(await service.metrics()).toContain(
+      'fftokens_blockchain_request_duration_seconds_count{operation="query",status="success"} 1',
+    );
+  });
+
+  it('should record failed operations', async () => {
+    await expect(
+      service.observe(service.blockchainRequestDuration, { operation: 'sendTransaction' }, () =>
+        Promise.reject(new Error('pop')),
+      ),
+    ).rejects.toThrow('pop');
+    expect(await service.metrics()).toContain(
+      'fftokens_blockchain_request_duration_seconds_count{operation="sendTransaction",status="error"} 1',
+    );
+  });
+
+  it('should keep metrics separate between instances', async () => {
+    service.eventsProcessed.inc({ signature: 'Transfer(address,address,uint256)' });
+    const other = new MetricsService();
+    expect(await other.metrics()).not.toContain('Transfer(address,address,uint256)');
+  });
+});
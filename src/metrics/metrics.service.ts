@@ -0,0 +1,111 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Injectable } from '@nestjs/common';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+
+const PREFIX = 'fftokens_';
+
+@Injectable()
+export class MetricsService {
+  readonly registry = new Registry();
+
+  readonly httpRequests = new Counter({
+    name: PREFIX + 'http_requests_total',
+    help: 'Number of REST requests handled, by route and status code',
+    labelNames: ['method', 'route', 'status'],
+    registers: [this.registry],
+  });
+
+  readonly httpRequestDuration = new Histogram({
+    name: PREFIX + 'http_request_duration_seconds',
+    help: 'Duration of REST requests, by route and status code',
+    labelNames: ['method', 'route', 'status'],
+    registers: [this.registry],
+  });
+
+  readonly blockchainRequestDuration = new Histogram({
+    name: PREFIX + 'blockchain_request_duration_seconds',
+    help: 'Duration of query and sendTransaction calls to the blockchain connector, by outcome',
+    labelNames: ['operation', 'status'],
+    registers: [this.registry],
+  });
+
+  readonly eventsProcessed = new Counter({
+    name: PREFIX + 'events_processed_total',
+    help: 'Number of blockchain events processed, by event signature',
+    labelNames: ['signature'],
+    registers: [this.registry],
+  });
+
+  readonly awaitingAck = new Gauge({
+    name: PREFIX + 'websocket_awaiting_ack',
+    help: 'Number of websocket messages awaiting acknowledgment, by topic',
+    labelNames: ['topic'],
+    registers: [this.registry],
+  });
+
+  readonly websocketClients = new Gauge({
+    name: PREFIX + 'websocket_clients',
+    help: 'Number of connected websocket clients',
+    registers: [this.registry],
+  });
+
+  readonly eventStreamConnected = new Gauge({
+    name: PREFIX + 'eventstream_connected',
+    help: 'Whether the ethconnect event stream websocket is connected (1) or not (0)',
+    registers: [this.registry],
+  });
+
+  readonly webhookDeliveryFailures = new Counter({
+    name: PREFIX + 'webhook_delivery_failures_total',
+    help: 'Number of failed attempts to deliver a message to a webhook (which is retried), by URL',
+    labelNames: ['url'],
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry, prefix: PREFIX });
+  }
+
+  /**
+   * Time an async operation and record the result in a histogram, labelled with
+   * status "success" or "error".
+   */
+  async observe<T>(
+    histogram: Histogram<string>,
+    labels: Record<string, string>,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    const end = histogram.startTimer(labels);
+    try {
+      const result = await operation();
+      end({ status: 'success' });
+      return result;
+    } catch (err) {
+      end({ status: 'error' });
+      throw err;
+    }
+  }
+
+  get contentType() {
+    return this.registry.contentType;
+  }
+
+  metrics() {
+    return this.registry.metrics();
+  }
+}
@@ -0,0 +1,90 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse } from '@ethersproject/transactions';
+import { Wallet } from '@ethersproject/wallet';
+import { KeystoreSigner } from './keystore.signer';
+
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const ADDRESS = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const OTHER_ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+describe('KeystoreSigner', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keystore-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it('should load hex keys and encrypted keystores from a directory', async () => {
+    const other = Wallet.createRandom();
+    const keystore = await other.encrypt('secret', { scrypt: { N: 2 } });
+    fs.writeFileSync(path.join(dir, 'hardhat.key'), PRIVATE_KEY.substring(2) + '\n');
+    fs.writeFileSync(path.join(dir, 'other.json'), keystore);
+    fs.writeFileSync(path.join(dir, '.hidden'), 'not a key');
+    fs.mkdirSync(path.join(dir, '..data'));
+
+    const signer = await KeystoreSigner.load(dir, 'secret');
+    expect(signer.addresses.sort()).toEqual([ADDRESS, other.address].sort());
+  });
+
+  it('should load a single key file', async () => {
+    const file = path.join(dir, 'key');
+    fs.writeFileSync(file, PRIVATE_KEY);
+
+    const signer = await KeystoreSigner.load(file, '');
+    expect(signer.addresses).toEqual([ADDRESS]);
+  });
+
+  it('should fail to load a keystore with the wrong password', async () => {
+    const keystore = await Wallet.createRandom().encrypt('secret', { scrypt: { N: 2 } });
+    fs.writeFileSync(path.join(dir, 'key.json'), keystore);
+
+    await expect(KeystoreSigner.load(dir, 'wrong')).rejects.toThrow('Failed to load key from');
+  });
+
+  it('should sign transactions for known signers only', async () => {
+    const signer = new KeystoreSigner();
+    await signer.addKey(PRIVATE_KEY);
+
+    const signed = await signer.signTransaction(ADDRESS.toLowerCase(), {
+      chainId: 1337,
+      nonce: 5,
+      to: OTHER_ADDRESS,
+      data: '0x',
+      gasLimit: 21000,
+      type: 2,
+      maxFeePerGas: 2000000000,
+      maxPriorityFeePerGas: 1000000000,
+    });
+    const tx = parse(signed);
+    expect(tx.from).toEqual(ADDRESS);
+    expect(tx.chainId).toEqual(1337);
+    expect(tx.nonce).toEqual(5);
+    expect(tx.type).toEqual(2);
+
+    expect(() => signer.signTransaction(OTHER_ADDRESS, { chainId: 1337 })).toThrow(
+      `Signer '${OTHER_ADDRESS}' is not in the keystore`,
+    );
+  });
+});
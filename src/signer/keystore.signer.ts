@@ -0,0 +1,93 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BadRequestException, Logger } from '@nestjs/common';
+import { UnsignedTransaction } from '@ethersproject/transactions';
+import { Wallet } from '@ethersproject/wallet';
+
+/**
+ * Holds private keys for local transaction signing, so that keys do not need to be managed
+ * by ethconnect or the blockchain node.
+ *
+ * Keys may be encrypted JSON keystore (V3) files, or files containing a hex private key.
+ */
+export class KeystoreSigner {
+  private readonly logger = new Logger(KeystoreSigner.name);
+
+  private wallets = new Map<string, Wallet>();
+
+  /**
+   * Load a single key file, or every key file in a directory (such as a mounted secret).
+   * Encrypted keystores are all decrypted with the same password.
+   */
+  static async load(keyPath: string, password: string) {
+    const signer = new KeystoreSigner();
+    const stat = await fs.promises.stat(keyPath);
+    const files = stat.isDirectory()
+      ? (await fs.promises.readdir(keyPath, { withFileTypes: true }))
+          .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+          .map(entry => path.join(keyPath, entry.name))
+      : [keyPath];
+    for (const file of files) {
+      const content = await fs.promises.readFile(file, 'utf8');
+      try {
+        await signer.addKey(content, password);
+      } catch (err) {
+        throw new Error(`Failed to load key from '${file}': ${err}`);
+      }
+    }
+    signer.logger.log(`Loaded ${signer.wallets.size} signing key(s) from '${keyPath}'`);
+    return signer;
+  }
+
+  /**
+   * Add a key from the content of an encrypted JSON keystore, or a hex private key.
+   */
+  async addKey(content: string, password = '') {
+    const key = content.trim();
+    const wallet = key.startsWith('{')
+      ? await Wallet.fromEncryptedJson(key, password)
+      : new Wallet(key.startsWith('0x') ? key : '0x' + key);
+    this.wallets.set(wallet.address.toLowerCase(), wallet);
+    return wallet.address;
+  }
+
+  get addresses() {
+    return Array.from(this.wallets.values()).map(wallet => wallet.address);
+  }
+
+  /**
+   * Get the key for an address, rejecting signers that are not in the keystore.
+   */
+  getWallet(address: string) {
+    const wallet = this.wallets.get(address.toLowerCase());
+    if (wallet === undefined) {
+      throw new BadRequestException(`Signer '${address}' is not in the keystore`);
+    }
+    return wallet;
+  }
+
+  /**
+   * Sign a transaction with the key for the given address.
+   * EIP-1559 (type 2) transactions are signed if fee caps are given, otherwise a legacy
+   * transaction with EIP-155 replay protection is signed for the given chain ID.
+   */
+  signTransaction(from: string, tx: UnsignedTransaction) {
+    return this.getWallet(from).signTransaction({ ...tx, type: tx.type ?? undefined });
+  }
+}
@@ -15,6 +15,9 @@
 // limitations under the License.
 
 import { Test, TestingModule } from '@nestjs/testing';
+import { AuthService } from '../auth/auth.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { TracingService } from '../tracing/tracing.service';
 import { TokensController } from './tokens.controller';
 import { TokensService } from './tokens.service';
 
@@ -29,6 +32,12 @@ describe('TokensController', () => {
           provide: TokensService,
           useValue: jest.fn(),
         },
+        {
+          provide: AuthService,
+          useValue: jest.fn(),
+        },
+        MetricsService,
+        TracingService,
       ],
     }).compile();
 
@@ -14,23 +14,61 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { Body, Controller, Get, HttpCode, HttpStatus, Param, Post, Res } from '@nestjs/common';
-import { ApiBody, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Res,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { ApiBody, ApiOperation, ApiBearerAuth, ApiResponse, ApiSecurity } from '@nestjs/swagger';
 import { Response } from 'express';
+import { AuthGuard } from '../auth/auth.guard';
 import { EventStreamReply } from '../event-stream/event-stream.interfaces';
+import { MetricsInterceptor } from '../metrics/metrics.interceptor';
+import { TracingInterceptor } from '../tracing/tracing.interceptor';
 import {
+  AsyncBatchResponse,
   AsyncResponse,
+  ReceiptQuery,
   TokenApproval,
+  TokenBalance,
+  TokenBalanceQuery,
   TokenBurn,
+  TokenEstimate,
   TokenMint,
+  TokenPermit,
+  TokenPermitDataRequest,
+  TokenPermitTypedData,
+  TokenMintBatch,
   TokenPool,
   TokenPoolActivate,
+  TokenPoolDeactivate,
+  TokenPoolDetails,
   TokenPoolEvent,
+  TokenReplay,
+  TokenReplayPage,
   TokenTransfer,
+  TokenTransferAuthorization,
+  TokenTransferBatch,
 } from './tokens.interfaces';
 import { TokensService } from './tokens.service';
 
+const ESTIMATE_DESCRIPTION =
+  'Simulates the transaction against the latest block without submitting it, and returns ' +
+  'the encoded call with either the estimated gas or the revert reason';
+
 @Controller()
+@UseGuards(AuthGuard)
+@UseInterceptors(MetricsInterceptor, TracingInterceptor)
+@ApiSecurity('api_key')
+@ApiBearerAuth()
 export class TokensController {
   constructor(private readonly service: TokensService) {}
 
@@ -70,6 +108,40 @@ export class TokensController {
     return this.service.activatePool(dto);
   }
 
+  @Post('deactivatepool')
+  @HttpCode(204)
+  @ApiOperation({
+    summary: 'Deactivate a token pool to stop receiving events',
+  })
+  @ApiBody({ type: TokenPoolDeactivate })
+  async deactivatePool(@Body() dto: TokenPoolDeactivate) {
+    await this.service.deactivatePool(dto);
+  }
+
+  @Get('pool/:poolLocator')
+  @ApiOperation({
+    summary: 'Retrieve the current details of a token pool',
+    description: 'Queries the contract directly and does not modify any event stream subscriptions',
+  })
+  @ApiResponse({ status: 200, type: TokenPoolDetails })
+  getPool(@Param('poolLocator') poolLocator: string) {
+    return this.service.getPool(poolLocator);
+  }
+
+  @Post('replay')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Replay the past events of a token pool',
+    description:
+      'Returns the token-mint, token-burn, token-transfer and token-approval events emitted by the ' +
+      'pool in a range of blocks, without affecting the websocket event stream',
+  })
+  @ApiBody({ type: TokenReplay })
+  @ApiResponse({ status: 200, type: TokenReplayPage })
+  replay(@Body() dto: TokenReplay) {
+    return this.service.replay(dto);
+  }
+
   @Post('mint')
   @HttpCode(202)
   @ApiOperation({
@@ -96,6 +168,36 @@ export class TokensController {
     return this.service.transfer(dto);
   }
 
+  @Post('mintbatch')
+  @HttpCode(202)
+  @ApiOperation({
+    summary: 'Mint new tokens in a batch',
+    description:
+      'Submitted as a single transaction if the contract supports batching, otherwise as one ' +
+      'transaction per entry. Each entry will be followed by a websocket notification with ' +
+      'event=token-mint and data=TokenMintEvent',
+  })
+  @ApiBody({ type: TokenMintBatch })
+  @ApiResponse({ status: 202, type: AsyncBatchResponse })
+  mintBatch(@Body() dto: TokenMintBatch) {
+    return this.service.mintBatch(dto);
+  }
+
+  @Post('transferbatch')
+  @HttpCode(202)
+  @ApiOperation({
+    summary: 'Transfer tokens in a batch',
+    description:
+      'Submitted as a single transaction if the contract supports batching, otherwise as one ' +
+      'transaction per entry. Each entry will be followed by a websocket notification with ' +
+      'event=token-transfer and data=TokenTransferEvent',
+  })
+  @ApiBody({ type: TokenTransferBatch })
+  @ApiResponse({ status: 202, type: AsyncBatchResponse })
+  transferBatch(@Body() dto: TokenTransferBatch) {
+    return this.service.transferBatch(dto);
+  }
+
   @Post('approval')
   @HttpCode(202)
   @ApiOperation({
@@ -121,10 +223,119 @@ export class TokensController {
     return this.service.burn(dto);
   }
 
+  @Post('permit')
+  @HttpCode(202)
+  @ApiOperation({
+    summary: 'Submit a signed ERC2612 permit',
+    description:
+      'Grants an allowance from an off-chain signature by the owner, so the owner does not need ' +
+      'to pay for gas. Will be followed by a websocket notification with event=token-approval ' +
+      'and data=TokenApprovalEvent',
+  })
+  @ApiBody({ type: TokenPermit })
+  @ApiResponse({ status: 202, type: AsyncResponse })
+  permit(@Body() dto: TokenPermit) {
+    return this.service.permit(dto);
+  }
+
+  @Post('permit/typeddata')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Build the EIP-712 typed data for an ERC2612 permit',
+    description: 'Returns the typed data for the owner to sign with eth_signTypedData_v4',
+  })
+  @ApiBody({ type: TokenPermitDataRequest })
+  @ApiResponse({ status: 200, type: TokenPermitTypedData })
+  permitTypedData(@Body() dto: TokenPermitDataRequest) {
+    return this.service.permitTypedData(dto);
+  }
+
+  @Post('transferwithauthorization')
+  @HttpCode(202)
+  @ApiOperation({
+    summary: 'Relay an EIP-3009 authorized transfer',
+    description:
+      'Submits a transfer signed off-chain by the token holder, with gas paid by the relayer. ' +
+      'Will be followed by a websocket notification with event=token-transfer and ' +
+      'data=TokenTransferEvent',
+  })
+  @ApiBody({ type: TokenTransferAuthorization })
+  @ApiResponse({ status: 202, type: AsyncResponse })
+  transferWithAuthorization(@Body() dto: TokenTransferAuthorization) {
+    return this.service.transferWithAuthorization(dto);
+  }
+
+  @Post('estimate/createpool')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Estimate creating a token pool from the factory contract',
+    description: ESTIMATE_DESCRIPTION,
+  })
+  @ApiBody({ type: TokenPool })
+  @ApiResponse({ status: 200, type: TokenEstimate })
+  estimateCreatePool(@Body() dto: TokenPool) {
+    return this.service.estimateCreatePool(dto);
+  }
+
+  @Post('estimate/mint')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Estimate minting tokens',
+    description: ESTIMATE_DESCRIPTION,
+  })
+  @ApiBody({ type: TokenMint })
+  @ApiResponse({ status: 200, type: TokenEstimate })
+  estimateMint(@Body() dto: TokenMint) {
+    return this.service.estimateMint(dto);
+  }
+
+  @Post('estimate/transfer')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Estimate transferring tokens',
+    description: ESTIMATE_DESCRIPTION,
+  })
+  @ApiBody({ type: TokenTransfer })
+  @ApiResponse({ status: 200, type: TokenEstimate })
+  estimateTransfer(@Body() dto: TokenTransfer) {
+    return this.service.estimateTransfer(dto);
+  }
+
+  @Post('estimate/burn')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Estimate burning tokens',
+    description: ESTIMATE_DESCRIPTION,
+  })
+  @ApiBody({ type: TokenBurn })
+  @ApiResponse({ status: 200, type: TokenEstimate })
+  estimateBurn(@Body() dto: TokenBurn) {
+    return this.service.estimateBurn(dto);
+  }
+
+  @Post('estimate/approval')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Estimate approving an operator',
+    description: ESTIMATE_DESCRIPTION,
+  })
+  @ApiBody({ type: TokenApproval })
+  @ApiResponse({ status: 200, type: TokenEstimate })
+  estimateApproval(@Body() dto: TokenApproval) {
+    return this.service.estimateApproval(dto);
+  }
+
+  @Get('balance')
+  @ApiOperation({ summary: 'Retrieve a token balance' })
+  @ApiResponse({ status: 200, type: TokenBalance })
+  balance(@Query() query: TokenBalanceQuery) {
+    return this.service.balance(query);
+  }
+
   @Get('receipt/:id')
   @ApiOperation({ summary: 'Retrieve the result of an async operation' })
   @ApiResponse({ status: 200, type: EventStreamReply })
-  getReceipt(@Param('id') id: string) {
-    return this.service.getReceipt(id);
+  getReceipt(@Param('id') id: string, @Query() query: ReceiptQuery) {
+    return this.service.getReceipt(id, query.waitMs !== undefined ? Number(query.waitMs) : 0);
   }
 }
@@ -15,7 +15,18 @@
 // limitations under the License.
 
 import { ApiProperty, OmitType } from '@nestjs/swagger';
-import { IsEnum, IsNotEmpty, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumberString,
+  IsOptional,
+  Min,
+  ValidateNested,
+} from 'class-validator';
 import { Event } from '../event-stream/event-stream.interfaces';
 
 // Ethconnect interfaces
@@ -62,6 +73,34 @@ export interface ApprovalForAllEvent extends Event {
   };
 }
 
+export interface ERC1155ApprovalForAllEvent extends Event {
+  data: {
+    account: string;
+    operator: string;
+    approved: boolean;
+  };
+}
+
+export interface TransferSingleEvent extends Event {
+  data: {
+    operator: string;
+    from: string;
+    to: string;
+    id: string;
+    value: string;
+  };
+}
+
+export interface TransferBatchEvent extends Event {
+  data: {
+    operator: string;
+    from: string;
+    to: string;
+    ids: string[];
+    values: string[];
+  };
+}
+
 export interface TransferEvent extends Event {
   data: {
     from: string;
@@ -77,11 +116,39 @@ export class AsyncResponse {
   id: string;
 }
 
+export class AsyncBatchItem {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ description: 'Populated if this entry could not be submitted' })
+  error?: string;
+}
+
+export class AsyncBatchResponse extends AsyncResponse {
+  @ApiProperty({ type: [AsyncBatchItem] })
+  items: AsyncBatchItem[];
+}
+
+/**
+ * Response previously returned for a request ID, along with a hash of the request body.
+ */
+export interface IdempotencyRecord {
+  hash: string;
+  response: AsyncResponse;
+}
+
+export interface IdempotencyStore {
+  get(requestId: string): Promise<IdempotencyRecord | undefined>;
+  set(requestId: string, record: IdempotencyRecord): Promise<void>;
+}
+
 export enum ContractSchema {
   ERC20WithData = 'ERC20WithData',
   ERC20NoData = 'ERC20NoData',
   ERC721WithData = 'ERC721WithData',
   ERC721NoData = 'ERC721NoData',
+  ERC1155WithData = 'ERC1155WithData',
+  ERC1155NoData = 'ERC1155NoData',
 }
 
 export enum ContractMethod {
@@ -102,6 +169,11 @@ export enum TokenType {
   NONFUNGIBLE = 'nonfungible',
 }
 
+export enum TransferAuthorizationMethod {
+  TRANSFER = 'transferWithAuthorization',
+  RECEIVE = 'receiveWithAuthorization',
+}
+
 export interface IPoolLocator {
   address: string | null;
   schema: string | null;
@@ -116,7 +188,12 @@ export interface IValidPoolLocator {
 
 const requestIdDescription =
   'Optional ID to identify this request. Must be unique for every request. ' +
-  'If none is provided, one will be assigned and returned in the 202 response.';
+  'If none is provided, one will be assigned and returned in the 202 response. ' +
+  'Repeating a request with the same ID returns the original response without submitting it again.';
+
+const useDecimalsDescription =
+  'If true, amounts are decimal strings (such as "12.5") which will be scaled by the ' +
+  'decimals of the pool. Only valid for fungible pools.';
 
 export class TokenPoolConfig {
   @ApiProperty()
@@ -196,6 +273,157 @@ export class TokenApproval {
   @ApiProperty()
   @IsOptional()
   config?: TokenApprovalConfig;
+
+  @ApiProperty({ description: useDecimalsDescription })
+  @IsOptional()
+  @IsBoolean()
+  useDecimals?: boolean;
+}
+
+export class TokenPermitRequest {
+  @ApiProperty()
+  @IsNotEmpty()
+  poolLocator: string;
+
+  @ApiProperty({ description: 'Account that owns the tokens and signs the permit' })
+  @IsNotEmpty()
+  owner: string;
+
+  @ApiProperty({ description: 'Account that will be allowed to spend the tokens' })
+  @IsNotEmpty()
+  spender: string;
+
+  @ApiProperty({ description: 'Allowance to grant to the spender' })
+  @IsNotEmpty()
+  value: string;
+
+  @ApiProperty({ description: 'Unix time (in seconds) after which the permit is no longer valid' })
+  @IsNumberString({ no_symbols: true })
+  deadline: string;
+
+  @ApiProperty({ description: useDecimalsDescription })
+  @IsOptional()
+  @IsBoolean()
+  useDecimals?: boolean;
+}
+
+export class TokenPermitDataRequest extends TokenPermitRequest {
+  @ApiProperty({ description: 'Version of the EIP-712 signing domain (defaults to "1")' })
+  @IsOptional()
+  @IsNotEmpty()
+  version?: string;
+}
+
+export class TokenPermit extends TokenPermitRequest {
+  @ApiProperty({ description: 'Account that submits the permit and pays for gas' })
+  @IsNotEmpty()
+  signer: string;
+
+  @ApiProperty()
+  @IsInt()
+  v: number;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  r: string;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  s: string;
+
+  @ApiProperty({ description: requestIdDescription })
+  @IsOptional()
+  requestId?: string;
+}
+
+export class TokenPermitTypedData {
+  @ApiProperty({ description: 'Type definitions, including EIP712Domain' })
+  types: Record<string, { name: string; type: string }[]>;
+
+  @ApiProperty()
+  primaryType: string;
+
+  @ApiProperty()
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: string;
+  };
+
+  @ApiProperty()
+  message: {
+    owner: string;
+    spender: string;
+    value: string;
+    nonce: string;
+    deadline: string;
+  };
+}
+
+export class TokenTransferAuthorization {
+  @ApiProperty()
+  @IsNotEmpty()
+  poolLocator: string;
+
+  @ApiProperty({ description: 'Relayer account that submits the transfer and pays for gas' })
+  @IsNotEmpty()
+  signer: string;
+
+  @ApiProperty({
+    enum: TransferAuthorizationMethod,
+    description:
+      'Contract method to call (defaults to transferWithAuthorization). ' +
+      'receiveWithAuthorization must be submitted by the recipient.',
+  })
+  @IsOptional()
+  @IsEnum(TransferAuthorizationMethod)
+  method?: TransferAuthorizationMethod;
+
+  @ApiProperty({ description: 'Holder that signed the authorization' })
+  @IsNotEmpty()
+  from: string;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  to: string;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  value: string;
+
+  @ApiProperty({ description: 'Unix time (in seconds) after which the authorization is valid' })
+  @IsNumberString({ no_symbols: true })
+  validAfter: string;
+
+  @ApiProperty({ description: 'Unix time (in seconds) before which the authorization is valid' })
+  @IsNumberString({ no_symbols: true })
+  validBefore: string;
+
+  @ApiProperty({ description: 'Unique 32-byte nonce chosen by the holder' })
+  @IsNotEmpty()
+  nonce: string;
+
+  @ApiProperty()
+  @IsInt()
+  v: number;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  r: string;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  s: string;
+
+  @ApiProperty({ description: requestIdDescription })
+  @IsOptional()
+  requestId?: string;
+
+  @ApiProperty({ description: useDecimalsDescription })
+  @IsOptional()
+  @IsBoolean()
+  useDecimals?: boolean;
 }
 
 export class BlockchainInfo {
@@ -256,6 +484,12 @@ export class TokenPoolActivate {
   requestId?: string;
 }
 
+export class TokenPoolDeactivate {
+  @ApiProperty()
+  @IsNotEmpty()
+  poolLocator: string;
+}
+
 export class TokenTransfer {
   @ApiProperty()
   @IsNotEmpty()
@@ -288,11 +522,260 @@ export class TokenTransfer {
   @ApiProperty()
   @IsOptional()
   data?: string;
+
+  @ApiProperty({ description: useDecimalsDescription })
+  @IsOptional()
+  @IsBoolean()
+  useDecimals?: boolean;
 }
 
 export class TokenMint extends OmitType(TokenTransfer, ['from']) {}
 export class TokenBurn extends OmitType(TokenTransfer, ['to']) {}
 
+export class TokenMintBatchEntry extends OmitType(TokenMint, [
+  'poolLocator',
+  'signer',
+  'requestId',
+  'useDecimals',
+]) {}
+
+export class TokenTransferBatchEntry extends OmitType(TokenTransfer, [
+  'poolLocator',
+  'signer',
+  'requestId',
+  'useDecimals',
+]) {}
+
+export class TokenMintBatch {
+  @ApiProperty()
+  @IsNotEmpty()
+  poolLocator: string;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  signer: string;
+
+  @ApiProperty({ type: [TokenMintBatchEntry] })
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => TokenMintBatchEntry)
+  mints: TokenMintBatchEntry[];
+
+  @ApiProperty({ description: requestIdDescription })
+  @IsOptional()
+  requestId?: string;
+
+  @ApiProperty({ description: useDecimalsDescription })
+  @IsOptional()
+  @IsBoolean()
+  useDecimals?: boolean;
+}
+
+export class TokenTransferBatch {
+  @ApiProperty()
+  @IsNotEmpty()
+  poolLocator: string;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  signer: string;
+
+  @ApiProperty({ type: [TokenTransferBatchEntry] })
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => TokenTransferBatchEntry)
+  transfers: TokenTransferBatchEntry[];
+
+  @ApiProperty({ description: requestIdDescription })
+  @IsOptional()
+  requestId?: string;
+
+  @ApiProperty({ description: useDecimalsDescription })
+  @IsOptional()
+  @IsBoolean()
+  useDecimals?: boolean;
+}
+
+export class TokenBalanceQuery {
+  @ApiProperty()
+  @IsNotEmpty()
+  poolLocator: string;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  account: string;
+
+  @ApiProperty()
+  @IsOptional()
+  tokenIndex?: string;
+}
+
+export class ReceiptQuery {
+  @ApiProperty({
+    description:
+      'Time in milliseconds to wait for the receipt to become available before returning 404 ' +
+      '(up to 60000)',
+  })
+  @IsOptional()
+  @IsNumberString({ no_symbols: true })
+  waitMs?: string;
+}
+
+export class TokenEstimate {
+  @ApiProperty()
+  to: string;
+
+  @ApiProperty({ description: 'ABI-encoded call data' })
+  data: string;
+
+  @ApiProperty({ description: 'Whether the transaction would succeed if submitted now' })
+  success: boolean;
+
+  @ApiProperty({ description: 'Estimated gas (when the transaction would succeed)' })
+  gasEstimate?: string;
+
+  @ApiProperty({ description: 'Reason the transaction would revert (when it would fail)' })
+  revertReason?: string;
+}
+
+export class TokenEventQuery {
+  @ApiProperty({ description: 'Comma-separated list of pool locators to include' })
+  @IsOptional()
+  @IsNotEmpty()
+  poolLocators?: string;
+
+  @ApiProperty({ description: 'Comma-separated list of event types to include (e.g. token-mint)' })
+  @IsOptional()
+  @IsNotEmpty()
+  events?: string;
+}
+
+export class TokenReplay {
+  @ApiProperty()
+  @IsNotEmpty()
+  poolLocator: string;
+
+  @ApiProperty({ description: 'First block to replay events from' })
+  @IsNumberString({ no_symbols: true })
+  fromBlock: string;
+
+  @ApiProperty({ description: 'Last block to replay events from (defaults to the latest block)' })
+  @IsOptional()
+  @IsNumberString({ no_symbols: true })
+  toBlock?: string;
+
+  @ApiProperty({
+    description:
+      'Approximate maximum number of events to return. Pages always end on a block range ' +
+      'boundary, so may contain more events than this.',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  limit?: number;
+}
+
+export class TokenReplayEvent {
+  @ApiProperty()
+  event: string;
+
+  @ApiProperty()
+  data: any;
+}
+
+export class TokenReplayPage {
+  @ApiProperty({ type: [TokenReplayEvent] })
+  events: TokenReplayEvent[];
+
+  @ApiProperty({
+    description: 'Block to continue from in the next request, if there are more blocks to replay',
+  })
+  nextBlock?: string;
+}
+
+export class TokenBalance {
+  @ApiProperty()
+  balance: string;
+}
+
+export class EventStreamInfo {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+}
+
+export class SubscriptionInfo {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  stream: string;
+
+  @ApiProperty()
+  fromBlock?: string;
+
+  @ApiProperty({ description: 'Pool locator decoded from the subscription name' })
+  poolLocator?: string;
+
+  @ApiProperty({ description: 'Event decoded from the subscription name' })
+  event?: string;
+}
+
+export class SubscriptionReset {
+  @ApiProperty({ description: 'Block number to redeliver events from' })
+  @IsNotEmpty()
+  @IsNumberString({ no_symbols: true })
+  fromBlock: string;
+}
+
+export class RemediationRequest {
+  @ApiProperty({ description: 'List the planned changes without applying them' })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
+
+export enum RemediationActionType {
+  DELETE_SUBSCRIPTION = 'deleteSubscription',
+  CREATE_SUBSCRIPTION = 'createSubscription',
+}
+
+export class RemediationAction {
+  @ApiProperty({ enum: RemediationActionType })
+  action: RemediationActionType;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty()
+  subscriptionId?: string;
+
+  @ApiProperty()
+  poolLocator?: string;
+
+  @ApiProperty()
+  event?: string;
+
+  @ApiProperty()
+  fromBlock?: string;
+
+  @ApiProperty()
+  reason: string;
+}
+
+export class RemediationPlan {
+  @ApiProperty()
+  dryRun: boolean;
+
+  @ApiProperty({ type: [RemediationAction] })
+  actions: RemediationAction[];
+}
+
 // Websocket notifications
 
 class tokenEventBase {
@@ -337,6 +820,11 @@ export class TokenPoolEvent extends tokenEventBase {
   info: TokenPoolEventInfo;
 }
 
+export class TokenPoolDetails extends TokenPoolEvent {
+  @ApiProperty()
+  totalSupply?: string;
+}
+
 export class TokenTransferEvent extends tokenEventBase {
   @ApiProperty()
   id: string;
@@ -355,6 +843,9 @@ export class TokenTransferEvent extends tokenEventBase {
 
   @ApiProperty()
   amount: string;
+
+  @ApiProperty({ description: 'Amount scaled by the decimals of the pool (if enabled)' })
+  formattedAmount?: string;
 }
 
 export class TokenMintEvent extends OmitType(TokenTransferEvent, ['from']) {}
@@ -397,6 +888,7 @@ export interface IAbiMethod {
 
 export interface EthConnectMsgRequest {
   headers: {
+    id?: string;
     type: string;
   };
   from?: string;
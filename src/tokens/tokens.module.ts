@@ -16,8 +16,12 @@
 
 import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
+import { AuthModule } from '../auth/auth.module';
+import { ConfirmationsModule } from '../confirmations/confirmations.module';
 import { EventStreamProxyModule } from '../eventstream-proxy/eventstream-proxy.module';
 import { EventStreamModule } from '../event-stream/event-stream.module';
+import { MetricsModule } from '../metrics/metrics.module';
+import { TracingModule } from '../tracing/tracing.module';
 import { TokensController } from './tokens.controller';
 import { TokensService } from './tokens.service';
 @Module({
@@ -27,6 +31,10 @@ import { TokensService } from './tokens.service';
     }),
     EventStreamModule,
     EventStreamProxyModule,
+    AuthModule,
+    ConfirmationsModule,
+    MetricsModule,
+    TracingModule,
   ],
   controllers: [TokensController],
   providers: [TokensService],
@@ -23,6 +23,9 @@ import ERC20NoDataABI from '../abi/ERC20NoData.json';
 import ERC20WithDataABI from '../abi/ERC20WithData.json';
 import ERC721NoDataABI from '../abi/ERC721NoData.json';
 import ERC721WithDataABI from '../abi/ERC721WithData.json';
+import ERC1155WithDataABI from '../abi/ERC1155WithData.json';
+import IERC3009ABI from '../abi/IERC3009.json';
+import { ConfirmationsService } from '../confirmations/confirmations.service';
 import {
   EventStream,
   EventStreamReply,
@@ -30,6 +33,8 @@ import {
 } from '../event-stream/event-stream.interfaces';
 import { EventStreamService } from '../event-stream/event-stream.service';
 import { EventStreamProxyGateway } from '../eventstream-proxy/eventstream-proxy.gateway';
+import { MetricsService } from '../metrics/metrics.service';
+import { TracingService } from '../tracing/tracing.service';
 import {
   AsyncResponse,
   EthConnectAsyncResponse,
@@ -51,6 +56,7 @@ export const abiTypeMap = {
   ERC20WithData: ERC20WithDataABI.abi,
   ERC721NoData: ERC721NoDataABI.abi,
   ERC721WithData: ERC721WithDataABI.abi,
+  ERC1155WithData: ERC1155WithDataABI.abi,
 };
 
 const BASE_URL = 'http://eth';
@@ -72,6 +78,8 @@ const ERC721_NO_DATA_SCHEMA = 'ERC721NoData';
 const ERC721_NO_DATA_POOL_ID = `address=${CONTRACT_ADDRESS}&schema=${ERC721_NO_DATA_SCHEMA}&type=${TokenType.NONFUNGIBLE}`;
 const ERC721_WITH_DATA_SCHEMA = 'ERC721WithData';
 const ERC721_WITH_DATA_POOL_ID = `address=${CONTRACT_ADDRESS}&schema=${ERC721_WITH_DATA_SCHEMA}&type=${TokenType.NONFUNGIBLE}`;
+const ERC1155_WITH_DATA_SCHEMA = 'ERC1155WithData';
+const ERC1155_WITH_DATA_POOL_ID = `address=${CONTRACT_ADDRESS}&schema=${ERC1155_WITH_DATA_SCHEMA}&type=${TokenType.FUNGIBLE}`;
 
 const MINT_NO_DATA = 'mint';
 const ERC20_TRANSFER_NO_DATA = 'transferFrom';
@@ -96,6 +104,10 @@ const METHODS_WITH_DATA = [
   APPROVE_ALL_WITH_DATA,
 ];
 
+const AUTHORIZATION_METHODS = IERC3009ABI.abi.filter(abi =>
+  ['transferWithAuthorization', 'receiveWithAuthorization'].includes(abi.name),
+);
+
 const TRANSFER_EVENT = 'Transfer';
 
 const abiMethodMap = {
@@ -130,16 +142,25 @@ describe('TokensService', () => {
 
   const eventstream = {
     createOrUpdateStream: jest.fn(),
+    getStreams: jest.fn(),
     getOrCreateSubscription: jest.fn(),
+    getSubscriptions: jest.fn(),
+    deleteSubscription: jest.fn(),
   };
 
   const mockPoolQuery = (withData: boolean | undefined, withDecimals: boolean) => {
     if (withData !== undefined) {
-      http.post.mockReturnValueOnce(
-        new FakeObservable(<EthConnectReturn>{
-          output: withData,
-        }),
-      );
+      http.post
+        .mockReturnValueOnce(
+          new FakeObservable(<EthConnectReturn>{
+            output: false,
+          }),
+        )
+        .mockReturnValueOnce(
+          new FakeObservable(<EthConnectReturn>{
+            output: withData,
+          }),
+        );
     }
     http.post
       .mockReturnValueOnce(
@@ -182,8 +203,19 @@ describe('TokensService', () => {
         },
         {
           provide: EventStreamProxyGateway,
-          useValue: { addListener: jest.fn() },
+          useValue: {
+            addListener: jest.fn(),
+            forgetSubscription: jest.fn(),
+            getReceipt: jest.fn(),
+            waitForReceipt: jest.fn(),
+          },
         },
+        {
+          provide: ConfirmationsService,
+          useValue: { waitForConfirmation: jest.fn() },
+        },
+        MetricsService,
+        TracingService,
       ],
     })
       .overrideProvider(HttpService)
@@ -268,11 +300,14 @@ describe('TokensService', () => {
         'Transfer',
         `${TOPIC}:${ERC20_NO_DATA_POOL_ID}:${TRANSFER_EVENT}`,
         CONTRACT_ADDRESS,
-        abiTypeMap.ERC20NoData.filter(
-          abi =>
-            abi.name !== undefined &&
-            [...METHODS_NO_DATA, ERC20_TRANSFER_NO_DATA].includes(abi.name),
-        ) as IAbiMethod[],
+        [
+          ...abiTypeMap.ERC20NoData.filter(
+            abi =>
+              abi.name !== undefined &&
+              [...METHODS_NO_DATA, ERC20_TRANSFER_NO_DATA].includes(abi.name),
+          ),
+          ...AUTHORIZATION_METHODS,
+        ] as IAbiMethod[],
         '0',
       );
     });
@@ -469,9 +504,12 @@ describe('TokensService', () => {
         'Transfer',
         `${TOPIC}:${ERC20_WITH_DATA_POOL_ID}:${TRANSFER_EVENT}`,
         CONTRACT_ADDRESS,
-        abiMethodMap.ERC20WithData.filter(
-          abi => abi.name !== undefined && METHODS_WITH_DATA.includes(abi.name),
-        ) as IAbiMethod[],
+        [
+          ...abiMethodMap.ERC20WithData.filter(
+            abi => abi.name !== undefined && METHODS_WITH_DATA.includes(abi.name),
+          ),
+          ...AUTHORIZATION_METHODS,
+        ] as IAbiMethod[],
         '0',
       );
     });
@@ -964,6 +1002,55 @@ describe('TokensService', () => {
     });
   });
 
+  describe('ERC1155WithData', () => {
+    it('should activate ERC1155WithData pool correctly and return correct values', async () => {
+      const request: TokenPoolActivate = {
+        poolLocator: ERC1155_WITH_DATA_POOL_ID,
+      };
+
+      const mockEventStream: EventStream = {
+        id: 'es-4297d77c-0c33-49dc-4e5b-617e0b68fbab',
+        name: 'token',
+      };
+
+      const response: TokenPoolEvent = {
+        poolLocator: ERC1155_WITH_DATA_POOL_ID,
+        standard: 'ERC1155',
+        type: TokenType.FUNGIBLE,
+        symbol: SYMBOL,
+        decimals: 0,
+        info: {
+          name: NAME,
+          address: CONTRACT_ADDRESS,
+          schema: ERC1155_WITH_DATA_SCHEMA,
+        },
+      };
+
+      mockPoolQuery(undefined, false);
+
+      eventstream.createOrUpdateStream = jest.fn(() => mockEventStream);
+      eventstream.getOrCreateSubscription = jest.fn(() => new FakeObservable(undefined));
+
+      await expect(service.activatePool(request)).resolves.toEqual(response);
+
+      expect(eventstream.getOrCreateSubscription).toHaveBeenCalledTimes(3);
+      for (const event of ['TransferSingle', 'TransferBatch', 'ApprovalForAll']) {
+        expect(eventstream.getOrCreateSubscription).toHaveBeenCalledWith(
+          BASE_URL,
+          abiTypeMap.ERC1155WithData.find(abi => abi.name === event) as IAbiMethod,
+          'es-4297d77c-0c33-49dc-4e5b-617e0b68fbab',
+          event,
+          `${TOPIC}:${ERC1155_WITH_DATA_POOL_ID}:${event}`,
+          CONTRACT_ADDRESS,
+          abiTypeMap.ERC1155WithData.filter(
+            abi => abi.name !== undefined && METHODS_WITH_DATA.includes(abi.name),
+          ) as IAbiMethod[],
+          '0',
+        );
+      }
+    });
+  });
+
   describe('Miscellaneous', () => {
     it('should throw 404 exception if ABI method is not found when activating pool', async () => {
       const request: TokenPoolActivate = {
@@ -983,6 +1070,40 @@ describe('TokensService', () => {
       );
     });
 
+    it('should delete all subscriptions for a pool when deactivating', async () => {
+      const mockEventStream: EventStream = {
+        id: 'es-4297d77c-0c33-49dc-4e5b-617e0b68fbab',
+        name: TOPIC,
+      };
+
+      eventstream.getStreams = jest.fn(() => [mockEventStream]);
+      eventstream.getSubscriptions = jest.fn(() => [
+        {
+          id: 'sb-1',
+          name: `${TOPIC}:${ERC20_NO_DATA_POOL_ID}:Transfer`,
+          stream: mockEventStream.id,
+        },
+        {
+          id: 'sb-2',
+          name: `${TOPIC}:${ERC20_NO_DATA_POOL_ID}:Approval`,
+          stream: mockEventStream.id,
+        },
+        {
+          id: 'sb-3',
+          name: `${TOPIC}:${ERC20_WITH_DATA_POOL_ID}:Transfer`,
+          stream: mockEventStream.id,
+        },
+        { id: 'sb-4', name: `${TOPIC}:${ERC20_NO_DATA_POOL_ID}:Transfer`, stream: 'es-other' },
+      ]);
+      eventstream.deleteSubscription = jest.fn();
+
+      await service.deactivatePool({ poolLocator: ERC20_NO_DATA_POOL_ID });
+
+      expect(eventstream.deleteSubscription).toHaveBeenCalledTimes(2);
+      expect(eventstream.deleteSubscription).toHaveBeenCalledWith('sb-1');
+      expect(eventstream.deleteSubscription).toHaveBeenCalledWith('sb-2');
+    });
+
     it('should get receipt of id successfully', async () => {
       const response: EventStreamReply = {
         headers: {
@@ -14,76 +14,153 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import { ClientRequest } from 'http';
 import { HttpService } from '@nestjs/axios';
 import {
   BadRequestException,
+  ConflictException,
   Injectable,
-  InternalServerErrorException,
   Logger,
   NotFoundException,
 } from '@nestjs/common';
-import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
-import { lastValueFrom } from 'rxjs';
+import { v4 as uuidv4 } from 'uuid';
 import ERC20NoDataABI from '../abi/ERC20NoData.json';
 import ERC20WithDataABI from '../abi/ERC20WithData.json';
 import ERC721NoDataABI from '../abi/ERC721NoData.json';
 import ERC721WithDataABI from '../abi/ERC721WithData.json';
+import ERC1155NoDataABI from '../abi/ERC1155NoData.json';
+import ERC1155WithDataABI from '../abi/ERC1155WithData.json';
 import TokenFactoryABI from '../abi/TokenFactory.json';
 import IERC165ABI from '../abi/IERC165.json';
-import { Event, EventStream, EventStreamReply } from '../event-stream/event-stream.interfaces';
+import IERC721EnumerableABI from '../abi/IERC721Enumerable.json';
+import IERC20PermitABI from '../abi/IERC20Permit.json';
+import IERC3009ABI from '../abi/IERC3009.json';
+import ITokenBatchWithDataABI from '../abi/ITokenBatchWithData.json';
+import { ConfirmationsService } from '../confirmations/confirmations.service';
+import {
+  BlockchainConnector,
+  ChainConnector,
+  EventStreamConnector,
+  HistoricalEventConnector,
+  TransactionConnector,
+  TransactionEstimator,
+} from '../connector/connector.interfaces';
+import { EthConnectConnector } from '../connector/ethconnect.connector';
+import {
+  Event,
+  EventStream,
+  EventStreamReply,
+  EventStreamSubscription,
+} from '../event-stream/event-stream.interfaces';
 import { EventStreamService } from '../event-stream/event-stream.service';
+import { MetricsService } from '../metrics/metrics.service';
+import { TracingService } from '../tracing/tracing.service';
 import { EventStreamProxyGateway } from '../eventstream-proxy/eventstream-proxy.gateway';
 import { EventListener, EventProcessor } from '../eventstream-proxy/eventstream-proxy.interfaces';
-import { basicAuth } from '../utils';
 import { WebSocketMessage } from '../websocket-events/websocket-events.base';
 import {
   ERC20ApprovalEvent,
   ERC721ApprovalEvent,
+  ERC1155ApprovalForAllEvent,
   ApprovalForAllEvent,
+  AsyncBatchItem,
+  AsyncBatchResponse,
   AsyncResponse,
   ContractSchema,
-  EthConnectAsyncResponse,
   EthConnectReturn,
   IAbiMethod,
+  IdempotencyStore,
   IPoolLocator,
   IValidPoolLocator,
+  RemediationAction,
+  RemediationActionType,
+  RemediationPlan,
+  SubscriptionInfo,
   TokenApproval,
   TokenApprovalEvent,
+  TokenBalance,
+  TokenBalanceQuery,
   TokenBurn,
   TokenBurnEvent,
+  TokenEstimate,
   TokenPoolCreationEvent,
   TokenMint,
+  TokenMintBatch,
   TokenMintEvent,
+  TokenPermit,
+  TokenPermitDataRequest,
+  TokenPermitTypedData,
   TokenPool,
   TokenPoolActivate,
+  TokenPoolDeactivate,
   TokenPoolConfig,
+  TokenPoolDetails,
   TokenPoolEvent,
+  TokenReplay,
+  TokenReplayPage,
   TokenTransfer,
+  TokenTransferAuthorization,
+  TokenTransferBatch,
   TokenTransferEvent,
   TokenType,
+  TransferAuthorizationMethod,
+  TransferBatchEvent,
   TransferEvent,
+  TransferSingleEvent,
 } from './tokens.interfaces';
 import {
   decodeHex,
   encodeHex,
+  formatDecimalAmount,
   getTokenSchema,
+  getTokenStandard,
+  hashRequest,
+  isMultiTokenSchema,
   packPoolLocator,
   packSubscriptionName,
+  parseDecimalAmount,
+  recoverTypedDataSigner,
   unpackPoolLocator,
   unpackSubscriptionName,
   validatePoolLocator,
 } from './tokens.util';
+import { MemoryIdempotencyStore } from './tokens.store';
+
+const MAX_RECEIPT_WAIT = 60000;
+const REPLAY_BLOCK_RANGE = 1000;
+const DEFAULT_REPLAY_LIMIT = 1000;
 
 const ERC20WithDataIID = '0xaefdad0f';
 const ERC721WithDataIID = '0xb2429c12';
+const ERC721EnumerableIID = '0x780e9d63';
+const ERC1155IID = '0xd9b67a26';
+const ERC1155WithDataIID = '0xd0b056e0';
+const TokenBatchWithDataIID = '0xb2ba6b96';
 const supportsInterfaceABI = IERC165ABI.abi.find(m => m.name === 'supportsInterface');
+const enumerableTotalSupplyABI = IERC721EnumerableABI.abi.find(m => m.name === 'totalSupply');
+const mintBatchABI = ITokenBatchWithDataABI.abi.find(m => m.name === 'mintBatchWithData');
+const transferBatchABI = ITokenBatchWithDataABI.abi.find(m => m.name === 'transferBatchWithData');
+const permitABI = IERC20PermitABI.abi.find(m => m.name === 'permit');
+const noncesABI = IERC20PermitABI.abi.find(m => m.name === 'nonces');
+const domainSeparatorABI = IERC3009ABI.abi.find(m => m.name === 'DOMAIN_SEPARATOR');
+const authorizationABIs: IAbiMethod[] = IERC3009ABI.abi.filter(m =>
+  Object.values<string>(TransferAuthorizationMethod).includes(m.name),
+);
+const authorizationFields = [
+  { name: 'from', type: 'address' },
+  { name: 'to', type: 'address' },
+  { name: 'value', type: 'uint256' },
+  { name: 'validAfter', type: 'uint256' },
+  { name: 'validBefore', type: 'uint256' },
+  { name: 'nonce', type: 'bytes32' },
+];
 
 export const abiSchemaMap = new Map<ContractSchemaStrings, IAbiMethod[]>();
 abiSchemaMap.set('ERC20NoData', ERC20NoDataABI.abi);
 abiSchemaMap.set('ERC20WithData', ERC20WithDataABI.abi);
 abiSchemaMap.set('ERC721NoData', ERC721NoDataABI.abi);
 abiSchemaMap.set('ERC721WithData', ERC721WithDataABI.abi);
+abiSchemaMap.set('ERC1155NoData', ERC1155NoDataABI.abi);
+abiSchemaMap.set('ERC1155WithData', ERC1155WithDataABI.abi);
 
 export interface AbiMethods {
   MINT: string;
@@ -91,14 +168,18 @@ export interface AbiMethods {
   BURN: string;
   NAME: string;
   SYMBOL: string;
-  APPROVE: string;
+  APPROVE: string | null;
   APPROVEFORALL: string | null;
   DECIMALS: string | null;
+  BALANCE: string;
+  OWNER: string | null;
+  TOTALSUPPLY: string | null;
 }
 
 export interface AbiEvents {
   TRANSFER: string;
-  APPROVAL: string;
+  TRANSFERBATCH: string | null;
+  APPROVAL: string | null;
   APPROVALFORALL: string | null;
 }
 
@@ -112,6 +193,9 @@ abiMethodMap.set('ERC20NoData', {
   NAME: 'name',
   SYMBOL: 'symbol',
   DECIMALS: 'decimals',
+  BALANCE: 'balanceOf',
+  OWNER: null,
+  TOTALSUPPLY: 'totalSupply',
 });
 abiMethodMap.set('ERC20WithData', {
   MINT: 'mintWithData',
@@ -122,6 +206,9 @@ abiMethodMap.set('ERC20WithData', {
   NAME: 'name',
   SYMBOL: 'symbol',
   DECIMALS: 'decimals',
+  BALANCE: 'balanceOf',
+  OWNER: null,
+  TOTALSUPPLY: 'totalSupply',
 });
 abiMethodMap.set('ERC721WithData', {
   MINT: 'mintWithData',
@@ -132,6 +219,9 @@ abiMethodMap.set('ERC721WithData', {
   NAME: 'name',
   SYMBOL: 'symbol',
   DECIMALS: null,
+  BALANCE: 'balanceOf',
+  OWNER: 'ownerOf',
+  TOTALSUPPLY: null,
 });
 abiMethodMap.set('ERC721NoData', {
   MINT: 'mint',
@@ -142,29 +232,74 @@ abiMethodMap.set('ERC721NoData', {
   NAME: 'name',
   SYMBOL: 'symbol',
   DECIMALS: null,
+  BALANCE: 'balanceOf',
+  OWNER: 'ownerOf',
+  TOTALSUPPLY: null,
+});
+abiMethodMap.set('ERC1155WithData', {
+  MINT: 'mintWithData',
+  TRANSFER: 'transferWithData',
+  BURN: 'burnWithData',
+  APPROVE: null,
+  APPROVEFORALL: 'setApprovalForAllWithData',
+  NAME: 'name',
+  SYMBOL: 'symbol',
+  DECIMALS: null,
+  BALANCE: 'balanceOf',
+  OWNER: null,
+  TOTALSUPPLY: null,
+});
+abiMethodMap.set('ERC1155NoData', {
+  MINT: 'mint',
+  TRANSFER: 'safeTransferFrom',
+  BURN: 'burn',
+  APPROVE: null,
+  APPROVEFORALL: 'setApprovalForAll',
+  NAME: 'name',
+  SYMBOL: 'symbol',
+  DECIMALS: null,
+  BALANCE: 'balanceOf',
+  OWNER: null,
+  TOTALSUPPLY: null,
 });
 
 const abiEventMap = new Map<ContractSchemaStrings, AbiEvents>();
 abiEventMap.set('ERC20NoData', {
   TRANSFER: 'Transfer',
+  TRANSFERBATCH: null,
   APPROVAL: 'Approval',
   APPROVALFORALL: null,
 });
 abiEventMap.set('ERC20WithData', {
   TRANSFER: 'Transfer',
+  TRANSFERBATCH: null,
   APPROVAL: 'Approval',
   APPROVALFORALL: null,
 });
 abiEventMap.set('ERC721NoData', {
   TRANSFER: 'Transfer',
+  TRANSFERBATCH: null,
   APPROVAL: 'Approval',
   APPROVALFORALL: 'ApprovalForAll',
 });
 abiEventMap.set('ERC721WithData', {
   TRANSFER: 'Transfer',
+  TRANSFERBATCH: null,
   APPROVAL: 'Approval',
   APPROVALFORALL: 'ApprovalForAll',
 });
+abiEventMap.set('ERC1155NoData', {
+  TRANSFER: 'TransferSingle',
+  TRANSFERBATCH: 'TransferBatch',
+  APPROVAL: null,
+  APPROVALFORALL: 'ApprovalForAll',
+});
+abiEventMap.set('ERC1155WithData', {
+  TRANSFER: 'TransferSingle',
+  TRANSFERBATCH: 'TransferBatch',
+  APPROVAL: null,
+  APPROVALFORALL: 'ApprovalForAll',
+});
 
 const tokenCreateMethod = 'create';
 const tokenCreateEvent = 'TokenPoolCreation';
@@ -173,14 +308,21 @@ const tokenCreateEventSignature = 'TokenPoolCreation(address,string,string,bool,
 const UINT256_MAX = BigInt(2) ** BigInt(256) - BigInt(1);
 const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
 
-const sendTransactionHeader = 'SendTransaction';
-const queryHeader = 'Query';
 const transferEventSignature = 'Transfer(address,address,uint256)';
+const transferSingleEventSignature = 'TransferSingle(address,address,address,uint256,uint256)';
+const transferBatchEventSignature = 'TransferBatch(address,address,address,uint256[],uint256[])';
 const approvalEventSignature = 'Approval(address,address,uint256)';
 const approvalForAllEventSignature = 'ApprovalForAll(address,address,bool)';
 
 type ContractSchemaStrings = keyof typeof ContractSchema;
 
+interface PreparedTransaction {
+  from: string;
+  to: string;
+  method?: IAbiMethod;
+  params: any[];
+}
+
 @Injectable()
 export class TokensService {
   private readonly logger = new Logger(TokensService.name);
@@ -189,16 +331,32 @@ export class TokensService {
   fftmUrl: string;
   topic: string;
   shortPrefix: string;
-  stream: EventStream;
+  stream?: EventStream;
   username: string;
   password: string;
   factoryAddress = '';
+  formatAmounts = false;
+
+  private eventstream: EventStreamConnector;
+  private connector: TransactionConnector;
+  private history?: HistoricalEventConnector;
+  private estimator?: TransactionEstimator;
+  private chain?: ChainConnector;
+  private listener: TokenListener;
+  private decimals = new Map<string, number>();
+  private idempotencyStore: IdempotencyStore = new MemoryIdempotencyStore();
+  private pendingRequests = new Map<string, { hash: string; response: Promise<AsyncResponse> }>();
 
   constructor(
     public http: HttpService,
-    private eventstream: EventStreamService,
+    eventstream: EventStreamService,
     private proxy: EventStreamProxyGateway,
-  ) {}
+    private confirmations: ConfirmationsService,
+    private metrics: MetricsService,
+    private tracing: TracingService,
+  ) {
+    this.eventstream = eventstream;
+  }
 
   configure(
     baseUrl: string,
@@ -208,6 +366,7 @@ export class TokensService {
     username: string,
     password: string,
     factoryAddress: string,
+    formatAmounts = false,
   ) {
     this.baseUrl = baseUrl;
     this.fftmUrl = fftmUrl;
@@ -216,7 +375,46 @@ export class TokensService {
     this.username = username;
     this.password = password;
     this.factoryAddress = factoryAddress.toLowerCase();
-    this.proxy.addListener(new TokenListener(this));
+    this.formatAmounts = formatAmounts;
+    this.connector = new EthConnectConnector(this.http, baseUrl, fftmUrl, username, password);
+    this.listener = new TokenListener(this, this.confirmations, this.metrics);
+    this.proxy.addListener(this.listener);
+  }
+
+  /**
+   * Use an alternative blockchain connector in place of ethconnect.
+   */
+  useConnector(connector: BlockchainConnector) {
+    this.connector = connector;
+    this.eventstream = connector;
+  }
+
+  /**
+   * Use a backend that can look up past events, to allow replaying events for a pool.
+   */
+  useHistoryConnector(connector: HistoricalEventConnector) {
+    this.history = connector;
+  }
+
+  /**
+   * Use a backend that can simulate transactions, to allow estimating token operations.
+   */
+  useEstimator(estimator: TransactionEstimator) {
+    this.estimator = estimator;
+  }
+
+  /**
+   * Use a backend that can report the chain ID, to allow building permits for signing.
+   */
+  useChainConnector(connector: ChainConnector) {
+    this.chain = connector;
+  }
+
+  /**
+   * Use an alternative store for tracking request IDs that have already been submitted.
+   */
+  useIdempotencyStore(store: IdempotencyStore) {
+    this.idempotencyStore = store;
   }
 
   private getMethodAbi(
@@ -248,7 +446,7 @@ export class TokensService {
   }
 
   private getAmountOrTokenID(
-    dto: TokenMint | TokenTransfer | TokenBurn,
+    dto: Pick<TokenTransfer, 'amount' | 'tokenIndex'>,
     type: TokenType,
   ): string | undefined {
     if (type === TokenType.FUNGIBLE) {
@@ -262,6 +460,115 @@ export class TokensService {
     return dto.tokenIndex;
   }
 
+  private getTokenParams(
+    dto: Pick<TokenTransfer, 'amount' | 'tokenIndex'>,
+    poolLocator: IValidPoolLocator,
+  ): (string | undefined)[] {
+    if (!isMultiTokenSchema(poolLocator.schema)) {
+      return [this.getAmountOrTokenID(dto, poolLocator.type)];
+    }
+
+    // ERC1155 contracts always take a token ID and an amount
+    if (dto.tokenIndex === undefined) {
+      throw new BadRequestException('Token index must be specified for ERC1155 tokens');
+    }
+    if (poolLocator.type === TokenType.FUNGIBLE) {
+      return [dto.tokenIndex, dto.amount];
+    }
+    if (dto.amount !== undefined && dto.amount !== '1') {
+      throw new BadRequestException('Amount for nonfungible tokens must be 1');
+    }
+    return [dto.tokenIndex, '1'];
+  }
+
+  /**
+   * If decimal amounts were requested, look up the decimals of the pool (otherwise undefined).
+   */
+  private async getRequestDecimals(poolLocator: IValidPoolLocator, useDecimals?: boolean) {
+    if (useDecimals !== true) {
+      return undefined;
+    }
+    if (poolLocator.type !== TokenType.FUNGIBLE) {
+      throw new BadRequestException('Decimal amounts are only supported for fungible pools');
+    }
+    return this.getDecimals(poolLocator);
+  }
+
+  /**
+   * Convert a decimal amount to base units, if decimals are in use for this request.
+   */
+  private scaleAmount(amount: string | undefined, decimals?: number) {
+    if (amount === undefined || decimals === undefined) {
+      return amount;
+    }
+    const scaled = parseDecimalAmount(amount, decimals);
+    if (scaled === undefined) {
+      throw new BadRequestException(
+        `Invalid amount '${amount}' for a pool with ${decimals} decimals`,
+      );
+    }
+    return scaled;
+  }
+
+  private scaleTransfer<T extends { amount?: string }>(dto: T, decimals?: number): T {
+    return { ...dto, amount: this.scaleAmount(dto.amount, decimals) };
+  }
+
+  /**
+   * Submit a request only once per request ID.
+   * A repeat of the same request returns the original response, while reusing the
+   * request ID for a different request is rejected with a 409.
+   */
+  private async idempotent<T extends AsyncResponse>(
+    operation: string,
+    dto: { requestId?: string },
+    submit: () => Promise<T>,
+  ): Promise<T> {
+    const requestId = dto.requestId;
+    if (requestId === undefined || requestId === '') {
+      return submit();
+    }
+    const hash = hashRequest(operation, dto);
+    const conflict = () =>
+      new ConflictException(`Request ID '${requestId}' was already used for a different request`);
+
+    const pending = this.pendingRequests.get(requestId);
+    if (pending !== undefined) {
+      if (pending.hash !== hash) {
+        throw conflict();
+      }
+      return pending.response as Promise<T>;
+    }
+
+    const response = (async () => {
+      const existing = await this.idempotencyStore.get(requestId);
+      if (existing !== undefined) {
+        if (existing.hash !== hash) {
+          throw conflict();
+        }
+        this.logger.log(`Returning previous response for duplicate request '${requestId}'`);
+        return existing.response as T;
+      }
+      const result = await submit();
+      await this.idempotencyStore.set(requestId, { hash, response: result });
+      return result;
+    })();
+    this.pendingRequests.set(requestId, { hash, response });
+    try {
+      return await response;
+    } finally {
+      this.pendingRequests.delete(requestId);
+    }
+  }
+
+  /**
+   * Check if a contract method accepts extra data as its final argument.
+   */
+  private hasDataParam(method?: IAbiMethod) {
+    const inputs = method?.inputs ?? [];
+    return inputs.length > 0 && inputs[inputs.length - 1].type === 'bytes';
+  }
+
   /**
    * One-time initialization of event stream and base subscription.
    */
@@ -293,113 +600,273 @@ export class TokensService {
     return this.stream;
   }
 
+  /**
+   * Look up the event stream for this topic, without creating it if it does not exist.
+   */
+  private async getExistingStream() {
+    if (this.stream !== undefined) {
+      return this.stream;
+    }
+    const streams = await this.eventstream.getStreams();
+    const stream = streams.find(s => s.name === this.topic);
+    if (stream === undefined) {
+      throw new NotFoundException(`Event stream '${this.topic}' not found`);
+    }
+    return stream;
+  }
+
+  getStreams() {
+    return this.eventstream.getStreams();
+  }
+
+  async deleteStream(id: string) {
+    const streams = await this.eventstream.getStreams();
+    if (streams.find(s => s.id === id) === undefined) {
+      throw new NotFoundException(`Event stream '${id}' not found`);
+    }
+    await this.eventstream.deleteStream(id);
+    if (this.stream?.id === id) {
+      this.stream = undefined;
+    }
+  }
+
+  /**
+   * List all subscriptions, with the pool locator and event decoded from each name.
+   */
+  async getSubscriptions(): Promise<SubscriptionInfo[]> {
+    const subscriptions = await this.eventstream.getSubscriptions();
+    return subscriptions.map(sub => {
+      const parts = unpackSubscriptionName(this.topic, sub.name);
+      return {
+        id: sub.id,
+        name: sub.name,
+        stream: sub.stream,
+        fromBlock: sub.fromBlock,
+        poolLocator: parts.poolLocator,
+        event: parts.event,
+      };
+    });
+  }
+
+  private async getExistingSubscription(id: string) {
+    const sub = await this.eventstream.getSubscription(id);
+    if (sub === undefined) {
+      throw new NotFoundException(`Subscription '${id}' not found`);
+    }
+    return sub;
+  }
+
+  async deleteSubscription(id: string) {
+    await this.getExistingSubscription(id);
+    await this.eventstream.deleteSubscription(id);
+    this.proxy.forgetSubscription(id);
+  }
+
+  /**
+   * Rewind (or fast-forward) a subscription, so that events are delivered again from the given block.
+   */
+  async resetSubscription(id: string, fromBlock: string) {
+    const sub = await this.getExistingSubscription(id);
+    this.logger.log(`Resetting subscription ${sub.name} to block ${fromBlock}`);
+    await this.eventstream.resetSubscription(id, fromBlock);
+  }
+
   /**
    * Check for existing event streams and subscriptions that don't match the current
    * expected format (ie incorrect names, missing event subscriptions).
    *
-   * Log a warning if any potential issues are flagged. User may need to delete
-   * subscriptions manually and reactivate the pool directly.
+   * Log a warning if any potential issues are flagged. Use remediate() to apply the
+   * recommended changes.
    */
   async migrationCheck(): Promise<boolean> {
+    const actions = await this.planRemediation();
+    for (const action of actions) {
+      if (action.action === RemediationActionType.DELETE_SUBSCRIPTION) {
+        this.logger.warn(
+          `${action.reason}. It is recommended to delete subscription ${action.name}.`,
+        );
+      }
+    }
+    return actions.length > 0;
+  }
+
+  /**
+   * Compute the changes needed to bring the subscriptions on the event stream up to date.
+   *
+   * Subscriptions that cannot be parsed are deleted. Pools that do not have exactly the
+   * expected set of subscriptions have all of their subscriptions deleted and recreated,
+   * starting from the last block delivered for that pool (if known).
+   */
+  async planRemediation(): Promise<RemediationAction[]> {
     const streams = await this.eventstream.getStreams();
     const existingStream = streams.find(s => s.name === this.topic);
     if (existingStream === undefined) {
-      return false;
+      return [];
     }
 
     const allSubscriptions = await this.eventstream.getSubscriptions();
-    const streamId = existingStream.id;
-    const subscriptions = allSubscriptions.filter(s => s.stream === streamId);
+    const subscriptions = allSubscriptions.filter(s => s.stream === existingStream.id);
     if (subscriptions.length === 0) {
-      return false;
+      return [];
     }
 
-    const foundEvents = new Map<string, string[]>();
-    for (const sub of subscriptions.filter(s => s.stream === existingStream.id)) {
+    const actions: RemediationAction[] = [];
+    const deleteAction = (sub: EventStreamSubscription, reason: string, poolLocator?: string) =>
+      actions.push({
+        action: RemediationActionType.DELETE_SUBSCRIPTION,
+        name: sub.name,
+        subscriptionId: sub.id,
+        poolLocator,
+        reason,
+      });
+
+    const poolSubscriptions = new Map<string, EventStreamSubscription[]>();
+    for (const sub of subscriptions) {
       const parts = unpackSubscriptionName(this.topic, sub.name);
       if (parts.poolLocator === undefined || parts.event === undefined) {
-        this.logger.warn(
-          `Non-parseable subscription names found in event stream ${existingStream.name}.` +
-            `It is recommended to delete all subscriptions and activate all pools again.`,
+        deleteAction(
+          sub,
+          `Non-parseable subscription name found in event stream ${existingStream.name}`,
         );
-        return true;
+        continue;
       }
-      const existing = foundEvents.get(parts.poolLocator);
+      const existing = poolSubscriptions.get(parts.poolLocator);
       if (existing !== undefined) {
-        existing.push(parts.event);
+        existing.push(sub);
       } else {
-        foundEvents.set(parts.poolLocator, [parts.event]);
+        poolSubscriptions.set(parts.poolLocator, [sub]);
       }
     }
 
-    // Expect to have found subscriptions for each of the events.
-    for (const [poolLocator, events] of foundEvents) {
+    const checkpoints = await this.proxy.getCheckpoints();
+    for (const [poolLocator, subs] of poolSubscriptions) {
       if (poolLocator === this.factoryAddress) {
         continue;
       }
 
       const unpackedLocator = unpackPoolLocator(poolLocator);
       if (!validatePoolLocator(unpackedLocator)) {
-        this.logger.warn(
-          `Could not parse pool locator: ${poolLocator}. ` +
-            `It is recommended to delete subscriptions for this pool and activate the pool again.`,
+        subs.forEach(sub =>
+          deleteAction(sub, `Could not parse pool locator: ${poolLocator}`, poolLocator),
         );
-        return true;
+        continue;
       }
-      const abiEvents = abiEventMap.get(unpackedLocator.schema as ContractSchemaStrings);
-      if (abiEvents === undefined) {
-        this.logger.warn(
-          `Could not parse schema from pool locator: ${poolLocator}. ` +
-            `It is recommended to delete subscriptions for this pool and activate the pool again.`,
+      if (abiEventMap.get(unpackedLocator.schema as ContractSchemaStrings) === undefined) {
+        subs.forEach(sub =>
+          deleteAction(
+            sub,
+            `Could not parse schema from pool locator: ${poolLocator}`,
+            poolLocator,
+          ),
         );
-        return true;
+        continue;
       }
-      const allEvents = [abiEvents.TRANSFER, abiEvents.APPROVAL, abiEvents.APPROVALFORALL];
+
+      // Expect to have found exactly one subscription for each of the events.
+      const { eventsToSubTo } = this.getSubscriptionAbis(unpackedLocator);
+      const expectedEvents = eventsToSubTo.map(([event]) => event);
+      const events = subs.map(sub => unpackSubscriptionName(this.topic, sub.name).event);
       if (
-        allEvents.length !== events.length ||
-        !allEvents.every(event => event === null || events.includes(event))
+        expectedEvents.length === events.length &&
+        expectedEvents.every(event => events.includes(event))
       ) {
-        this.logger.warn(
-          `Event stream subscriptions for pool ${poolLocator} do not include all expected events ` +
-            `(${allEvents}). Events may not be properly delivered to this pool. ` +
-            `It is recommended to delete its subscriptions and activate the pool again.`,
-        );
-        return true;
+        continue;
+      }
+
+      const reason =
+        `Event stream subscriptions for pool ${poolLocator} do not include all expected events ` +
+        `(${expectedEvents})`;
+      subs.forEach(sub => deleteAction(sub, reason, poolLocator));
+      const fromBlock = this.getRemediationBlockNumber(subs, checkpoints);
+      for (const event of expectedEvents) {
+        actions.push({
+          action: RemediationActionType.CREATE_SUBSCRIPTION,
+          name: packSubscriptionName(this.topic, poolLocator, event),
+          poolLocator,
+          event,
+          fromBlock,
+          reason,
+        });
       }
     }
-    return false;
+    return actions;
   }
 
-  private requestOptions(): AxiosRequestConfig {
-    return basicAuth(this.username, this.password);
+  /**
+   * Pick the block to resume a pool from: the last block delivered on any of its
+   * subscriptions, or else the earliest starting block of its existing subscriptions.
+   */
+  private getRemediationBlockNumber(
+    subs: EventStreamSubscription[],
+    checkpoints: Map<string, string>,
+  ) {
+    const delivered = subs
+      .map(sub => checkpoints.get(sub.name))
+      .filter((block): block is string => block !== undefined);
+    if (delivered.length > 0) {
+      return delivered.reduce((a, b) => (BigInt(b) > BigInt(a) ? b : a));
+    }
+    const started = subs
+      .map(sub => sub.fromBlock)
+      .filter((block): block is string => block !== undefined && /^\d+$/.test(block));
+    if (started.length > 0) {
+      return started.reduce((a, b) => (BigInt(b) < BigInt(a) ? b : a));
+    }
+    return '0';
   }
 
-  private async wrapError<T>(response: Promise<AxiosResponse<T>>) {
-    return response.catch(err => {
-      if (axios.isAxiosError(err)) {
-        const request: ClientRequest | undefined = err.request;
-        const response: AxiosResponse | undefined = err.response;
-        const errorMessage = response?.data?.error ?? err.message;
-        this.logger.warn(
-          `${request?.path} <-- HTTP ${response?.status} ${response?.statusText}: ${errorMessage}`,
+  /**
+   * Compute and (unless this is a dry run) apply the changes from planRemediation().
+   */
+  async remediate(dryRun = false): Promise<RemediationPlan> {
+    const actions = await this.planRemediation();
+    if (dryRun) {
+      return { dryRun, actions };
+    }
+
+    for (const action of actions) {
+      this.logger.log(`Remediation: ${action.action} ${action.name} (${action.reason})`);
+      if (action.action === RemediationActionType.DELETE_SUBSCRIPTION) {
+        if (action.subscriptionId !== undefined) {
+          await this.eventstream.deleteSubscription(action.subscriptionId);
+          this.proxy.forgetSubscription(action.subscriptionId);
+        }
+      } else if (action.poolLocator !== undefined) {
+        const poolLocator = unpackPoolLocator(action.poolLocator);
+        if (!validatePoolLocator(poolLocator)) {
+          continue;
+        }
+        const stream = await this.getStream();
+        const { eventsToSubTo, methodsToSubTo } = this.getSubscriptionAbis(poolLocator);
+        const match = eventsToSubTo.find(([event]) => event === action.event);
+        if (match === undefined) {
+          continue;
+        }
+        const [event, eventAbi] = match;
+        await this.eventstream.getOrCreateSubscription(
+          this.baseUrl,
+          eventAbi,
+          stream.id,
+          event,
+          action.name,
+          poolLocator.address,
+          methodsToSubTo,
+          action.fromBlock,
         );
-        throw new InternalServerErrorException(errorMessage);
       }
-      throw err;
-    });
+    }
+    return { dryRun, actions };
   }
 
   async query(to: string, method?: IAbiMethod, params?: any[]) {
-    const response = await this.wrapError(
-      lastValueFrom(
-        this.http.post<EthConnectReturn>(
-          this.baseUrl,
-          { headers: { type: queryHeader }, to, method, params },
-          this.requestOptions(),
+    return this.tracing.trace(
+      'query',
+      { 'contract.address': to, 'contract.method': method?.name ?? '' },
+      () =>
+        this.metrics.observe(this.metrics.blockchainRequestDuration, { operation: 'query' }, () =>
+          this.connector.query(to, method, params),
         ),
-      ),
     );
-    return response.data;
   }
 
   async sendTransaction(
@@ -409,21 +876,93 @@ export class TokensService {
     method?: IAbiMethod,
     params?: any[],
   ) {
-    const url = this.fftmUrl !== undefined && this.fftmUrl !== '' ? this.fftmUrl : this.baseUrl;
-    const response = await this.wrapError(
-      lastValueFrom(
-        this.http.post<EthConnectAsyncResponse>(
-          url,
-          { headers: { id, type: sendTransactionHeader }, from, to, method, params },
-          this.requestOptions(),
+    return this.tracing.trace(
+      'sendTransaction',
+      { 'contract.address': to, 'contract.method': method?.name ?? '', signer: from },
+      async span => {
+        const response = await this.metrics.observe(
+          this.metrics.blockchainRequestDuration,
+          { operation: 'sendTransaction' },
+          () => this.connector.sendTransaction(from, to, id, method, params),
+        );
+        // Carry the trace through to the receipt and events for this request
+        span.setAttribute('request.id', response.id);
+        this.tracing.linkRequest(response.id);
+        return response;
+      },
+    );
+  }
+
+  private async submit(id: string | undefined, tx: PreparedTransaction): Promise<AsyncResponse> {
+    const response = await this.sendTransaction(tx.from, tx.to, id, tx.method, tx.params);
+    return { id: response.id };
+  }
+
+  /**
+   * Simulate a transaction without submitting it, returning the encoded call and either the
+   * estimated gas or the reason it would revert.
+   */
+  private async estimate(tx: PreparedTransaction): Promise<TokenEstimate> {
+    const estimator = this.estimator;
+    if (estimator === undefined) {
+      throw new BadRequestException('Estimation requires a JSON-RPC endpoint (ETHEREUM_RPC_URL)');
+    }
+    return this.tracing.trace(
+      'estimate',
+      { 'contract.address': tx.to, 'contract.method': tx.method?.name ?? '', signer: tx.from },
+      () =>
+        this.metrics.observe(
+          this.metrics.blockchainRequestDuration,
+          { operation: 'estimate' },
+          () => estimator.estimate(tx.from, tx.to, tx.method, tx.params),
         ),
-      ),
     );
-    return response.data;
   }
 
-  async supportsData(address: string, type: TokenType) {
-    const iid = type === TokenType.FUNGIBLE ? ERC20WithDataIID : ERC721WithDataIID;
+  async estimateMint(dto: TokenMint) {
+    return this.estimate(await this.prepareMint(dto));
+  }
+
+  async estimateTransfer(dto: TokenTransfer) {
+    return this.estimate(await this.prepareTransfer(dto));
+  }
+
+  async estimateBurn(dto: TokenBurn) {
+    return this.estimate(await this.prepareBurn(dto));
+  }
+
+  async estimateApproval(dto: TokenApproval) {
+    return this.estimate(await this.prepareApproval(dto));
+  }
+
+  async supportsMultiToken(address: string) {
+    try {
+      const result = await this.query(address, supportsInterfaceABI, [ERC1155IID]);
+      this.logger.log(`Querying ERC1155 support on contract '${address}': ${result.output}`);
+      return result.output === true;
+    } catch (err) {
+      this.logger.log(`Failed to query ERC1155 support on contract '${address}': assuming false`);
+      return false;
+    }
+  }
+
+  async supportsBatch(address: string) {
+    try {
+      const result = await this.query(address, supportsInterfaceABI, [TokenBatchWithDataIID]);
+      this.logger.log(`Querying batch support on contract '${address}': ${result.output}`);
+      return result.output === true;
+    } catch (err) {
+      this.logger.log(`Failed to query batch support on contract '${address}': assuming false`);
+      return false;
+    }
+  }
+
+  async supportsData(address: string, type: TokenType, multiToken = false) {
+    const iid = multiToken
+      ? ERC1155WithDataIID
+      : type === TokenType.FUNGIBLE
+      ? ERC20WithDataIID
+      : ERC721WithDataIID;
     try {
       const result = await this.query(address, supportsInterfaceABI, [iid]);
       this.logger.log(`Querying extra data support on contract '${address}': ${result.output}`);
@@ -454,6 +993,15 @@ export class TokensService {
       throw new NotFoundException('Unable to query token contract');
     }
 
+    return {
+      name: nameResponse.output,
+      symbol: symbolResponse.output,
+      decimals: await this.queryDecimals(poolLocator),
+    };
+  }
+
+  private async queryDecimals(poolLocator: IValidPoolLocator) {
+    const schema = poolLocator.schema as ContractSchemaStrings;
     let decimals = 0;
     const decimalsMethod = this.getMethodAbi(schema, 'DECIMALS');
     if (decimalsMethod !== undefined) {
@@ -463,11 +1011,62 @@ export class TokensService {
         decimals = 0;
       }
     }
+    this.decimals.set(poolLocator.address.toLowerCase(), decimals);
+    return decimals;
+  }
+
+  /**
+   * Get the decimals of a pool, only querying the contract the first time.
+   */
+  async getDecimals(poolLocator: IValidPoolLocator) {
+    return this.decimals.get(poolLocator.address.toLowerCase()) ?? this.queryDecimals(poolLocator);
+  }
+
+  private async queryTotalSupply(poolLocator: IValidPoolLocator): Promise<string | undefined> {
+    const schema = poolLocator.schema as ContractSchemaStrings;
+    let methodAbi = this.getMethodAbi(schema, 'TOTALSUPPLY');
+    if (methodAbi === undefined && poolLocator.type === TokenType.NONFUNGIBLE) {
+      // Total supply is only available on ERC721 contracts that are also ERC721Enumerable
+      try {
+        const result = await this.query(poolLocator.address, supportsInterfaceABI, [
+          ERC721EnumerableIID,
+        ]);
+        if (result.output === true) {
+          methodAbi = enumerableTotalSupplyABI;
+        }
+      } catch (err) {
+        this.logger.log(
+          `Failed to query enumerable support on contract '${poolLocator.address}': assuming false`,
+        );
+      }
+    }
+    if (methodAbi === undefined) {
+      return undefined;
+    }
+    const response = await this.query(poolLocator.address, methodAbi, []);
+    return response.output as string;
+  }
+
+  async getPool(packedPoolLocator: string): Promise<TokenPoolDetails> {
+    const poolLocator = unpackPoolLocator(packedPoolLocator);
+    if (!validatePoolLocator(poolLocator)) {
+      throw new BadRequestException('Invalid pool locator');
+    }
 
+    const poolInfo = await this.queryPool(poolLocator);
+    const totalSupply = await this.queryTotalSupply(poolLocator);
     return {
-      name: nameResponse.output,
-      symbol: symbolResponse.output,
-      decimals,
+      poolLocator: packedPoolLocator,
+      standard: getTokenStandard(poolLocator.type, poolLocator.schema),
+      type: poolLocator.type,
+      symbol: poolInfo.symbol,
+      decimals: poolInfo.decimals,
+      totalSupply,
+      info: {
+        name: poolInfo.name,
+        address: poolLocator.address,
+        schema: poolLocator.schema,
+      },
     };
   }
 
@@ -485,9 +1084,24 @@ export class TokensService {
     return this.createFromFactory(dto);
   }
 
+  estimateCreatePool(dto: TokenPool): Promise<TokenEstimate> {
+    if (dto.config?.address !== undefined && dto.config.address !== '') {
+      throw new BadRequestException(
+        'Creating a pool from an existing contract does not submit a transaction',
+      );
+    }
+    if (this.factoryAddress === '') {
+      throw new BadRequestException(
+        'config.address was unspecified, and no token factory is configured!',
+      );
+    }
+    return this.estimate(this.prepareCreateFromFactory(dto));
+  }
+
   async createFromExisting(address: string, dto: TokenPool) {
-    const withData = await this.supportsData(address, dto.type);
-    const schema = getTokenSchema(dto.type, withData);
+    const multiToken = await this.supportsMultiToken(address);
+    const withData = await this.supportsData(address, dto.type, multiToken);
+    const schema = getTokenSchema(dto.type, withData, multiToken);
     const poolLocator: IPoolLocator = { address, type: dto.type, schema };
     if (!validatePoolLocator(poolLocator)) {
       throw new BadRequestException('Invalid pool locator');
@@ -503,7 +1117,7 @@ export class TokensService {
     const tokenPoolEvent: TokenPoolEvent = {
       data: dto.data,
       poolLocator: packPoolLocator(poolLocator),
-      standard: dto.type === TokenType.FUNGIBLE ? 'ERC20' : 'ERC721',
+      standard: getTokenStandard(dto.type, schema),
       type: dto.type,
       symbol: poolInfo.symbol,
       decimals: poolInfo.decimals,
@@ -516,22 +1130,25 @@ export class TokensService {
     return tokenPoolEvent;
   }
 
-  async createFromFactory(dto: TokenPool): Promise<AsyncResponse> {
+  createFromFactory(dto: TokenPool): Promise<AsyncResponse> {
+    return this.idempotent('createFromFactory', dto, async () =>
+      this.submit(dto.requestId, this.prepareCreateFromFactory(dto)),
+    );
+  }
+
+  private prepareCreateFromFactory(dto: TokenPool): PreparedTransaction {
     const isFungible = dto.type === TokenType.FUNGIBLE;
     const encodedData = encodeHex(dto.data ?? '');
     const method = TokenFactoryABI.abi.find(m => m.name === tokenCreateMethod);
     if (method === undefined) {
       throw new BadRequestException('Failed to parse factory contract ABI');
     }
-
-    const response = await this.sendTransaction(
-      dto.signer,
-      this.factoryAddress,
-      dto.requestId,
+    return {
+      from: dto.signer,
+      to: this.factoryAddress,
       method,
-      [dto.name, dto.symbol, isFungible, encodedData],
-    );
-    return { id: response.id };
+      params: [dto.name, dto.symbol, isFungible, encodedData],
+    };
   }
 
   getSubscriptionBlockNumber(config?: TokenPoolConfig): string {
@@ -542,22 +1159,15 @@ export class TokensService {
     }
   }
 
-  async activatePool(dto: TokenPoolActivate) {
-    const poolLocator = unpackPoolLocator(dto.poolLocator);
-    if (!validatePoolLocator(poolLocator)) {
-      throw new BadRequestException('Invalid pool locator');
-    }
-
+  /**
+   * Get the events to subscribe to for a pool, along with the methods that may emit them.
+   */
+  private getSubscriptionAbis(poolLocator: IValidPoolLocator) {
     const schema = poolLocator.schema as ContractSchemaStrings;
-    const stream = await this.getStream();
     const transferAbi = this.getEventAbi(schema, 'TRANSFER');
     if (!transferAbi) {
       throw new NotFoundException('Transfer event ABI not found');
     }
-    const approvalAbi = this.getEventAbi(schema, 'APPROVAL');
-    if (!approvalAbi) {
-      throw new NotFoundException('Approval event ABI not found');
-    }
 
     const abiMethods = abiMethodMap.get(poolLocator.schema as ContractSchemaStrings);
     const abiEvents = abiEventMap.get(poolLocator.schema as ContractSchemaStrings);
@@ -567,58 +1177,69 @@ export class TokensService {
     }
 
     const possibleMethods: string[] = Object.values(abiMethods).filter(
-      m => !['name', 'symbol', 'decimals'].includes(m),
+      m => !['name', 'symbol', 'decimals', 'balanceOf', 'ownerOf', 'totalSupply'].includes(m),
     );
     const methodsToSubTo: IAbiMethod[] = contractAbi.filter(
       method => method.name !== undefined && possibleMethods.includes(method.name),
     );
+    if (poolLocator.type === TokenType.FUNGIBLE && !isMultiTokenSchema(poolLocator.schema)) {
+      // Decode relayed EIP-3009 transfers, so they can be attributed to the authorizing holder
+      methodsToSubTo.push(...authorizationABIs);
+    }
 
-    const promises = [
-      this.eventstream.getOrCreateSubscription(
-        this.baseUrl,
-        transferAbi,
-        stream.id,
-        abiEvents.TRANSFER,
-        packSubscriptionName(this.topic, dto.poolLocator, abiEvents.TRANSFER),
-        poolLocator.address,
-        methodsToSubTo,
-        this.getSubscriptionBlockNumber(dto.config),
-      ),
+    const eventsToSubTo: [string, IAbiMethod][] = [[abiEvents.TRANSFER, transferAbi]];
+    if (abiEvents.TRANSFERBATCH !== null) {
+      const transferBatchAbi = this.getEventAbi(schema, 'TRANSFERBATCH');
+      if (!transferBatchAbi) {
+        throw new NotFoundException('TransferBatch event ABI not found');
+      }
+      eventsToSubTo.push([abiEvents.TRANSFERBATCH, transferBatchAbi]);
+    }
+    if (abiEvents.APPROVAL !== null) {
+      const approvalAbi = this.getEventAbi(schema, 'APPROVAL');
+      if (!approvalAbi) {
+        throw new NotFoundException('Approval event ABI not found');
+      }
+      eventsToSubTo.push([abiEvents.APPROVAL, approvalAbi]);
+    }
+    if (abiEvents.APPROVALFORALL !== null) {
+      const approvalForAllAbi = this.getEventAbi(schema, 'APPROVALFORALL');
+      if (!approvalForAllAbi) {
+        throw new NotFoundException('ApprovalForAll event ABI not found');
+      }
+      eventsToSubTo.push([abiEvents.APPROVALFORALL, approvalForAllAbi]);
+    }
+
+    return { eventsToSubTo, methodsToSubTo };
+  }
+
+  async activatePool(dto: TokenPoolActivate) {
+    const poolLocator = unpackPoolLocator(dto.poolLocator);
+    if (!validatePoolLocator(poolLocator)) {
+      throw new BadRequestException('Invalid pool locator');
+    }
+
+    const stream = await this.getStream();
+    const { eventsToSubTo, methodsToSubTo } = this.getSubscriptionAbis(poolLocator);
+
+    const promises = eventsToSubTo.map(([event, eventAbi]) =>
       this.eventstream.getOrCreateSubscription(
         this.baseUrl,
-        approvalAbi,
+        eventAbi,
         stream.id,
-        abiEvents.APPROVAL,
-        packSubscriptionName(this.topic, dto.poolLocator, abiEvents.APPROVAL),
+        event,
+        packSubscriptionName(this.topic, dto.poolLocator, event),
         poolLocator.address,
         methodsToSubTo,
         this.getSubscriptionBlockNumber(dto.config),
       ),
-    ];
-    if (abiEvents.APPROVALFORALL !== null) {
-      const approvalForAllAbi = this.getEventAbi(schema, 'APPROVALFORALL');
-      if (!approvalForAllAbi) {
-        throw new NotFoundException('ApprovalForAll event ABI not found');
-      }
-      promises.push(
-        this.eventstream.getOrCreateSubscription(
-          this.baseUrl,
-          approvalForAllAbi,
-          stream.id,
-          abiEvents.APPROVALFORALL,
-          packSubscriptionName(this.topic, dto.poolLocator, abiEvents.APPROVALFORALL),
-          poolLocator.address,
-          methodsToSubTo,
-          this.getSubscriptionBlockNumber(dto.config),
-        ),
-      );
-    }
+    );
     await Promise.all(promises);
 
     const poolInfo = await this.queryPool(poolLocator);
     const tokenPoolEvent: TokenPoolEvent = {
       poolLocator: dto.poolLocator,
-      standard: poolLocator.type === TokenType.FUNGIBLE ? 'ERC20' : 'ERC721',
+      standard: getTokenStandard(poolLocator.type, poolLocator.schema),
       type: poolLocator.type,
       symbol: poolInfo.symbol,
       decimals: poolInfo.decimals,
@@ -632,7 +1253,81 @@ export class TokensService {
     return tokenPoolEvent;
   }
 
-  async mint(dto: TokenMint): Promise<AsyncResponse> {
+  /**
+   * Stop receiving events for a pool, by deleting all of its subscriptions.
+   */
+  async deactivatePool(dto: TokenPoolDeactivate) {
+    if (!validatePoolLocator(unpackPoolLocator(dto.poolLocator))) {
+      throw new BadRequestException('Invalid pool locator');
+    }
+
+    const stream = await this.getExistingStream();
+    const subscriptions = await this.eventstream.getSubscriptions();
+    for (const sub of subscriptions) {
+      if (
+        sub.stream === stream.id &&
+        unpackSubscriptionName(this.topic, sub.name).poolLocator === dto.poolLocator
+      ) {
+        this.logger.log(`Deleting subscription ${sub.name} (${sub.id})`);
+        await this.eventstream.deleteSubscription(sub.id);
+        this.proxy.forgetSubscription(sub.id);
+      }
+    }
+  }
+
+  /**
+   * Replay the past events of a pool through the same transforms as live events.
+   * Results are returned a page at a time, and the live subscriptions are not affected.
+   */
+  async replay(dto: TokenReplay): Promise<TokenReplayPage> {
+    const poolLocator = unpackPoolLocator(dto.poolLocator);
+    if (!validatePoolLocator(poolLocator)) {
+      throw new BadRequestException('Invalid pool locator');
+    }
+    if (this.history === undefined) {
+      throw new BadRequestException('Event replay requires a JSON-RPC endpoint (ETHEREUM_RPC_URL)');
+    }
+
+    const { eventsToSubTo, methodsToSubTo } = this.getSubscriptionAbis(poolLocator);
+    const head = await this.history.getBlockNumber();
+    const toBlock = Math.min(dto.toBlock !== undefined ? Number(dto.toBlock) : head, head);
+    const limit = dto.limit ?? DEFAULT_REPLAY_LIMIT;
+
+    const page: TokenReplayPage = { events: [] };
+    let fromBlock = Number(dto.fromBlock);
+    while (fromBlock <= toBlock && page.events.length < limit) {
+      const rangeEnd = Math.min(toBlock, fromBlock + REPLAY_BLOCK_RANGE - 1);
+      const events = await this.history.getHistoricalEvents(
+        poolLocator.address,
+        eventsToSubTo.map(([, eventAbi]) => eventAbi),
+        methodsToSubTo,
+        fromBlock,
+        rangeEnd,
+      );
+      for (const event of events) {
+        const eventName = event.signature.split('(')[0];
+        const subName = packSubscriptionName(this.topic, dto.poolLocator, eventName);
+        await this.listener.transformEvent(subName, event, message => {
+          if (message !== undefined) {
+            page.events.push(message);
+          }
+        });
+      }
+      fromBlock = rangeEnd + 1;
+    }
+    if (fromBlock <= toBlock) {
+      page.nextBlock = fromBlock.toString();
+    }
+    return page;
+  }
+
+  mint(dto: TokenMint): Promise<AsyncResponse> {
+    return this.idempotent('mint', dto, async () =>
+      this.submit(dto.requestId, await this.prepareMint(dto)),
+    );
+  }
+
+  private async prepareMint(dto: TokenMint): Promise<PreparedTransaction> {
     const poolLocator = unpackPoolLocator(dto.poolLocator);
     if (!validatePoolLocator(poolLocator)) {
       throw new BadRequestException('Invalid pool locator');
@@ -640,20 +1335,20 @@ export class TokensService {
 
     const schema = poolLocator.schema as ContractSchemaStrings;
     const methodAbi = this.getMethodAbi(schema, 'MINT');
-    const params = [dto.to, this.getAmountOrTokenID(dto, poolLocator.type)];
-    poolLocator.schema.includes('WithData') && params.push(encodeHex(dto.data ?? ''));
+    const decimals = await this.getRequestDecimals(poolLocator, dto.useDecimals);
+    const params = [dto.to, ...this.getTokenParams(this.scaleTransfer(dto, decimals), poolLocator)];
+    this.hasDataParam(methodAbi) && params.push(encodeHex(dto.data ?? ''));
 
-    const response = await this.sendTransaction(
-      dto.signer,
-      poolLocator.address,
-      dto.requestId,
-      methodAbi,
-      params,
+    return { from: dto.signer, to: poolLocator.address, method: methodAbi, params };
+  }
+
+  transfer(dto: TokenTransfer): Promise<AsyncResponse> {
+    return this.idempotent('transfer', dto, async () =>
+      this.submit(dto.requestId, await this.prepareTransfer(dto)),
     );
-    return { id: response.id };
   }
 
-  async transfer(dto: TokenTransfer): Promise<AsyncResponse> {
+  private async prepareTransfer(dto: TokenTransfer): Promise<PreparedTransaction> {
     const poolLocator = unpackPoolLocator(dto.poolLocator);
     if (!validatePoolLocator(poolLocator)) {
       throw new BadRequestException('Invalid pool locator');
@@ -661,20 +1356,163 @@ export class TokensService {
 
     const schema = poolLocator.schema as ContractSchemaStrings;
     const methodAbi = this.getMethodAbi(schema, 'TRANSFER');
-    const params = [dto.from, dto.to, this.getAmountOrTokenID(dto, poolLocator.type)];
-    poolLocator.schema.includes('WithData') && params.push(encodeHex(dto.data ?? ''));
+    const decimals = await this.getRequestDecimals(poolLocator, dto.useDecimals);
+    const params = [
+      dto.from,
+      dto.to,
+      ...this.getTokenParams(this.scaleTransfer(dto, decimals), poolLocator),
+    ];
+    this.hasDataParam(methodAbi) && params.push(encodeHex(dto.data ?? ''));
 
-    const response = await this.sendTransaction(
-      dto.signer,
-      poolLocator.address,
-      dto.requestId,
-      methodAbi,
-      params,
+    return { from: dto.signer, to: poolLocator.address, method: methodAbi, params };
+  }
+
+  mintBatch(dto: TokenMintBatch): Promise<AsyncBatchResponse> {
+    return this.idempotent('mintBatch', dto, async () => {
+      const poolLocator = unpackPoolLocator(dto.poolLocator);
+      if (!validatePoolLocator(poolLocator)) {
+        throw new BadRequestException('Invalid pool locator');
+      }
+
+      const schema = poolLocator.schema as ContractSchemaStrings;
+      const decimals = await this.getRequestDecimals(poolLocator, dto.useDecimals);
+      const tokenParams = dto.mints.map(mint =>
+        this.getTokenParams(this.scaleTransfer(mint, decimals), poolLocator),
+      );
+
+      if (!isMultiTokenSchema(schema) && (await this.supportsBatch(poolLocator.address))) {
+        const params = [
+          dto.mints.map(mint => mint.to),
+          tokenParams.map(([value]) => value),
+          dto.mints.map(mint => encodeHex(mint.data ?? '')),
+        ];
+        return this.sendBatchTransaction(
+          dto.signer,
+          poolLocator.address,
+          dto.requestId,
+          mintBatchABI,
+          params,
+          dto.mints.length,
+        );
+      }
+
+      const methodAbi = this.getMethodAbi(schema, 'MINT');
+      const entries = dto.mints.map((mint, i) => {
+        const params = [mint.to, ...tokenParams[i]];
+        this.hasDataParam(methodAbi) && params.push(encodeHex(mint.data ?? ''));
+        return params;
+      });
+      return this.sendSequentialTransactions(
+        dto.signer,
+        poolLocator.address,
+        dto.requestId,
+        methodAbi,
+        entries,
+      );
+    });
+  }
+
+  transferBatch(dto: TokenTransferBatch): Promise<AsyncBatchResponse> {
+    return this.idempotent('transferBatch', dto, async () => {
+      const poolLocator = unpackPoolLocator(dto.poolLocator);
+      if (!validatePoolLocator(poolLocator)) {
+        throw new BadRequestException('Invalid pool locator');
+      }
+
+      const schema = poolLocator.schema as ContractSchemaStrings;
+      const decimals = await this.getRequestDecimals(poolLocator, dto.useDecimals);
+      const tokenParams = dto.transfers.map(transfer =>
+        this.getTokenParams(this.scaleTransfer(transfer, decimals), poolLocator),
+      );
+
+      if (!isMultiTokenSchema(schema) && (await this.supportsBatch(poolLocator.address))) {
+        const params = [
+          dto.transfers.map(transfer => transfer.from),
+          dto.transfers.map(transfer => transfer.to),
+          tokenParams.map(([value]) => value),
+          dto.transfers.map(transfer => encodeHex(transfer.data ?? '')),
+        ];
+        return this.sendBatchTransaction(
+          dto.signer,
+          poolLocator.address,
+          dto.requestId,
+          transferBatchABI,
+          params,
+          dto.transfers.length,
+        );
+      }
+
+      const methodAbi = this.getMethodAbi(schema, 'TRANSFER');
+      const entries = dto.transfers.map((transfer, i) => {
+        const params = [transfer.from, transfer.to, ...tokenParams[i]];
+        this.hasDataParam(methodAbi) && params.push(encodeHex(transfer.data ?? ''));
+        return params;
+      });
+      return this.sendSequentialTransactions(
+        dto.signer,
+        poolLocator.address,
+        dto.requestId,
+        methodAbi,
+        entries,
+      );
+    });
+  }
+
+  /**
+   * Submit a whole batch as a single transaction. Each entry is assigned a sub-ID
+   * derived from the ID of the transaction.
+   */
+  private async sendBatchTransaction(
+    from: string,
+    to: string,
+    id: string | undefined,
+    method: IAbiMethod | undefined,
+    params: any[],
+    count: number,
+  ): Promise<AsyncBatchResponse> {
+    const response = await this.sendTransaction(from, to, id, method, params);
+    const items = [...Array(count).keys()].map(i => ({ id: `${response.id}:${i}` }));
+    return { id: response.id, items };
+  }
+
+  /**
+   * Submit one transaction per batch entry, using the sub-ID of each entry as its request ID.
+   * Entries that fail to submit are reported individually; the batch only fails if no
+   * entries could be submitted.
+   */
+  private async sendSequentialTransactions(
+    from: string,
+    to: string,
+    id: string | undefined,
+    method: IAbiMethod | undefined,
+    entries: any[][],
+  ): Promise<AsyncBatchResponse> {
+    const batchId = id ?? uuidv4();
+    const items: AsyncBatchItem[] = [];
+    let firstError: unknown;
+    for (const [i, params] of entries.entries()) {
+      const itemId = `${batchId}:${i}`;
+      try {
+        const response = await this.sendTransaction(from, to, itemId, method, params);
+        items.push({ id: response.id });
+      } catch (err) {
+        firstError = firstError ?? err;
+        items.push({ id: itemId, error: err instanceof Error ? err.message : `${err}` });
+      }
+    }
+    if (items.every(item => item.error !== undefined)) {
+      throw firstError;
+    }
+    return { id: batchId, items };
+  }
+
+  burn(dto: TokenBurn): Promise<AsyncResponse> {
+    return this.idempotent('burn', dto, async () =>
+      this.submit(dto.requestId, await this.prepareBurn(dto)),
     );
-    return { id: response.id };
   }
 
-  async burn(dto: TokenBurn): Promise<AsyncResponse> {
+  private async prepareBurn(dto: TokenBurn): Promise<PreparedTransaction> {
     const poolLocator = unpackPoolLocator(dto.poolLocator);
     if (!validatePoolLocator(poolLocator)) {
       throw new BadRequestException('Invalid pool locator');
@@ -682,20 +1520,23 @@ export class TokensService {
 
     const schema = poolLocator.schema as ContractSchemaStrings;
     const methodAbi = this.getMethodAbi(schema, 'BURN');
-    const params = [dto.from, this.getAmountOrTokenID(dto, poolLocator.type)];
-    poolLocator.schema.includes('WithData') && params.push(encodeHex(dto.data ?? ''));
+    const decimals = await this.getRequestDecimals(poolLocator, dto.useDecimals);
+    const params = [
+      dto.from,
+      ...this.getTokenParams(this.scaleTransfer(dto, decimals), poolLocator),
+    ];
+    this.hasDataParam(methodAbi) && params.push(encodeHex(dto.data ?? ''));
 
-    const response = await this.sendTransaction(
-      dto.signer,
-      poolLocator.address,
-      dto.requestId,
-      methodAbi,
-      params,
+    return { from: dto.signer, to: poolLocator.address, method: methodAbi, params };
+  }
+
+  approval(dto: TokenApproval): Promise<AsyncResponse> {
+    return this.idempotent('approval', dto, async () =>
+      this.submit(dto.requestId, await this.prepareApproval(dto)),
     );
-    return { id: response.id };
   }
 
-  async approval(dto: TokenApproval): Promise<AsyncResponse> {
+  private async prepareApproval(dto: TokenApproval): Promise<PreparedTransaction> {
     const poolLocator = unpackPoolLocator(dto.poolLocator);
     if (!validatePoolLocator(poolLocator)) {
       throw new BadRequestException('Invalid pool locator');
@@ -705,60 +1546,300 @@ export class TokensService {
     const params: any[] = [];
     const schema = poolLocator.schema as ContractSchemaStrings;
 
-    switch (poolLocator.type) {
-      case TokenType.FUNGIBLE: {
-        // Not approved means 0 allowance; approved with no allowance means unlimited allowance
-        const allowance = !dto.approved ? '0' : dto.config?.allowance ?? UINT256_MAX.toString();
-        params.push(dto.operator, allowance);
-        methodAbi = this.getMethodAbi(schema, 'APPROVE');
-        break;
+    if (isMultiTokenSchema(poolLocator.schema)) {
+      if (dto.config?.allowance !== undefined || dto.config?.tokenIndex !== undefined) {
+        throw new BadRequestException('ERC1155 tokens only support approval for all tokens');
       }
-      case TokenType.NONFUNGIBLE:
-        if (dto.config?.tokenIndex !== undefined) {
-          // Not approved means setting approved operator to 0
-          const operator = !dto.approved ? ZERO_ADDRESS : dto.operator;
-          params.push(operator, dto.config.tokenIndex);
+      params.push(dto.operator, dto.approved);
+      methodAbi = this.getMethodAbi(schema, 'APPROVEFORALL');
+    } else {
+      switch (poolLocator.type) {
+        case TokenType.FUNGIBLE: {
+          const decimals = await this.getRequestDecimals(poolLocator, dto.useDecimals);
+          // Not approved means 0 allowance; approved with no allowance means unlimited allowance
+          const allowance = !dto.approved
+            ? '0'
+            : this.scaleAmount(dto.config?.allowance, decimals) ?? UINT256_MAX.toString();
+          params.push(dto.operator, allowance);
           methodAbi = this.getMethodAbi(schema, 'APPROVE');
-        } else {
-          params.push(dto.operator, dto.approved);
-          methodAbi = this.getMethodAbi(schema, 'APPROVEFORALL');
+          break;
         }
-        break;
+        case TokenType.NONFUNGIBLE:
+          if (dto.config?.tokenIndex !== undefined) {
+            // Not approved means setting approved operator to 0
+            const operator = !dto.approved ? ZERO_ADDRESS : dto.operator;
+            params.push(operator, dto.config.tokenIndex);
+            methodAbi = this.getMethodAbi(schema, 'APPROVE');
+          } else {
+            params.push(dto.operator, dto.approved);
+            methodAbi = this.getMethodAbi(schema, 'APPROVEFORALL');
+          }
+          break;
+      }
     }
 
-    poolLocator.schema.includes('WithData') && params.push(encodeHex(dto.data ?? ''));
-    const response = await this.sendTransaction(
-      dto.signer,
+    this.hasDataParam(methodAbi) && params.push(encodeHex(dto.data ?? ''));
+    return { from: dto.signer, to: poolLocator.address, method: methodAbi, params };
+  }
+
+  permit(dto: TokenPermit): Promise<AsyncResponse> {
+    return this.idempotent('permit', dto, async () =>
+      this.submit(dto.requestId, await this.preparePermit(dto)),
+    );
+  }
+
+  private async preparePermit(dto: TokenPermit): Promise<PreparedTransaction> {
+    const poolLocator = this.getERC20Pool(dto.poolLocator, 'Permits');
+    const decimals = await this.getRequestDecimals(poolLocator, dto.useDecimals);
+    const params = [
+      dto.owner,
+      dto.spender,
+      this.scaleAmount(dto.value, decimals),
+      dto.deadline,
+      dto.v,
+      dto.r,
+      dto.s,
+    ];
+    return { from: dto.signer, to: poolLocator.address, method: permitABI, params };
+  }
+
+  /**
+   * Build the EIP-712 typed data that the owner must sign to permit an allowance.
+   * The result can be passed as-is to eth_signTypedData_v4.
+   */
+  async permitTypedData(dto: TokenPermitDataRequest): Promise<TokenPermitTypedData> {
+    const poolLocator = this.getERC20Pool(dto.poolLocator, 'Permits');
+    if (this.chain === undefined) {
+      throw new BadRequestException(
+        'Building a permit requires a JSON-RPC endpoint (ETHEREUM_RPC_URL)',
+      );
+    }
+
+    const schema = poolLocator.schema as ContractSchemaStrings;
+    const decimals = await this.getRequestDecimals(poolLocator, dto.useDecimals);
+    const nameResponse = await this.query(
       poolLocator.address,
-      dto.requestId,
-      methodAbi,
-      params,
+      this.getMethodAbi(schema, 'NAME'),
+      [],
     );
-    return { id: response.id };
+    const nonceResponse = await this.query(poolLocator.address, noncesABI, [dto.owner]);
+    if (nameResponse?.output === undefined || nonceResponse?.output === undefined) {
+      throw new NotFoundException('Unable to query token contract');
+    }
+
+    return {
+      types: {
+        EIP712Domain: [
+          { name: 'name', type: 'string' },
+          { name: 'version', type: 'string' },
+          { name: 'chainId', type: 'uint256' },
+          { name: 'verifyingContract', type: 'address' },
+        ],
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      primaryType: 'Permit',
+      domain: {
+        name: nameResponse.output,
+        version: dto.version ?? '1',
+        chainId: await this.chain.getChainId(),
+        verifyingContract: poolLocator.address,
+      },
+      message: {
+        owner: dto.owner,
+        spender: dto.spender,
+        value: this.scaleAmount(dto.value, decimals) ?? dto.value,
+        nonce: String(nonceResponse.output),
+        deadline: dto.deadline,
+      },
+    };
   }
 
-  async getReceipt(id: string): Promise<EventStreamReply> {
-    const response = await this.wrapError(
-      lastValueFrom(
-        this.http.get<EventStreamReply>(`${this.baseUrl}/reply/${id}`, {
-          validateStatus: status => status < 300 || status === 404,
-          ...basicAuth(this.username, this.password),
-        }),
-      ),
+  transferWithAuthorization(dto: TokenTransferAuthorization): Promise<AsyncResponse> {
+    return this.idempotent('transferWithAuthorization', dto, async () =>
+      this.submit(dto.requestId, await this.prepareTransferWithAuthorization(dto)),
     );
-    if (response.status === 404) {
+  }
+
+  /**
+   * Check an EIP-3009 authorization before relaying it, so that requests which would
+   * revert on-chain are rejected without spending gas.
+   */
+  private async prepareTransferWithAuthorization(
+    dto: TokenTransferAuthorization,
+  ): Promise<PreparedTransaction> {
+    const poolLocator = this.getERC20Pool(dto.poolLocator, 'Authorized transfers');
+    const method = dto.method ?? TransferAuthorizationMethod.TRANSFER;
+    if (
+      method === TransferAuthorizationMethod.RECEIVE &&
+      dto.signer.toLowerCase() !== dto.to.toLowerCase()
+    ) {
+      throw new BadRequestException(`${method} must be submitted by the recipient`);
+    }
+
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    if (BigInt(dto.validAfter) >= now) {
+      throw new BadRequestException('Authorization is not valid yet');
+    }
+    if (BigInt(dto.validBefore) <= now) {
+      throw new BadRequestException('Authorization has expired');
+    }
+
+    const decimals = await this.getRequestDecimals(poolLocator, dto.useDecimals);
+    const message = {
+      from: dto.from,
+      to: dto.to,
+      value: this.scaleAmount(dto.value, decimals) ?? dto.value,
+      validAfter: dto.validAfter,
+      validBefore: dto.validBefore,
+      nonce: dto.nonce,
+    };
+
+    const separatorResponse = await this.query(poolLocator.address, domainSeparatorABI, []);
+    if (separatorResponse?.output === undefined) {
+      throw new NotFoundException('Unable to query token contract');
+    }
+    const primaryType = method.charAt(0).toUpperCase() + method.substring(1);
+    let authorizer: string;
+    try {
+      authorizer = recoverTypedDataSigner(
+        separatorResponse.output,
+        { [primaryType]: authorizationFields },
+        primaryType,
+        message,
+        { v: dto.v, r: dto.r, s: dto.s },
+      );
+    } catch (err) {
+      throw new BadRequestException('Invalid authorization signature');
+    }
+    if (authorizer.toLowerCase() !== dto.from.toLowerCase()) {
+      throw new BadRequestException(`Authorization was not signed by '${dto.from}'`);
+    }
+
+    return {
+      from: dto.signer,
+      to: poolLocator.address,
+      method: authorizationABIs.find(abi => abi.name === method),
+      params: [
+        message.from,
+        message.to,
+        message.value,
+        message.validAfter,
+        message.validBefore,
+        message.nonce,
+        dto.v,
+        dto.r,
+        dto.s,
+      ],
+    };
+  }
+
+  private getERC20Pool(packedPoolLocator: string, operation: string) {
+    const poolLocator = unpackPoolLocator(packedPoolLocator);
+    if (!validatePoolLocator(poolLocator)) {
+      throw new BadRequestException('Invalid pool locator');
+    }
+    if (poolLocator.type !== TokenType.FUNGIBLE || isMultiTokenSchema(poolLocator.schema)) {
+      throw new BadRequestException(`${operation} are only supported for ERC20 pools`);
+    }
+    return poolLocator;
+  }
+
+  async balance(dto: TokenBalanceQuery): Promise<TokenBalance> {
+    const poolLocator = unpackPoolLocator(dto.poolLocator);
+    if (!validatePoolLocator(poolLocator)) {
+      throw new BadRequestException('Invalid pool locator');
+    }
+
+    const schema = poolLocator.schema as ContractSchemaStrings;
+    if (isMultiTokenSchema(poolLocator.schema)) {
+      if (dto.tokenIndex === undefined) {
+        throw new BadRequestException('Token index must be specified for ERC1155 tokens');
+      }
+      const response = await this.query(poolLocator.address, this.getMethodAbi(schema, 'BALANCE'), [
+        dto.account,
+        dto.tokenIndex,
+      ]);
+      return { balance: response.output };
+    }
+
+    if (poolLocator.type === TokenType.NONFUNGIBLE && dto.tokenIndex !== undefined) {
+      // Balance of a single NFT is 1 if the account owns it, and 0 otherwise
+      const response = await this.query(poolLocator.address, this.getMethodAbi(schema, 'OWNER'), [
+        dto.tokenIndex,
+      ]);
+      const owner: string = response.output ?? '';
+      return { balance: owner.toLowerCase() === dto.account.toLowerCase() ? '1' : '0' };
+    }
+
+    const response = await this.query(poolLocator.address, this.getMethodAbi(schema, 'BALANCE'), [
+      dto.account,
+    ]);
+    return { balance: response.output };
+  }
+
+  /**
+   * Get the receipt for a request, optionally waiting for it to be received if it
+   * is not yet available.
+   */
+  async getReceipt(id: string, waitMs = 0): Promise<EventStreamReply> {
+    const stored = this.proxy.getReceipt(id);
+    if (stored !== undefined) {
+      return stored;
+    }
+    try {
+      return await this.connector.getReceipt(id);
+    } catch (err) {
+      if (!(err instanceof NotFoundException) || waitMs <= 0) {
+        throw err;
+      }
+    }
+    const receipt = await this.proxy.waitForReceipt(id, Math.min(waitMs, MAX_RECEIPT_WAIT));
+    if (receipt === undefined) {
       throw new NotFoundException();
     }
-    return response.data;
+    return receipt;
   }
 }
 
+interface TokenTransferDetails {
+  from: string;
+  to: string;
+  amount?: string;
+  formattedAmount?: string;
+  tokenIndex?: string;
+  uri?: string;
+}
+
 class TokenListener implements EventListener {
   private readonly logger = new Logger(TokenListener.name);
 
-  constructor(private readonly service: TokensService) {}
+  constructor(
+    private readonly service: TokensService,
+    private readonly confirmations: ConfirmationsService,
+    private readonly metrics: MetricsService,
+  ) {}
 
   async onEvent(subName: string, event: Event, process: EventProcessor) {
+    this.metrics.eventsProcessed.inc({ signature: event.signature });
+    if (event.signature !== tokenCreateEventSignature) {
+      // Hold token events until they have enough confirmations
+      if (!(await this.confirmations.waitForConfirmation(event))) {
+        return;
+      }
+    }
+    await this.transformEvent(subName, event, process);
+  }
+
+  /**
+   * Transform a blockchain event into the corresponding websocket message(s).
+   */
+  async transformEvent(subName: string, event: Event, process: EventProcessor) {
     switch (event.signature) {
       case tokenCreateEventSignature:
         process(await this.transformTokenPoolCreationEvent(subName, event));
@@ -766,6 +1847,14 @@ class TokenListener implements EventListener {
       case transferEventSignature:
         process(await this.transformTransferEvent(subName, event));
         break;
+      case transferSingleEventSignature:
+        process(await this.transformTransferSingleEvent(subName, event));
+        break;
+      case transferBatchEventSignature:
+        for (const message of await this.transformTransferBatchEvent(subName, event)) {
+          process(message);
+        }
+        break;
       case approvalEventSignature:
         process(this.transformApprovalEvent(subName, event));
         break;
@@ -781,17 +1870,21 @@ class TokenListener implements EventListener {
     tokenIdx: string,
     signer: string,
     contractAddress: string,
+    multiToken = false,
   ): Promise<string> {
-    const abiMethods = abiSchemaMap.get('ERC721WithData');
+    const abiMethods = abiSchemaMap.get(multiToken ? 'ERC1155WithData' : 'ERC721WithData');
     if (abiMethods === undefined) {
       // should not happen
       return '';
     }
 
-    const methodABI = abiMethods.find(method => method.name === 'tokenURI');
+    const uriMethod = multiToken ? 'uri' : 'tokenURI';
+    const methodABI = abiMethods.find(method => method.name === uriMethod);
     try {
-      const response = await this.service.query(contractAddress, methodABI, [tokenIdx]);
-      return response.output;
+      const response: EthConnectReturn = await this.service.query(contractAddress, methodABI, [
+        tokenIdx,
+      ]);
+      return response.output as string;
     } catch (e) {
       this.logger.log(`Burned tokens do not have a URI: ${e}`);
       return '';
@@ -800,17 +1893,23 @@ class TokenListener implements EventListener {
 
   /**
    * Generate an event ID in the recognized FireFly format for Ethereum
-   * (zero-padded block number, transaction index, and log index)
+   * (zero-padded block number, transaction index, and log index).
+   * Events that are split out of a single log (such as ERC1155 batch transfers)
+   * are further qualified by their index within the log.
    */
-  private formatBlockchainEventId(event: Event) {
+  private formatBlockchainEventId(event: Event, eventIndex?: number) {
     const blockNumber = event.blockNumber ?? '0';
     const txIndex = BigInt(event.transactionIndex).toString(10);
     const logIndex = event.logIndex ?? '0';
-    return [
+    const parts = [
       blockNumber.padStart(12, '0'),
       txIndex.padStart(6, '0'),
       logIndex.padStart(6, '0'),
-    ].join('/');
+    ];
+    if (eventIndex !== undefined) {
+      parts.push(eventIndex.toString(10).padStart(6, '0'));
+    }
+    return parts.join('/');
   }
 
   private stripParamsFromSignature(signature: string) {
@@ -874,7 +1973,6 @@ class TokenListener implements EventListener {
   ): Promise<WebSocketMessage | undefined> {
     const { data: output } = event;
     const unpackedSub = unpackSubscriptionName(this.service.topic, subName);
-    const decodedData = decodeHex(event.inputArgs?.data ?? '');
 
     if (output.from === ZERO_ADDRESS && output.to === ZERO_ADDRESS) {
       // should not happen
@@ -885,21 +1983,139 @@ class TokenListener implements EventListener {
       return undefined;
     }
 
-    const eventId = this.formatBlockchainEventId(event);
     const poolLocator = unpackPoolLocator(unpackedSub.poolLocator);
+    const transfer: TokenTransferDetails = {
+      from: output.from,
+      to: output.to,
+      amount: poolLocator.type === TokenType.FUNGIBLE ? output.value : '1',
+    };
+
+    if (poolLocator.type === TokenType.NONFUNGIBLE && output.tokenId !== undefined) {
+      transfer.tokenIndex = output.tokenId;
+      transfer.uri = await this.getTokenUri(
+        output.tokenId,
+        event.inputSigner ?? '',
+        poolLocator.address ?? '',
+      );
+    }
+
+    transfer.formattedAmount = await this.formatAmount(poolLocator, transfer.amount);
+    return this.buildTransferMessage(event, unpackedSub.poolLocator, transfer);
+  }
+
+  private async transformTransferSingleEvent(
+    subName: string,
+    event: TransferSingleEvent,
+    eventIndex?: number,
+  ): Promise<WebSocketMessage | undefined> {
+    const { data: output } = event;
+    const unpackedSub = unpackSubscriptionName(this.service.topic, subName);
+
+    if (output.from === ZERO_ADDRESS && output.to === ZERO_ADDRESS) {
+      // should not happen
+      return undefined;
+    }
+    if (unpackedSub.poolLocator === undefined) {
+      // should not happen
+      return undefined;
+    }
+
+    const poolLocator = unpackPoolLocator(unpackedSub.poolLocator);
+    const transfer: TokenTransferDetails = {
+      from: output.from,
+      to: output.to,
+      amount: output.value,
+      tokenIndex: output.id,
+      uri: await this.getTokenUri(
+        output.id,
+        event.inputSigner ?? '',
+        poolLocator.address ?? '',
+        true,
+      ),
+    };
+
+    transfer.formattedAmount = await this.formatAmount(poolLocator, transfer.amount);
+    return this.buildTransferMessage(event, unpackedSub.poolLocator, transfer, eventIndex);
+  }
+
+  /**
+   * Split a batch transfer into one transfer message for each token ID.
+   */
+  private async transformTransferBatchEvent(
+    subName: string,
+    event: TransferBatchEvent,
+  ): Promise<(WebSocketMessage | undefined)[]> {
+    const { data: output } = event;
+    const messages: (WebSocketMessage | undefined)[] = [];
+    for (let i = 0; i < output.ids.length; i++) {
+      const singleEvent: TransferSingleEvent = {
+        ...event,
+        data: {
+          operator: output.operator,
+          from: output.from,
+          to: output.to,
+          id: output.ids[i],
+          value: output.values[i],
+        },
+      };
+      messages.push(await this.transformTransferSingleEvent(subName, singleEvent, i));
+    }
+    return messages;
+  }
+
+  /**
+   * Format the amount of a fungible transfer as a decimal string, if enabled.
+   */
+  private async formatAmount(poolLocator: IPoolLocator, amount?: string) {
+    if (
+      !this.service.formatAmounts ||
+      amount === undefined ||
+      !validatePoolLocator(poolLocator) ||
+      poolLocator.type !== TokenType.FUNGIBLE
+    ) {
+      return undefined;
+    }
+    try {
+      return formatDecimalAmount(amount, await this.service.getDecimals(poolLocator));
+    } catch (err) {
+      this.logger.warn(`Failed to format amount for pool ${poolLocator.address}: ${err}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Relayed EIP-3009 transfers are signed by the holder, and only submitted by the relayer.
+   */
+  private getTransferSigner(event: Event): string | undefined {
+    if (
+      event.inputMethod === TransferAuthorizationMethod.TRANSFER ||
+      event.inputMethod === TransferAuthorizationMethod.RECEIVE
+    ) {
+      return (event.inputArgs?.from as string | undefined) ?? event.inputSigner;
+    }
+    return event.inputSigner;
+  }
+
+  private buildTransferMessage(
+    event: Event,
+    poolLocator: string,
+    transfer: TokenTransferDetails,
+    eventIndex?: number,
+  ): WebSocketMessage {
+    const eventId = this.formatBlockchainEventId(event, eventIndex);
     const commonData = {
       id: eventId,
-      poolLocator: unpackedSub.poolLocator,
-      amount: poolLocator.type === TokenType.FUNGIBLE ? output.value : '1',
-      signer: event.inputSigner,
-      data: decodedData,
+      poolLocator,
+      amount: transfer.amount,
+      signer: this.getTransferSigner(event),
+      data: decodeHex(event.inputArgs?.data ?? ''),
       blockchain: {
         id: eventId,
         name: this.stripParamsFromSignature(event.signature),
         location: 'address=' + event.address,
         signature: event.signature,
         timestamp: event.timestamp,
-        output,
+        output: event.data,
         info: {
           address: event.address,
           blockNumber: event.blockNumber,
@@ -911,29 +2127,29 @@ class TokenListener implements EventListener {
       },
     } as TokenTransferEvent;
 
-    if (poolLocator.type === TokenType.NONFUNGIBLE && output.tokenId !== undefined) {
-      commonData.tokenIndex = output.tokenId;
-      commonData.uri = await this.getTokenUri(
-        output.tokenId,
-        event.inputSigner ?? '',
-        poolLocator.address ?? '',
-      );
+    if (transfer.formattedAmount !== undefined) {
+      commonData.formattedAmount = transfer.formattedAmount;
+    }
+
+    if (transfer.tokenIndex !== undefined) {
+      commonData.tokenIndex = transfer.tokenIndex;
+      commonData.uri = transfer.uri;
     }
 
-    if (output.from === ZERO_ADDRESS) {
+    if (transfer.from === ZERO_ADDRESS) {
       return {
         event: 'token-mint',
-        data: { ...commonData, to: output.to } as TokenMintEvent,
+        data: { ...commonData, to: transfer.to } as TokenMintEvent,
       };
-    } else if (output.to === ZERO_ADDRESS) {
+    } else if (transfer.to === ZERO_ADDRESS) {
       return {
         event: 'token-burn',
-        data: { ...commonData, from: output.from } as TokenBurnEvent,
+        data: { ...commonData, from: transfer.from } as TokenBurnEvent,
       };
     } else {
       return {
         event: 'token-transfer',
-        data: { ...commonData, from: output.from, to: output.to } as TokenTransferEvent,
+        data: { ...commonData, from: transfer.from, to: transfer.to } as TokenTransferEvent,
       };
     }
   }
@@ -1001,9 +2217,11 @@ class TokenListener implements EventListener {
 
   private transformApprovalForAllEvent(
     subName: string,
-    event: ApprovalForAllEvent,
+    event: ApprovalForAllEvent | ERC1155ApprovalForAllEvent,
   ): WebSocketMessage | undefined {
     const { data: output } = event;
+    // ERC1155 names the token holder "account" rather than "owner"
+    const owner = 'account' in output ? output.account : output.owner;
     const unpackedSub = unpackSubscriptionName(this.service.topic, subName);
     const decodedData = decodeHex(event.inputArgs?.data ?? '');
 
@@ -1017,11 +2235,11 @@ class TokenListener implements EventListener {
       event: 'token-approval',
       data: <TokenApprovalEvent>{
         id: eventId,
-        subject: `${output.owner}:${output.operator}`,
+        subject: `${owner}:${output.operator}`,
         poolLocator: unpackedSub.poolLocator,
         operator: output.operator,
         approved: output.approved,
-        signer: output.owner,
+        signer: owner,
         data: decodedData,
         info: output,
         blockchain: {
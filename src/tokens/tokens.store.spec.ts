@@ -0,0 +1,76 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileIdempotencyStore, MemoryIdempotencyStore } from './tokens.store';
+
+describe('MemoryIdempotencyStore', () => {
+  it('should return saved records', async () => {
+    const store = new MemoryIdempotencyStore();
+    expect(await store.get('req1')).toBeUndefined();
+
+    await store.set('req1', { hash: 'abc', response: { id: 'req1' } });
+    expect(await store.get('req1')).toEqual({ hash: 'abc', response: { id: 'req1' } });
+  });
+
+  it('should evict the oldest records', async () => {
+    const store = new MemoryIdempotencyStore(2);
+    await store.set('req1', { hash: '1', response: { id: 'req1' } });
+    await store.set('req2', { hash: '2', response: { id: 'req2' } });
+    await store.set('req3', { hash: '3', response: { id: 'req3' } });
+
+    expect(await store.get('req1')).toBeUndefined();
+    expect(await store.get('req2')).toBeDefined();
+    expect(await store.get('req3')).toBeDefined();
+  });
+});
+
+describe('FileIdempotencyStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'idempotency-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true });
+  });
+
+  it('should keep request IDs across a restart', async () => {
+    const file = path.join(dir, 'nested', 'requests.json');
+    await new FileIdempotencyStore(file).set('req1', { hash: 'abc', response: { id: 'req1' } });
+
+    const restarted = new FileIdempotencyStore(file);
+    expect(await restarted.get('req1')).toEqual({ hash: 'abc', response: { id: 'req1' } });
+    expect(await restarted.get('req2')).toBeUndefined();
+    expect(fs.existsSync(`${file}.tmp`)).toBe(false);
+  });
+
+  it('should evict the oldest records', async () => {
+    const file = path.join(dir, 'requests.json');
+    const store = new FileIdempotencyStore(file, 2);
+    await store.set('req1', { hash: '1', response: { id: 'req1' } });
+    await store.set('req2', { hash: '2', response: { id: 'req2' } });
+    await store.set('req3', { hash: '3', response: { id: 'req3' } });
+
+    const restarted = new FileIdempotencyStore(file, 2);
+    expect(await restarted.get('req1')).toBeUndefined();
+    expect(await restarted.get('req2')).toBeDefined();
+    expect(await restarted.get('req3')).toBeDefined();
+  });
+});
@@ -0,0 +1,98 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Logger } from '@nestjs/common';
+import { JsonFileStore } from '../utils';
+import { IdempotencyRecord, IdempotencyStore } from './tokens.interfaces';
+
+const DEFAULT_MAX_RECORDS = 10000;
+
+/**
+ * Non-durable store of request IDs that have already been submitted.
+ *
+ * Only the most recent records are kept; the oldest are evicted once the limit is reached.
+ */
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+
+  constructor(private readonly maxRecords = DEFAULT_MAX_RECORDS) {}
+
+  get(requestId: string) {
+    return Promise.resolve(this.records.get(requestId));
+  }
+
+  set(requestId: string, record: IdempotencyRecord) {
+    this.records.delete(requestId);
+    this.records.set(requestId, record);
+    while (this.records.size > this.maxRecords) {
+      const oldest = this.records.keys().next().value as string;
+      this.records.delete(oldest);
+    }
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Store that persists submitted request IDs to a JSON file, so that retries are still
+ * recognized after a restart.
+ *
+ * Records are evicted in the same way as MemoryIdempotencyStore, and the file is rewritten
+ * on each change.
+ */
+export class FileIdempotencyStore implements IdempotencyStore {
+  private readonly logger = new Logger(FileIdempotencyStore.name);
+  private readonly json: JsonFileStore<[string, IdempotencyRecord][]>;
+  private records?: Promise<Map<string, IdempotencyRecord>>;
+
+  constructor(file: string, private readonly maxRecords = DEFAULT_MAX_RECORDS) {
+    this.json = new JsonFileStore(file);
+  }
+
+  async get(requestId: string) {
+    const records = await this.load();
+    return records.get(requestId);
+  }
+
+  async set(requestId: string, record: IdempotencyRecord) {
+    const records = await this.load();
+    records.delete(requestId);
+    records.set(requestId, record);
+    while (records.size > this.maxRecords) {
+      const oldest = records.keys().next().value as string;
+      records.delete(oldest);
+    }
+
+    return this.json.write([...records.entries()]);
+  }
+
+  private load() {
+    if (this.records === undefined) {
+      this.records = this.read().then(entries => new Map(entries));
+      // Allow a failed read to be retried on the next request
+      this.records.catch(() => (this.records = undefined));
+    }
+    return this.records;
+  }
+
+  private async read() {
+    try {
+      return (await this.json.read()) ?? [];
+    } catch (err) {
+      this.logger.error(`Failed to read request IDs from '${this.json.file}': ${err}`);
+      throw err;
+    }
+  }
+}
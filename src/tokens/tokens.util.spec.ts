@@ -14,12 +14,19 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { splitSignature } from '@ethersproject/bytes';
+import { _TypedDataEncoder } from '@ethersproject/hash';
+import { Wallet } from '@ethersproject/wallet';
 import { IPoolLocator, TokenType } from './tokens.interfaces';
 import {
   decodeHex,
   encodeHex,
+  formatDecimalAmount,
+  hashRequest,
   packPoolLocator,
   packSubscriptionName,
+  parseDecimalAmount,
+  recoverTypedDataSigner,
   unpackPoolLocator,
   unpackSubscriptionName,
 } from './tokens.util';
@@ -38,6 +45,40 @@ describe('Util', () => {
     expect(decodeHex('0x00')).toEqual('');
   });
 
+  it('parseDecimalAmount', () => {
+    expect(parseDecimalAmount('12.5', 18)).toEqual('12500000000000000000');
+    expect(parseDecimalAmount('12', 2)).toEqual('1200');
+    expect(parseDecimalAmount('0.01', 2)).toEqual('1');
+    expect(parseDecimalAmount('.5', 1)).toEqual('5');
+    expect(parseDecimalAmount('5.', 1)).toEqual('50');
+    expect(parseDecimalAmount('1.500', 1)).toEqual('15');
+    expect(parseDecimalAmount('7', 0)).toEqual('7');
+    expect(parseDecimalAmount('0.001', 2)).toBeUndefined();
+    expect(parseDecimalAmount('1.5', 0)).toBeUndefined();
+    expect(parseDecimalAmount('-1', 2)).toBeUndefined();
+    expect(parseDecimalAmount('1e5', 2)).toBeUndefined();
+    expect(parseDecimalAmount('', 2)).toBeUndefined();
+    expect(parseDecimalAmount('.', 2)).toBeUndefined();
+  });
+
+  it('formatDecimalAmount', () => {
+    expect(formatDecimalAmount('12500000000000000000', 18)).toEqual('12.5');
+    expect(formatDecimalAmount('1200', 2)).toEqual('12');
+    expect(formatDecimalAmount('1', 2)).toEqual('0.01');
+    expect(formatDecimalAmount('0', 2)).toEqual('0');
+    expect(formatDecimalAmount('7', 0)).toEqual('7');
+  });
+
+  it('hashRequest', () => {
+    const hash = hashRequest('mint', { to: 'A', amount: '5', config: { a: 1, b: 2 } });
+    expect(hashRequest('mint', { config: { b: 2, a: 1 }, amount: '5', to: 'A' })).toEqual(hash);
+    expect(
+      hashRequest('mint', { to: 'A', amount: '5', config: { a: 1, b: 2 }, data: undefined }),
+    ).toEqual(hash);
+    expect(hashRequest('burn', { to: 'A', amount: '5', config: { a: 1, b: 2 } })).not.toEqual(hash);
+    expect(hashRequest('mint', { to: 'A', amount: '6', config: { a: 1, b: 2 } })).not.toEqual(hash);
+  });
+
   it('packSubscriptionName', () => {
     expect(packSubscriptionName('token', '0x123456')).toEqual('token:0x123456');
     expect(packSubscriptionName('token', '0x123456', 'create')).toEqual('token:0x123456:create');
@@ -97,4 +138,25 @@ describe('Util', () => {
       type: TokenType.FUNGIBLE,
     });
   });
+
+  it('recoverTypedDataSigner', async () => {
+    const wallet = new Wallet('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+    const domain = {
+      name: 'Token',
+      version: '1',
+      chainId: 1337,
+      verifyingContract: '0x5bb034ca2fd1ac18e46978a7bbdbe4923e158d83',
+    };
+    const types = { Mail: [{ name: 'contents', type: 'string' }] };
+    const message = { contents: 'hello' };
+    const signature = splitSignature(await wallet._signTypedData(domain, types, message));
+
+    const domainSeparator = _TypedDataEncoder.hashDomain(domain);
+    expect(recoverTypedDataSigner(domainSeparator, types, 'Mail', message, signature)).toEqual(
+      wallet.address,
+    );
+    expect(
+      recoverTypedDataSigner(domainSeparator, types, 'Mail', { contents: 'bye' }, signature),
+    ).not.toEqual(wallet.address);
+  });
 });
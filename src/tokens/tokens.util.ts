@@ -14,6 +14,11 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { createHash } from 'crypto';
+import { concat } from '@ethersproject/bytes';
+import { _TypedDataEncoder } from '@ethersproject/hash';
+import { keccak256 } from '@ethersproject/keccak256';
+import { recoverAddress } from '@ethersproject/transactions';
 import {
   EncodedPoolLocatorEnum,
   IPoolLocator,
@@ -40,6 +45,37 @@ export function decodeHex(data: string) {
   return decoded === '\x00' ? '' : decoded;
 }
 
+/**
+ * Scale a decimal amount (such as "12.5") to an integer number of base units for a token
+ * with the given number of decimals. Returns undefined if the amount is not a valid decimal,
+ * or has more decimal places than the token supports.
+ */
+export function parseDecimalAmount(amount: string, decimals: number): string | undefined {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(amount);
+  if (match === null || match[0] === '' || match[0] === '.') {
+    return undefined;
+  }
+  const whole = match[1];
+  const fraction = (match[2] ?? '').replace(/0+$/, '');
+  if (fraction.length > decimals) {
+    return undefined;
+  }
+  return BigInt(whole + fraction.padEnd(decimals, '0')).toString();
+}
+
+/**
+ * Format an integer number of base units as a decimal string for a token with the
+ * given number of decimals (the inverse of parseDecimalAmount).
+ */
+export function formatDecimalAmount(amount: string, decimals: number): string {
+  const digits = BigInt(amount)
+    .toString()
+    .padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return fraction === '' ? whole : `${whole}.${fraction}`;
+}
+
 export function packSubscriptionName(prefix: string, poolLocator: string, event?: string) {
   if (event === undefined) {
     return [prefix, poolLocator].join(':');
@@ -87,13 +123,70 @@ export function unpackPoolLocator(data: string): IPoolLocator {
   };
 }
 
-export function getTokenSchema(type: TokenType, withData = true): string {
+export function getTokenSchema(type: TokenType, withData = true, multiToken = false): string {
+  if (multiToken) {
+    return withData ? 'ERC1155WithData' : 'ERC1155NoData';
+  }
   if (type === TokenType.FUNGIBLE) {
     return withData ? 'ERC20WithData' : 'ERC20NoData';
   }
   return withData ? 'ERC721WithData' : 'ERC721NoData';
 }
 
+/**
+ * Check if a schema describes an ERC1155 multi-token contract (which may hold both
+ * fungible and non-fungible token ids).
+ */
+export function isMultiTokenSchema(schema: string) {
+  return schema.startsWith('ERC1155');
+}
+
+export function getTokenStandard(type: TokenType, schema: string) {
+  if (isMultiTokenSchema(schema)) {
+    return 'ERC1155';
+  }
+  return type === TokenType.FUNGIBLE ? 'ERC20' : 'ERC721';
+}
+
 export function validatePoolLocator(poolLocator: IPoolLocator): poolLocator is IValidPoolLocator {
   return poolLocator.address !== null && poolLocator.schema !== null && poolLocator.type !== null;
 }
+
+/**
+ * Compute a stable hash of a request body (independent of the order of object keys),
+ * for detecting whether a repeated request ID refers to the same request.
+ */
+export function hashRequest(operation: string, body: unknown) {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(canonical);
+    }
+    if (value !== null && typeof value === 'object') {
+      const entries = Object.entries(value as Record<string, unknown>);
+      return entries
+        .filter(([, item]) => item !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, item]) => [key, canonical(item)]);
+    }
+    return value;
+  };
+  return createHash('sha256')
+    .update(JSON.stringify([operation, canonical(body)]))
+    .digest('hex');
+}
+
+/**
+ * Recover the account that signed an EIP-712 message, given the domain separator
+ * reported by the verifying contract.
+ */
+export function recoverTypedDataSigner(
+  domainSeparator: string,
+  types: Record<string, { name: string; type: string }[]>,
+  primaryType: string,
+  message: Record<string, any>,
+  signature: { v: number; r: string; s: string },
+) {
+  const structHash = _TypedDataEncoder.hashStruct(primaryType, types, message);
+  const digest = keccak256(concat(['0x1901', domainSeparator, structHash]));
+  return recoverAddress(digest, signature);
+}
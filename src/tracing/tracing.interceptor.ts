@@ -0,0 +1,73 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { context, SpanKind, SpanStatusCode, trace } from '@opentelemetry/api';
+import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
+import { Request, Response } from 'express';
+import { Observable, throwError } from 'rxjs';
+import { catchError, finalize, tap } from 'rxjs/operators';
+import { TracingService } from './tracing.service';
+
+/**
+ * Wraps each route of a controller in a server span, which is active while the handler runs.
+ */
+@Injectable()
+export class TracingInterceptor implements NestInterceptor {
+  constructor(private readonly tracing: TracingService) {}
+
+  intercept(executionContext: ExecutionContext, next: CallHandler): Observable<any> {
+    const request: Request = executionContext.switchToHttp().getRequest();
+    const route = executionContext.getHandler().name;
+    return new Observable(subscriber => {
+      const span = this.tracing.startSpan(
+        `${request.method} ${route}`,
+        {
+          [SemanticAttributes.HTTP_METHOD]: request.method,
+          [SemanticAttributes.HTTP_ROUTE]: route,
+        },
+        SpanKind.SERVER,
+      );
+      return context.with(trace.setSpan(context.active(), span), () =>
+        next
+          .handle()
+          .pipe(
+            tap(() => {
+              const response: Response = executionContext.switchToHttp().getResponse();
+              span.setAttribute(SemanticAttributes.HTTP_STATUS_CODE, response.statusCode);
+            }),
+            catchError((error: unknown) => {
+              if (error instanceof HttpException) {
+                span.setAttribute(SemanticAttributes.HTTP_STATUS_CODE, error.getStatus());
+                span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+              } else {
+                this.tracing.recordError(span, error);
+              }
+              return throwError(() => error);
+            }),
+            finalize(() => span.end()),
+          )
+          .subscribe(subscriber),
+      );
+    });
+  }
+}
@@ -0,0 +1,78 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Test, TestingModule } from '@nestjs/testing';
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-base';
+import { TracingService } from './tracing.service';
+
+describe('TracingService', () => {
+  let service: TracingService;
+  let exporter: InMemorySpanExporter;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [TracingService],
+    }).compile();
+
+    service = module.get<TracingService>(TracingService);
+    exporter = new InMemorySpanExporter();
+  });
+
+  it('should not record spans when not configured', async () => {
+    await service.trace('op', {}, () => {
+      service.linkRequest('req1');
+      return Promise.resolve();
+    });
+    expect(service.requestContext('req1')).toBeUndefined();
+  });
+
+  it('should nest spans under the active span', async () => {
+    service.configure('test', '', exporter);
+    await service.trace('parent', {}, () => service.trace('child', {}, () => Promise.resolve()));
+
+    const [child, parent] = exporter.getFinishedSpans();
+    expect(child.name).toEqual('child');
+    expect(parent.name).toEqual('parent');
+    expect(child.parentSpanId).toEqual(parent.spanContext().spanId);
+    expect(child.spanContext().traceId).toEqual(parent.spanContext().traceId);
+  });
+
+  it('should record errors', async () => {
+    service.configure('test', '', exporter);
+    await expect(service.trace('op', {}, () => Promise.reject(new Error('pop')))).rejects.toThrow(
+      'pop',
+    );
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.status.message).toEqual('Error: pop');
+    expect(span.events[0].name).toEqual('exception');
+  });
+
+  it('should continue a request trace for its transaction', async () => {
+    service.configure('test', '', exporter);
+    await service.trace('request', {}, () => {
+      service.linkRequest('req1');
+      return Promise.resolve();
+    });
+    service.linkTransaction('req1', '0x123');
+    service.traceSync('event', {}, () => undefined, service.transactionContext('0x123'));
+
+    const [request, event] = exporter.getFinishedSpans();
+    expect(event.parentSpanId).toEqual(request.spanContext().spanId);
+    expect(event.spanContext().traceId).toEqual(request.spanContext().traceId);
+    expect(service.transactionContext('0x999')).toBeUndefined();
+  });
+});
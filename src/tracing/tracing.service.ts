@@ -0,0 +1,180 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Injectable, Logger, OnApplicationShutdown } from '@nestjs/common';
+import {
+  Attributes,
+  context,
+  Context,
+  ROOT_CONTEXT,
+  Span,
+  SpanContext,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  Tracer,
+} from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { Resource } from '@opentelemetry/resources';
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  SimpleSpanProcessor,
+  SpanExporter,
+} from '@opentelemetry/sdk-trace-base';
+import { SemanticResourceAttributes } from '@opentelemetry/semantic-conventions';
+
+const TRACER_NAME = 'firefly-tokens';
+const MAX_LINKS = 10000;
+
+/**
+ * Bounded map that evicts the oldest entry once full.
+ */
+class LinkMap extends Map<string, SpanContext> {
+  set(key: string, value: SpanContext) {
+    this.delete(key);
+    super.set(key, value);
+    if (this.size > MAX_LINKS) {
+      this.delete(this.keys().next().value);
+    }
+    return this;
+  }
+}
+
+@Injectable()
+export class TracingService implements OnApplicationShutdown {
+  private readonly logger = new Logger(TracingService.name);
+
+  private provider?: BasicTracerProvider;
+  private tracer: Tracer = trace.getTracer(TRACER_NAME);
+  private requests = new LinkMap();
+  private transactions = new LinkMap();
+
+  /**
+   * Enable tracing. Spans are sent to the given exporter if one is provided (ie for tests),
+   * otherwise to the OTLP/HTTP endpoint if one is configured.
+   */
+  configure(serviceName: string, otlpEndpoint = '', exporter?: SpanExporter) {
+    if (exporter === undefined && otlpEndpoint === '') {
+      return;
+    }
+    context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+    this.provider = new BasicTracerProvider({
+      resource: new Resource({ [SemanticResourceAttributes.SERVICE_NAME]: serviceName }),
+    });
+    if (exporter !== undefined) {
+      this.provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+    } else {
+      this.provider.addSpanProcessor(
+        new BatchSpanProcessor(new OTLPTraceExporter({ url: otlpEndpoint })),
+      );
+      this.logger.log(`Exporting traces to ${otlpEndpoint}`);
+    }
+    this.tracer = this.provider.getTracer(TRACER_NAME);
+  }
+
+  async onApplicationShutdown() {
+    await this.provider?.shutdown();
+  }
+
+  startSpan(name: string, attributes: Attributes, kind = SpanKind.INTERNAL, parent?: Context) {
+    return this.tracer.startSpan(name, { attributes, kind }, parent ?? context.active());
+  }
+
+  /**
+   * Run an operation inside a new span, which is made the active span for the duration
+   * of the operation. If no parent is given, the currently active span is used.
+   */
+  async trace<T>(
+    name: string,
+    attributes: Attributes,
+    operation: (span: Span) => Promise<T>,
+    parent?: Context,
+  ): Promise<T> {
+    const span = this.startSpan(name, attributes, SpanKind.INTERNAL, parent);
+    try {
+      return await context.with(trace.setSpan(parent ?? context.active(), span), () =>
+        operation(span),
+      );
+    } catch (err) {
+      this.recordError(span, err);
+      throw err;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Synchronous version of trace().
+   */
+  traceSync<T>(
+    name: string,
+    attributes: Attributes,
+    operation: (span: Span) => T,
+    parent?: Context,
+  ): T {
+    const span = this.startSpan(name, attributes, SpanKind.INTERNAL, parent);
+    try {
+      return context.with(trace.setSpan(parent ?? context.active(), span), () => operation(span));
+    } catch (err) {
+      this.recordError(span, err);
+      throw err;
+    } finally {
+      span.end();
+    }
+  }
+
+  recordError(span: Span, err: unknown) {
+    span.recordException(err instanceof Error ? err : String(err));
+    span.setStatus({ code: SpanStatusCode.ERROR, message: String(err) });
+  }
+
+  /**
+   * Remember the active trace for a request ID, so that the receipt and events
+   * resulting from the request can be added to the same trace.
+   */
+  linkRequest(requestId: string) {
+    const spanContext = trace.getSpanContext(context.active());
+    if (spanContext !== undefined && trace.isSpanContextValid(spanContext)) {
+      this.requests.set(requestId, spanContext);
+    }
+  }
+
+  /**
+   * Associate a transaction with the trace of the request that submitted it.
+   */
+  linkTransaction(requestId: string, transactionHash: string) {
+    const spanContext = this.requests.get(requestId);
+    if (spanContext !== undefined) {
+      this.transactions.set(transactionHash, spanContext);
+    }
+  }
+
+  requestContext(requestId?: string) {
+    return this.toContext(requestId !== undefined ? this.requests.get(requestId) : undefined);
+  }
+
+  transactionContext(transactionHash?: string) {
+    return this.toContext(
+      transactionHash !== undefined ? this.transactions.get(transactionHash) : undefined,
+    );
+  }
+
+  private toContext(spanContext?: SpanContext) {
+    return spanContext !== undefined ? trace.setSpanContext(ROOT_CONTEXT, spanContext) : undefined;
+  }
+}
@@ -0,0 +1,42 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Controller, Get, Query, UseGuards, UseInterceptors } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiSecurity } from '@nestjs/swagger';
+import { AuthGuard } from '../auth/auth.guard';
+import { MetricsInterceptor } from '../metrics/metrics.interceptor';
+import { TracingInterceptor } from '../tracing/tracing.interceptor';
+import { ManagedTransaction, TransactionQuery } from './transactions.interfaces';
+import { TransactionsService } from './transactions.service';
+
+@Controller('transactions')
+@UseGuards(AuthGuard)
+@UseInterceptors(MetricsInterceptor, TracingInterceptor)
+@ApiSecurity('api_key')
+@ApiBearerAuth()
+export class TransactionsController {
+  constructor(private readonly transactions: TransactionsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List pending and recently completed transactions',
+    description: 'Only available when transactions are submitted with the JSON-RPC connector',
+  })
+  @ApiResponse({ status: 200, type: [ManagedTransaction] })
+  getTransactions(@Query() query: TransactionQuery) {
+    return this.transactions.getTransactions(query.signer);
+  }
+}
@@ -0,0 +1,96 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional } from 'class-validator';
+
+export type JsonRpcCall = <T>(method: string, params?: any[]) => Promise<T>;
+
+export enum TransactionStatus {
+  PENDING = 'pending',
+  CONFIRMED = 'confirmed',
+  FAILED = 'failed',
+}
+
+/**
+ * A transaction submitted directly to the node, tracked until it is mined.
+ */
+export class ManagedTransaction {
+  @ApiProperty()
+  requestId: string;
+
+  @ApiProperty()
+  signer: string;
+
+  @ApiProperty()
+  nonce: number;
+
+  @ApiProperty()
+  to: string;
+
+  @ApiProperty()
+  data: string;
+
+  @ApiProperty()
+  gasLimit: string;
+
+  @ApiProperty({ description: 'Gas price of legacy transactions' })
+  gasPrice?: string;
+
+  @ApiProperty({ description: 'Fee cap of EIP-1559 transactions' })
+  maxFeePerGas?: string;
+
+  @ApiProperty({ description: 'Priority fee of EIP-1559 transactions' })
+  maxPriorityFeePerGas?: string;
+
+  @ApiProperty({ enum: TransactionStatus })
+  status: TransactionStatus;
+
+  @ApiProperty({
+    description: 'Hash of the latest submission, or of the submission that was mined',
+  })
+  hash: string;
+
+  @ApiProperty({ description: 'Hashes of every submission, including those replaced by fee bumps' })
+  hashes: string[];
+
+  @ApiProperty()
+  blockNumber?: string;
+
+  @ApiProperty()
+  errorMessage?: string;
+
+  @ApiProperty({ description: 'Set for no-op transactions sent to fill a gap in the nonces' })
+  gapFill?: boolean;
+
+  @ApiProperty()
+  created: string;
+
+  @ApiProperty()
+  lastSubmitted: string;
+}
+
+export class TransactionQuery {
+  @ApiProperty()
+  @IsOptional()
+  @IsNotEmpty()
+  signer?: string;
+}
+
+export interface TransactionStore {
+  load(): Promise<ManagedTransaction[] | undefined>;
+  save(transactions: ManagedTransaction[]): Promise<void>;
+}
@@ -0,0 +1,243 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+import { BadRequestException } from '@nestjs/common';
+import { JsonRpcReceipt } from '../connector/connector.interfaces';
+import { JsonRpcError } from '../connector/jsonrpc.client';
+import { JsonRpcCall, TransactionStatus } from './transactions.interfaces';
+import { TransactionManager } from './transactions.manager';
+import { MemoryTransactionStore } from './transactions.store';
+
+const SIGNER = '0xb107ed9caa1323b7bc36e81995a4658ec2251951';
+const CONTRACT_ADDRESS = '0x123456789abcdef0123456789abcdef012345678';
+
+/**
+ * Minimal fake of the JSON-RPC methods used by the manager.
+ */
+class FakeNode {
+  pendingNonce = 0;
+  latestNonce = 0;
+  sent: Record<string, string>[] = [];
+  receipts = new Map<string, JsonRpcReceipt>();
+
+  rpc = jest.fn((method: string, params: any[] = []): Promise<unknown> => {
+    switch (method) {
+      case 'eth_getTransactionCount':
+        return Promise.resolve(
+          '0x' + (params[1] === 'pending' ? this.pendingNonce : this.latestNonce).toString(16),
+        );
+      case 'eth_estimateGas':
+        return Promise.resolve('0x5208');
+      case 'eth_getBlockByNumber':
+        return Promise.resolve({ number: '0x1', baseFeePerGas: '0x64' });
+      case 'eth_maxPriorityFeePerGas':
+        return Promise.resolve('0xa');
+      case 'eth_sendTransaction':
+        this.sent.push(params[0]);
+        return Promise.resolve(this.hash(this.sent.length));
+      case 'eth_getTransactionReceipt':
+        return Promise.resolve(this.receipts.get(params[0]) ?? null);
+    }
+    return Promise.reject(new Error(`Unexpected method ${method}`));
+  });
+
+  hash(index: number) {
+    return '0x' + index.toString(16).padStart(64, '0');
+  }
+
+  mine(index: number, status = '0x1') {
+    const hash = this.hash(index);
+    this.receipts.set(hash, { transactionHash: hash, blockNumber: '0x10', status });
+  }
+}
+
+describe('TransactionManager', () => {
+  let node: FakeNode;
+
+  const newManager = (stuckTimeout?: number) =>
+    new TransactionManager(node.rpc as unknown as JsonRpcCall, stuckTimeout);
+
+  beforeEach(() => {
+    node = new FakeNode();
+  });
+
+  it('should allocate nonces in order for concurrent submissions', async () => {
+    node.pendingNonce = 3;
+    const manager = newManager();
+
+    await Promise.all([
+      manager.submit('req-1', SIGNER, CONTRACT_ADDRESS, '0x01'),
+      manager.submit('req-2', SIGNER, CONTRACT_ADDRESS, '0x02'),
+      manager.submit('req-3', SIGNER, CONTRACT_ADDRESS, '0x03'),
+    ]);
+
+    expect(node.sent.map(tx => tx.nonce)).toEqual(['0x3', '0x4', '0x5']);
+    expect(node.sent[0]).toEqual({
+      from: SIGNER,
+      to: CONTRACT_ADDRESS,
+      data: '0x01',
+      nonce: '0x3',
+      gas: '0x5208',
+      maxFeePerGas: '0xd2',
+      maxPriorityFeePerGas: '0xa',
+    });
+    await expect(manager.submit('req-1', SIGNER, CONTRACT_ADDRESS, '0x01')).rejects.toThrow(
+      "A transaction was already submitted for request 'req-1'",
+    );
+  });
+
+  it('should reject concurrent submissions of the same request', async () => {
+    const manager = newManager();
+
+    const first = manager.submit('req-1', SIGNER, CONTRACT_ADDRESS, '0x01');
+    const second = manager.submit('req-1', SIGNER, CONTRACT_ADDRESS, '0x01');
+
+    await expect(second).rejects.toThrow("A transaction was already submitted for request 'req-1'");
+    await first;
+    expect(node.sent).toHaveLength(1);
+  });
+
+  it('should not check a stuck signer while it is submitting', async () => {
+    const manager = newManager(0);
+    await manager.submit('req-1', SIGNER, CONTRACT_ADDRESS, '0x01');
+
+    const submitted = manager.submit('req-2', SIGNER, CONTRACT_ADDRESS, '0x02');
+    await manager.checkPending();
+    await submitted;
+
+    // The stuck transaction is only resubmitted once the new submission has been sent
+    expect(node.sent.map(tx => [tx.data, tx.nonce])).toEqual([
+      ['0x01', '0x0'],
+      ['0x02', '0x1'],
+      ['0x01', '0x0'],
+    ]);
+  });
+
+  it('should reject transactions that fail gas estimation', async () => {
+    const manager = newManager();
+    node.rpc.mockImplementationOnce(() => Promise.resolve('0x0'));
+    node.rpc.mockImplementationOnce(() =>
+      Promise.reject(
+        new JsonRpcError('eth_estimateGas', { code: 3, message: 'execution reverted: Paused' }),
+      ),
+    );
+
+    const submitted = manager.submit('req-1', SIGNER, CONTRACT_ADDRESS, '0x01');
+    await expect(submitted).rejects.toThrow(BadRequestException);
+    await expect(submitted).rejects.toThrow('execution reverted: Paused');
+    expect(node.sent).toEqual([]);
+  });
+
+  it('should reuse the nonce of a failed submission', async () => {
+    const manager = newManager();
+    node.rpc.mockImplementationOnce(() => Promise.resolve('0x0'));
+    node.rpc.mockImplementationOnce(() => Promise.resolve('0x5208'));
+    node.rpc.mockImplementationOnce(() => Promise.resolve({ number: '0x1' }));
+    node.rpc.mockImplementationOnce(() => Promise.resolve('0x1'));
+    node.rpc.mockImplementationOnce(() => Promise.reject(new Error('insufficient funds')));
+
+    await expect(manager.submit('req-1', SIGNER, CONTRACT_ADDRESS, '0x01')).rejects.toThrow(
+      'insufficient funds',
+    );
+    await manager.submit('req-2', SIGNER, CONTRACT_ADDRESS, '0x02');
+    expect(node.sent.map(tx => tx.nonce)).toEqual(['0x0']);
+    expect((await manager.getTransactions()).map(tx => tx.requestId)).toEqual(['req-2']);
+  });
+
+  it('should track transactions until they are mined', async () => {
+    const manager = newManager();
+    await manager.submit('req-1', SIGNER, CONTRACT_ADDRESS, '0x01');
+    await manager.submit('req-2', SIGNER, CONTRACT_ADDRESS, '0x02');
+
+    expect(await manager.checkPending()).toEqual([]);
+    node.mine(1);
+    node.mine(2, '0x0');
+
+    const completed = await manager.checkPending();
+    expect(completed.map(tx => [tx.requestId, tx.status, tx.blockNumber])).toEqual([
+      ['req-1', TransactionStatus.CONFIRMED, '16'],
+      ['req-2', TransactionStatus.FAILED, '16'],
+    ]);
+    expect(completed[1].errorMessage).toEqual('Transaction reverted');
+    expect(await manager.checkPending()).toEqual([]);
+  });
+
+  it('should bump the fees of a stuck transaction', async () => {
+    const manager = newManager(0);
+    await manager.submit('req-1', SIGNER, CONTRACT_ADDRESS, '0x01');
+
+    expect(await manager.checkPending()).toEqual([]);
+    expect(node.sent).toHaveLength(2);
+    expect(node.sent[1]).toEqual(
+      expect.objectContaining({
+        nonce: '0x0',
+        maxFeePerGas: '0xfc',
+        maxPriorityFeePerGas: '0xc',
+      }),
+    );
+
+    node.mine(2);
+    const [tx] = await manager.checkPending();
+    expect(tx.status).toEqual(TransactionStatus.CONFIRMED);
+    expect(tx.hash).toEqual(node.hash(2));
+    expect(tx.hashes).toEqual([node.hash(1), node.hash(2)]);
+  });
+
+  it('should fail transactions whose nonce was used by another transaction', async () => {
+    const manager = newManager(0);
+    await manager.submit('req-1', SIGNER, CONTRACT_ADDRESS, '0x01');
+    node.latestNonce = 1;
+
+    const [tx] = await manager.checkPending();
+    expect(tx.status).toEqual(TransactionStatus.FAILED);
+    expect(tx.errorMessage).toEqual('Nonce 0 was used by another transaction');
+  });
+
+  it('should fill gaps in the nonces with no-op transfers', async () => {
+    const manager = newManager(0);
+    node.pendingNonce = 2;
+    await manager.submit('req-1', SIGNER, CONTRACT_ADDRESS, '0x01');
+
+    await manager.checkPending();
+    expect(node.sent.slice(1)).toEqual([
+      expect.objectContaining({ from: SIGNER, to: SIGNER, data: '0x', nonce: '0x0' }),
+      expect.objectContaining({ from: SIGNER, to: SIGNER, data: '0x', nonce: '0x1' }),
+    ]);
+    const transactions = await manager.getTransactions(SIGNER);
+    expect(transactions.map(tx => [tx.nonce, tx.gapFill])).toEqual([
+      [2, undefined],
+      [0, true],
+      [1, true],
+    ]);
+  });
+
+  it('should restore transactions and nonces from the store', async () => {
+    const store = new MemoryTransactionStore();
+    const manager = newManager();
+    manager.useStore(store);
+    await manager.submit('req-1', SIGNER, CONTRACT_ADDRESS, '0x01');
+
+    const restored = newManager();
+    restored.useStore(store);
+    expect((await restored.getTransactions(CONTRACT_ADDRESS)).length).toEqual(0);
+    expect(
+      (await restored.getTransactions(SIGNER.replace('b107ed', 'B107ED'))).map(tx => tx.requestId),
+    ).toEqual(['req-1']);
+
+    // The node has not seen the first transaction, but its nonce is still held
+    await restored.submit('req-2', SIGNER, CONTRACT_ADDRESS, '0x02');
+    expect(node.sent.map(tx => tx.nonce)).toEqual(['0x0', '0x1']);
+  });
+});
@@ -0,0 +1,467 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { BadRequestException, ConflictException, Logger } from '@nestjs/common';
+import { BigNumber } from '@ethersproject/bignumber';
+import { UnsignedTransaction } from '@ethersproject/transactions';
+import { JsonRpcBlock, JsonRpcReceipt } from '../connector/connector.interfaces';
+import { getRevertReason, JsonRpcError } from '../connector/jsonrpc.client';
+import { KeystoreSigner } from '../signer/keystore.signer';
+import {
+  JsonRpcCall,
+  ManagedTransaction,
+  TransactionStatus,
+  TransactionStore,
+} from './transactions.interfaces';
+import { MemoryTransactionStore } from './transactions.store';
+
+const DEFAULT_STUCK_TIMEOUT = 60000;
+const DEFAULT_FEE_BUMP_PERCENT = 20;
+const MAX_COMPLETED_TRANSACTIONS = 1000;
+// Used when the node does not support eth_maxPriorityFeePerGas
+const DEFAULT_PRIORITY_FEE = BigNumber.from(1500000000);
+const TRANSFER_GAS = '21000';
+
+type TransactionFees = Pick<
+  ManagedTransaction,
+  'gasPrice' | 'maxFeePerGas' | 'maxPriorityFeePerGas'
+>;
+
+function toNumber(value: string) {
+  return BigNumber.from(value).toNumber();
+}
+
+function toHex(value: string | number) {
+  return '0x' + BigNumber.from(value).toBigInt().toString(16);
+}
+
+function maxFee(a: string, b?: string) {
+  return b !== undefined && BigNumber.from(b).gt(a) ? b : a;
+}
+
+/**
+ * Assigns nonces to the transactions of each signer, and tracks them until they are mined.
+ *
+ * Submissions for a signer are queued so that nonces are allocated in order. A transaction that
+ * is next in line but has not been mined within a timeout is resubmitted with bumped fees, and
+ * nonces that are not held by any transaction (which would block every later transaction) are
+ * filled with no-op transfers.
+ */
+export class TransactionManager {
+  private readonly logger = new Logger(TransactionManager.name);
+
+  // Tracked transactions keyed by request ID, in order of submission
+  private transactions = new Map<string, ManagedTransaction>();
+  private nextNonces = new Map<string, number>();
+  private queues = new Map<string, Promise<unknown>>();
+  private store: TransactionStore = new MemoryTransactionStore();
+  private signer?: KeystoreSigner;
+  private chainId?: number;
+  private restored?: Promise<void>;
+
+  constructor(
+    private rpc: JsonRpcCall,
+    private stuckTimeout = DEFAULT_STUCK_TIMEOUT,
+    private feeBumpPercent = DEFAULT_FEE_BUMP_PERCENT,
+  ) {}
+
+  /**
+   * Sign transactions locally with the given keys, and submit them with eth_sendRawTransaction.
+   */
+  useSigner(signer: KeystoreSigner) {
+    this.signer = signer;
+  }
+
+  useStore(store: TransactionStore) {
+    this.store = store;
+  }
+
+  async getTransactions(signer?: string) {
+    await this.restore();
+    const transactions = Array.from(this.transactions.values());
+    return signer === undefined
+      ? transactions
+      : transactions.filter(tx => tx.signer === signer.toLowerCase());
+  }
+
+  /**
+   * Get a transaction, first checking for its receipt if it is still pending.
+   */
+  async checkTransaction(requestId: string) {
+    await this.restore();
+    const tx = this.transactions.get(requestId);
+    if (tx?.status === TransactionStatus.PENDING && (await this.checkReceipt(tx))) {
+      this.prune();
+      await this.save();
+    }
+    return tx;
+  }
+
+  /**
+   * Get the chain ID from the node (cached, as it cannot change while running).
+   */
+  async getChainId() {
+    if (this.chainId === undefined) {
+      this.chainId = toNumber(await this.rpc<string>('eth_chainId'));
+    }
+    return this.chainId;
+  }
+
+  async submit(requestId: string, from: string, to: string, data: string) {
+    // Reject unknown signers before making any calls to the node
+    this.signer?.getWallet(from);
+    await this.restore();
+    const signer = from.toLowerCase();
+    return this.enqueue(signer, () => {
+      // Checked in the queue, so that a concurrent submission of the same request is rejected
+      if (this.transactions.has(requestId)) {
+        throw new ConflictException(
+          `A transaction was already submitted for request '${requestId}'`,
+        );
+      }
+      return this.send(requestId, signer, to, data);
+    });
+  }
+
+  /**
+   * Check all pending transactions, and return any that have completed (mined, or replaced by
+   * another transaction with the same nonce).
+   */
+  async checkPending() {
+    await this.restore();
+    const completed: ManagedTransaction[] = [];
+    const overdueSigners = new Set<string>();
+    for (const tx of this.getPending()) {
+      if (await this.checkReceipt(tx)) {
+        completed.push(tx);
+      } else if (this.isOverdue(tx)) {
+        overdueSigners.add(tx.signer);
+      }
+    }
+    for (const signer of overdueSigners) {
+      // Nonces are read and used here, so wait for any submissions by the signer to finish
+      completed.push(...(await this.enqueue(signer, () => this.checkSigner(signer))));
+    }
+    if (completed.length > 0 || overdueSigners.size > 0) {
+      this.prune();
+      await this.save();
+    }
+    return completed;
+  }
+
+  private enqueue<T>(signer: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(signer) ?? Promise.resolve();
+    const result = previous.then(task);
+    this.queues.set(
+      signer,
+      result.catch(() => undefined),
+    );
+    return result;
+  }
+
+  private async send(requestId: string, signer: string, to: string, data: string) {
+    const pendingNonce = toNumber(
+      await this.rpc<string>('eth_getTransactionCount', [signer, 'pending']),
+    );
+    const nonce = Math.max(pendingNonce, this.nextNonces.get(signer) ?? 0);
+    let gasLimit: string;
+    try {
+      gasLimit = await this.rpc<string>('eth_estimateGas', [{ from: signer, to, data }]);
+    } catch (err) {
+      if (err instanceof JsonRpcError) {
+        // The node could not estimate the transaction (usually because it would revert)
+        throw new BadRequestException(getRevertReason(err));
+      }
+      throw err;
+    }
+    const tx = this.newTransaction(requestId, signer, nonce, to, data, gasLimit);
+    Object.assign(tx, await this.getFees());
+    try {
+      await this.broadcast(tx);
+    } catch (err) {
+      // Read the nonce from the node again next time, in case this one was not used
+      this.nextNonces.delete(signer);
+      throw err;
+    }
+    this.nextNonces.set(signer, nonce + 1);
+    this.transactions.set(requestId, tx);
+    await this.save();
+    this.logger.log(
+      `Submitted transaction request=${requestId} signer=${signer} nonce=${nonce} tx=${tx.hash}`,
+    );
+    return tx;
+  }
+
+  private newTransaction(
+    requestId: string,
+    signer: string,
+    nonce: number,
+    to: string,
+    data: string,
+    gasLimit: string,
+  ): ManagedTransaction {
+    const now = new Date().toISOString();
+    return {
+      requestId,
+      signer,
+      nonce,
+      to,
+      data,
+      gasLimit: BigNumber.from(gasLimit).toString(),
+      status: TransactionStatus.PENDING,
+      hash: '',
+      hashes: [],
+      created: now,
+      lastSubmitted: now,
+    };
+  }
+
+  private async broadcast(tx: ManagedTransaction) {
+    let hash: string;
+    if (this.signer !== undefined) {
+      const signed = await this.signer.signTransaction(tx.signer, {
+        chainId: await this.getChainId(),
+        nonce: tx.nonce,
+        to: tx.to,
+        data: tx.data,
+        gasLimit: BigNumber.from(tx.gasLimit),
+        ...this.getSigningFees(tx),
+      });
+      hash = await this.rpc<string>('eth_sendRawTransaction', [signed]);
+    } else {
+      const fees: Record<string, string> = {};
+      for (const key of ['gasPrice', 'maxFeePerGas', 'maxPriorityFeePerGas'] as const) {
+        const fee = tx[key];
+        if (fee !== undefined) {
+          fees[key] = toHex(fee);
+        }
+      }
+      hash = await this.rpc<string>('eth_sendTransaction', [
+        {
+          from: tx.signer,
+          to: tx.to,
+          data: tx.data,
+          nonce: toHex(tx.nonce),
+          gas: toHex(tx.gasLimit),
+          ...fees,
+        },
+      ]);
+    }
+    tx.hash = hash;
+    tx.hashes.push(hash);
+    tx.lastSubmitted = new Date().toISOString();
+  }
+
+  private getSigningFees(tx: ManagedTransaction): Partial<UnsignedTransaction> {
+    if (tx.maxFeePerGas !== undefined) {
+      return {
+        type: 2,
+        maxFeePerGas: BigNumber.from(tx.maxFeePerGas),
+        maxPriorityFeePerGas: BigNumber.from(tx.maxPriorityFeePerGas),
+      };
+    }
+    return { type: 0, gasPrice: BigNumber.from(tx.gasPrice) };
+  }
+
+  /**
+   * Get the fees for a new transaction - EIP-1559 fee caps if the chain has a base fee,
+   * otherwise a legacy gas price.
+   */
+  private async getFees(): Promise<TransactionFees> {
+    const block = await this.rpc<JsonRpcBlock>('eth_getBlockByNumber', ['latest', false]);
+    if (block.baseFeePerGas === undefined) {
+      return { gasPrice: BigNumber.from(await this.rpc<string>('eth_gasPrice')).toString() };
+    }
+    let priorityFee = DEFAULT_PRIORITY_FEE;
+    try {
+      priorityFee = BigNumber.from(await this.rpc<string>('eth_maxPriorityFeePerGas'));
+    } catch (err) {
+      this.logger.warn(`Using default priority fee: ${err}`);
+    }
+    return {
+      maxPriorityFeePerGas: priorityFee.toString(),
+      maxFeePerGas: BigNumber.from(block.baseFeePerGas).mul(2).add(priorityFee).toString(),
+    };
+  }
+
+  private getPending(signer?: string) {
+    return Array.from(this.transactions.values())
+      .filter(
+        tx =>
+          tx.status === TransactionStatus.PENDING && (signer === undefined || tx.signer === signer),
+      )
+      .sort((a, b) => a.nonce - b.nonce);
+  }
+
+  private isOverdue(tx: ManagedTransaction) {
+    return Date.now() - Date.parse(tx.lastSubmitted) >= this.stuckTimeout;
+  }
+
+  /**
+   * Look for a receipt for any submission of a transaction (the original, or a fee bump).
+   */
+  private async checkReceipt(tx: ManagedTransaction) {
+    for (const hash of [...tx.hashes].reverse()) {
+      const receipt = await this.rpc<JsonRpcReceipt | null>('eth_getTransactionReceipt', [hash]);
+      if (receipt !== null && receipt !== undefined) {
+        const success = receipt.status === undefined || BigNumber.from(receipt.status).eq(1);
+        tx.status = success ? TransactionStatus.CONFIRMED : TransactionStatus.FAILED;
+        tx.hash = hash;
+        tx.blockNumber = BigNumber.from(receipt.blockNumber).toString();
+        tx.errorMessage = success ? undefined : 'Transaction reverted';
+        this.logger.log(`Transaction ${tx.status} request=${tx.requestId} tx=${hash}`);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Look for problems holding up the pending transactions of a signer: nonces that were used by
+   * other transactions, a transaction that is next in line but not being mined, and gaps in the
+   * nonces.
+   */
+  private async checkSigner(signer: string) {
+    const completed: ManagedTransaction[] = [];
+    const nextNonce = toNumber(
+      await this.rpc<string>('eth_getTransactionCount', [signer, 'latest']),
+    );
+    for (const tx of this.getPending(signer)) {
+      // Check the receipt again, in case the transaction was mined since it was last checked
+      if (tx.nonce < nextNonce && !(await this.checkReceipt(tx))) {
+        tx.status = TransactionStatus.FAILED;
+        tx.errorMessage = `Nonce ${tx.nonce} was used by another transaction`;
+        this.logger.warn(`Transaction request=${tx.requestId} failed: ${tx.errorMessage}`);
+      }
+      if (tx.status !== TransactionStatus.PENDING) {
+        completed.push(tx);
+      }
+    }
+
+    const pending = this.getPending(signer);
+    if (pending.length === 0) {
+      return completed;
+    }
+    if (pending[0].nonce === nextNonce) {
+      if (this.isOverdue(pending[0])) {
+        await this.bump(pending[0]);
+      }
+    }
+    const held = new Set(pending.map(tx => tx.nonce));
+    for (let nonce = nextNonce; nonce < pending[pending.length - 1].nonce; nonce++) {
+      if (!held.has(nonce)) {
+        await this.fillGap(signer, nonce);
+      }
+    }
+    return completed;
+  }
+
+  /**
+   * Resubmit a transaction with the same nonce and higher fees, so that it replaces the
+   * original in the mempool (or is sent again if the original was dropped).
+   */
+  private async bump(tx: ManagedTransaction) {
+    const current = await this.getFees();
+    const bumpFee = (fee: string, currentFee?: string) =>
+      maxFee(
+        BigNumber.from(fee)
+          .mul(100 + this.feeBumpPercent)
+          .div(100)
+          .toString(),
+        currentFee,
+      );
+    if (tx.maxFeePerGas !== undefined && tx.maxPriorityFeePerGas !== undefined) {
+      tx.maxFeePerGas = bumpFee(tx.maxFeePerGas, current.maxFeePerGas);
+      tx.maxPriorityFeePerGas = bumpFee(tx.maxPriorityFeePerGas, current.maxPriorityFeePerGas);
+    } else if (tx.gasPrice !== undefined) {
+      tx.gasPrice = bumpFee(tx.gasPrice, current.gasPrice);
+    }
+    this.logger.warn(
+      `Transaction request=${tx.requestId} nonce=${tx.nonce} is stuck - resubmitting with higher fees`,
+    );
+    try {
+      await this.broadcast(tx);
+    } catch (err) {
+      this.logger.error(`Failed to resubmit transaction request=${tx.requestId}: ${err}`);
+    }
+  }
+
+  /**
+   * Fill a nonce that is not held by any known transaction with a zero-value transfer to the
+   * signer itself, so that later transactions can be mined.
+   */
+  private async fillGap(signer: string, nonce: number) {
+    const requestId = `gap-fill:${signer}:${nonce}`;
+    this.logger.warn(`Nonce gap for signer ${signer} at nonce ${nonce} - sending a no-op transfer`);
+    const tx = this.newTransaction(requestId, signer, nonce, signer, '0x', TRANSFER_GAS);
+    Object.assign(tx, await this.getFees(), { gapFill: true });
+    try {
+      await this.broadcast(tx);
+      this.transactions.set(requestId, tx);
+    } catch (err) {
+      this.logger.error(`Failed to fill nonce gap for signer ${signer}: ${err}`);
+    }
+  }
+
+  /**
+   * Drop the oldest completed transactions once the limit is reached.
+   */
+  private prune() {
+    const completed = Array.from(this.transactions.values()).filter(
+      tx => tx.status !== TransactionStatus.PENDING,
+    );
+    const excess = completed.length - MAX_COMPLETED_TRANSACTIONS;
+    for (const tx of completed.slice(0, Math.max(excess, 0))) {
+      this.transactions.delete(tx.requestId);
+    }
+  }
+
+  private restore() {
+    if (this.restored === undefined) {
+      this.restored = this.load();
+    }
+    return this.restored;
+  }
+
+  private async load() {
+    let saved: ManagedTransaction[] | undefined;
+    try {
+      saved = await this.store.load();
+    } catch (err) {
+      this.logger.error(`Failed to restore transactions: ${err}`);
+      return;
+    }
+    if (saved === undefined) {
+      return;
+    }
+    for (const tx of saved) {
+      this.transactions.set(tx.requestId, tx);
+      if (tx.status === TransactionStatus.PENDING) {
+        const next = Math.max(this.nextNonces.get(tx.signer) ?? 0, tx.nonce + 1);
+        this.nextNonces.set(tx.signer, next);
+      }
+    }
+    this.logger.log(`Restored ${saved.length} transaction(s)`);
+  }
+
+  private async save() {
+    try {
+      await this.store.save(Array.from(this.transactions.values()));
+    } catch (err) {
+      this.logger.error(`Failed to persist transactions: ${err}`);
+    }
+  }
+}
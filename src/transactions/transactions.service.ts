@@ -0,0 +1,40 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { TransactionManager } from './transactions.manager';
+
+@Injectable()
+export class TransactionsService {
+  private manager?: TransactionManager;
+
+  /**
+   * Track transactions with the given manager (only possible when transactions are submitted
+   * directly to a JSON-RPC node).
+   */
+  useManager(manager: TransactionManager) {
+    this.manager = manager;
+  }
+
+  getTransactions(signer?: string) {
+    if (this.manager === undefined) {
+      throw new BadRequestException(
+        'Transactions are only tracked when using the JSON-RPC connector',
+      );
+    }
+    return this.manager.getTransactions(signer);
+  }
+}
@@ -0,0 +1,60 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { Logger } from '@nestjs/common';
+import { JsonFileStore } from '../utils';
+import { ManagedTransaction, TransactionStore } from './transactions.interfaces';
+
+/**
+ * Non-durable store, used when no persistence is configured.
+ */
+export class MemoryTransactionStore implements TransactionStore {
+  constructor(private transactions?: ManagedTransaction[]) {}
+
+  load() {
+    return Promise.resolve(this.transactions);
+  }
+
+  save(transactions: ManagedTransaction[]) {
+    this.transactions = transactions;
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Store that persists tracked transactions to a JSON file, replacing it atomically on each save.
+ */
+export class FileTransactionStore implements TransactionStore {
+  private readonly logger = new Logger(FileTransactionStore.name);
+  private readonly json: JsonFileStore<ManagedTransaction[]>;
+
+  constructor(file: string) {
+    this.json = new JsonFileStore(file);
+  }
+
+  async load() {
+    try {
+      return await this.json.read();
+    } catch (err) {
+      this.logger.error(`Failed to read transactions from '${this.json.file}': ${err}`);
+      throw err;
+    }
+  }
+
+  save(transactions: ManagedTransaction[]) {
+    return this.json.write(transactions);
+  }
+}
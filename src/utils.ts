@@ -1,3 +1,5 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import { AxiosRequestConfig } from 'axios';
 
 export const basicAuth = (username: string, password: string) => {
@@ -10,3 +12,44 @@ export const basicAuth = (username: string, password: string) => {
   }
   return requestOptions;
 };
+
+/**
+ * A value persisted as a JSON file.
+ *
+ * Each write replaces the file atomically (write to a temporary file, then rename), so a crash
+ * mid-write leaves the previous value intact. Writes are applied in the order they are made.
+ */
+export class JsonFileStore<T> {
+  private writes = Promise.resolve();
+
+  constructor(readonly file: string) {}
+
+  /**
+   * Read the value, or undefined if the file does not exist yet.
+   */
+  async read(): Promise<T | undefined> {
+    try {
+      const content = await fs.promises.readFile(this.file, 'utf8');
+      return JSON.parse(content) as T;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  write(value: T): Promise<void> {
+    const content = JSON.stringify(value);
+    const result = this.writes.then(() => this.replace(content));
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  private async replace(content: string) {
+    const tmpFile = `${this.file}.tmp`;
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.writeFile(tmpFile, content, 'utf8');
+    await fs.promises.rename(tmpFile, this.file);
+  }
+}
@@ -0,0 +1,168 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { createHmac } from 'crypto';
+import { HttpService } from '@nestjs/axios';
+import { of, throwError } from 'rxjs';
+import { EventStreamProxyGateway } from '../eventstream-proxy/eventstream-proxy.gateway';
+import { WebSocketMessageWithId } from '../eventstream-proxy/eventstream-proxy.interfaces';
+import { MetricsService } from '../metrics/metrics.service';
+import { SIGNATURE_HEADER, WEBHOOK_TOPIC, WebhooksService } from './webhooks.service';
+
+describe('WebhooksService', () => {
+  let service: WebhooksService;
+  let metrics: MetricsService;
+  let http: { post: jest.Mock };
+  let proxy: {
+    addConsumer: jest.Mock;
+    addReceiptListener: jest.Mock;
+    acknowledge: jest.Mock;
+  };
+
+  const message: WebSocketMessageWithId = {
+    id: 'msg1',
+    event: 'token-pool',
+    data: { poolLocator: 'address=0x123' },
+  };
+
+  const deliverMessage = (msg: WebSocketMessageWithId) => {
+    const deliver: (msg: WebSocketMessageWithId) => void = proxy.addConsumer.mock.calls[0][1];
+    deliver(msg);
+  };
+
+  const flush = async () => {
+    for (let i = 0; i < 10; i++) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+  };
+
+  beforeEach(() => {
+    http = { post: jest.fn() };
+    proxy = {
+      addConsumer: jest.fn(),
+      addReceiptListener: jest.fn(),
+      acknowledge: jest.fn(),
+    };
+    metrics = new MetricsService();
+    service = new WebhooksService(
+      http as unknown as HttpService,
+      proxy as unknown as EventStreamProxyGateway,
+      metrics,
+    );
+  });
+
+  afterEach(() => {
+    service.onApplicationShutdown();
+  });
+
+  it('does nothing without URLs', () => {
+    service.configure([''], '');
+    expect(proxy.addConsumer).not.toHaveBeenCalled();
+    expect(proxy.addReceiptListener).not.toHaveBeenCalled();
+  });
+
+  it('delivers and acknowledges events', async () => {
+    http.post.mockReturnValue(of({ status: 200 }));
+    service.configure(['http://a', 'http://b'], '');
+    expect(proxy.addConsumer).toHaveBeenCalledWith(WEBHOOK_TOPIC, expect.any(Function));
+
+    deliverMessage(message);
+    await flush();
+
+    const body = JSON.stringify(message);
+    expect(http.post).toHaveBeenCalledTimes(2);
+    expect(http.post).toHaveBeenCalledWith('http://a', body, {
+      headers: { 'Content-Type': 'application/json' },
+    });
+    expect(http.post).toHaveBeenCalledWith('http://b', body, {
+      headers: { 'Content-Type': 'application/json' },
+    });
+    expect(proxy.acknowledge).toHaveBeenCalledWith(WEBHOOK_TOPIC, 'msg1');
+  });
+
+  it('signs the body when a secret is set', async () => {
+    http.post.mockReturnValue(of({ status: 200 }));
+    service.configure(['http://a'], 'secret');
+
+    deliverMessage(message);
+    await flush();
+
+    const body = JSON.stringify(message);
+    const signature = 'sha256=' + createHmac('sha256', 'secret').update(body).digest('hex');
+    expect(http.post).toHaveBeenCalledWith('http://a', body, {
+      headers: { 'Content-Type': 'application/json', [SIGNATURE_HEADER]: signature },
+    });
+  });
+
+  it('retries failed deliveries before acknowledging', async () => {
+    http.post
+      .mockReturnValueOnce(throwError(() => new Error('Request failed with status code 500')))
+      .mockReturnValueOnce(throwError(() => new Error('Request failed with status code 503')))
+      .mockReturnValueOnce(of({ status: 200 }));
+    service.configure(['http://a'], '', 1, 2);
+
+    deliverMessage(message);
+    await flush();
+    expect(proxy.acknowledge).not.toHaveBeenCalled();
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await flush();
+    expect(http.post).toHaveBeenCalledTimes(3);
+    expect(proxy.acknowledge).toHaveBeenCalledWith(WEBHOOK_TOPIC, 'msg1');
+  });
+
+  it('keeps retrying client errors without acknowledging or skipping messages', async () => {
+    http.post.mockReturnValue(throwError(() => new Error('Request failed with status code 404')));
+    service.configure(['http://a'], '', 1, 2);
+
+    deliverMessage(message);
+    deliverMessage({ ...message, id: 'msg2' });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await flush();
+
+    expect(http.post.mock.calls.length).toBeGreaterThan(10);
+    expect(http.post.mock.calls.every(call => call[1] === JSON.stringify(message))).toBe(true);
+    expect(proxy.acknowledge).not.toHaveBeenCalled();
+    const [failures] = (await metrics.webhookDeliveryFailures.get()).values;
+    expect(failures.labels).toEqual({ url: 'http://a' });
+    expect(failures.value).toEqual(http.post.mock.calls.length);
+
+    http.post.mockReturnValue(of({ status: 200 }));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await flush();
+    expect(proxy.acknowledge.mock.calls).toEqual([
+      [WEBHOOK_TOPIC, 'msg1'],
+      [WEBHOOK_TOPIC, 'msg2'],
+    ]);
+  });
+
+  it('delivers receipts without acknowledging', async () => {
+    http.post.mockReturnValue(of({ status: 200 }));
+    service.configure(['http://a'], '');
+
+    const receipt = { id: 'req1', success: true };
+    const listener: (receipt: unknown) => void = proxy.addReceiptListener.mock.calls[0][0];
+    listener(receipt);
+    await flush();
+
+    expect(http.post).toHaveBeenCalledWith(
+      'http://a',
+      JSON.stringify({ event: 'receipt', data: receipt }),
+      { headers: { 'Content-Type': 'application/json' } },
+    );
+    expect(proxy.acknowledge).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { createHmac } from 'crypto';
+import { HttpService } from '@nestjs/axios';
+import { Injectable, Logger, OnApplicationShutdown } from '@nestjs/common';
+import { lastValueFrom } from 'rxjs';
+import { EventStreamProxyGateway } from '../eventstream-proxy/eventstream-proxy.gateway';
+import { MetricsService } from '../metrics/metrics.service';
+import { WebSocketMessage } from '../websocket-events/websocket-events.base';
+
+export const WEBHOOK_TOPIC = 'webhooks';
+export const SIGNATURE_HEADER = 'X-Signature-256';
+
+const DEFAULT_RETRY_DELAY = 1000;
+const DEFAULT_MAX_RETRY_DELAY = 60000;
+
+/**
+ * Delivers token events and receipts to a set of URLs, as an alternative to the websocket.
+ *
+ * Messages are POSTed in order, and each one is retried with exponential backoff until every
+ * URL has accepted it. Token events are only acknowledged once they have been delivered.
+ */
+@Injectable()
+export class WebhooksService implements OnApplicationShutdown {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  urls: string[] = [];
+  private secret = '';
+  private retryDelay = DEFAULT_RETRY_DELAY;
+  private maxRetryDelay = DEFAULT_MAX_RETRY_DELAY;
+  private queue = Promise.resolve();
+  private stopped = false;
+
+  constructor(
+    private http: HttpService,
+    private proxy: EventStreamProxyGateway,
+    private metrics: MetricsService,
+  ) {}
+
+  configure(
+    urls: string[],
+    secret: string,
+    retryDelay = DEFAULT_RETRY_DELAY,
+    maxRetryDelay = DEFAULT_MAX_RETRY_DELAY,
+  ) {
+    this.urls = urls.filter(url => url !== '');
+    this.secret = secret;
+    this.retryDelay = retryDelay;
+    this.maxRetryDelay = maxRetryDelay;
+    if (this.urls.length === 0) {
+      return;
+    }
+
+    this.logger.log(`Delivering events to ${this.urls.length} webhook(s)`);
+    this.proxy.addReceiptListener(receipt => this.enqueue({ event: 'receipt', data: receipt }));
+    this.proxy.addConsumer(WEBHOOK_TOPIC, message =>
+      this.enqueue(message, () => this.proxy.acknowledge(WEBHOOK_TOPIC, message.id)),
+    );
+  }
+
+  onApplicationShutdown() {
+    this.stopped = true;
+  }
+
+  sign(body: string) {
+    return 'sha256=' + createHmac('sha256', this.secret).update(body).digest('hex');
+  }
+
+  private enqueue(message: WebSocketMessage, onDelivered?: () => void) {
+    this.queue = this.queue.then(async () => {
+      if (await this.deliver(message)) {
+        onDelivered?.();
+      }
+    });
+  }
+
+  private async deliver(message: WebSocketMessage) {
+    const body = JSON.stringify(message);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.secret !== '') {
+      headers[SIGNATURE_HEADER] = this.sign(body);
+    }
+    const results = await Promise.all(this.urls.map(url => this.post(url, body, headers)));
+    return results.every(delivered => delivered);
+  }
+
+  /**
+   * POST a message to one URL, retrying until it returns a 2xx or the service is stopped.
+   * Failed attempts are counted, so that a receiver holding up the stream can be spotted.
+   */
+  private async post(url: string, body: string, headers: Record<string, string>) {
+    let delay = this.retryDelay;
+    while (!this.stopped) {
+      try {
+        await lastValueFrom(this.http.post(url, body, { headers }));
+        return true;
+      } catch (err) {
+        this.metrics.webhookDeliveryFailures.inc({ url });
+        this.logger.warn(`Webhook delivery to ${url} failed, retrying in ${delay}ms: ${err}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, delay).unref());
+      delay = Math.min(delay * 2, this.maxRetryDelay);
+    }
+    return false;
+  }
+}
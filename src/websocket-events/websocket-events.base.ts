@@ -24,18 +24,17 @@ import {
 } from '@nestjs/websockets';
 import { nanoid } from 'nanoid';
 import WebSocket, { Server } from 'ws';
+import { AuthService } from '../auth/auth.service';
+import { MetricsService } from '../metrics/metrics.service';
 
 const PING_INTERVAL = 5000;
 
-function checkApiKey(_request: http.IncomingMessage) {
-  // TODO: implement
-  return false;
-}
-
 export interface WebSocketEx extends WebSocket {
   isAlive: boolean;
   id: string;
   request?: http.IncomingMessage;
+  topic?: string;
+  receiptIds?: Set<string>;
 }
 
 /**
@@ -61,7 +60,16 @@ export abstract class WebSocketEventsBase
 {
   @WebSocketServer() server: Server;
 
-  constructor(protected readonly logger: Logger, private requireAuth = false) {}
+  constructor(
+    protected readonly logger: Logger,
+    private requireAuth = false,
+    private auth?: AuthService,
+    protected metrics?: MetricsService,
+  ) {}
+
+  private checkAuth(request: http.IncomingMessage) {
+    return this.auth?.authenticate(request.headers) ?? false;
+  }
 
   afterInit(server: Server) {
     const interval = setInterval(() => this.ping(), PING_INTERVAL);
@@ -69,7 +77,7 @@ export abstract class WebSocketEventsBase
       client.id = nanoid();
       client.isAlive = true;
       client.request = req;
-      if (this.requireAuth && !checkApiKey(req)) {
+      if (this.requireAuth && !this.checkAuth(req)) {
         this.logger.log(`WebSocket ${client.id}: unauthorized`);
         client.close(1008, 'Unauthorized');
       }
@@ -79,6 +87,7 @@ export abstract class WebSocketEventsBase
 
   handleConnection(client: WebSocketEx) {
     this.logger.log(`WebSocket ${client.id}: connected`);
+    this.metrics?.websocketClients.inc();
 
     client.on('pong', () => {
       client.isAlive = true;
@@ -90,6 +99,7 @@ export abstract class WebSocketEventsBase
 
   handleDisconnect(client: WebSocketEx) {
     this.logger.log(`WebSocket ${client.id}: disconnected`);
+    this.metrics?.websocketClients.dec();
   }
 
   ping() {
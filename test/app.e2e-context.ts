@@ -27,6 +27,12 @@ export class TestContext {
   eventHandler: (events: Event[]) => void;
   receiptHandler: (receipt: EventStreamReply) => void;
 
+  socket = {
+    ack: jest.fn(),
+    nack: jest.fn(),
+    close: jest.fn(),
+  };
+
   eventstream = {
     connect: (
       url: string,
@@ -36,9 +42,17 @@ export class TestContext {
     ) => {
       this.eventHandler = handleEvents;
       this.receiptHandler = handleReceipt;
+      return this.socket;
     },
 
     getSubscription: jest.fn(),
+    getStreams: jest.fn(),
+    createOrUpdateStream: jest.fn(),
+    getSubscriptions: jest.fn(),
+    deleteSubscription: jest.fn(),
+    resetSubscription: jest.fn(),
+    deleteStream: jest.fn(),
+    getOrCreateSubscription: jest.fn(),
   };
 
   async begin() {
@@ -47,6 +61,16 @@ export class TestContext {
       post: jest.fn(),
     };
     this.eventstream.getSubscription.mockReset();
+    this.eventstream.getStreams.mockReset();
+    this.eventstream.createOrUpdateStream.mockReset();
+    this.eventstream.getSubscriptions.mockReset();
+    this.eventstream.deleteSubscription.mockReset();
+    this.eventstream.resetSubscription.mockReset();
+    this.eventstream.deleteStream.mockReset();
+    this.eventstream.getOrCreateSubscription.mockReset();
+    this.socket.ack.mockReset();
+    this.socket.nack.mockReset();
+    this.socket.close.mockReset();
 
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
@@ -75,13 +99,13 @@ export class TestContext {
 }
 
 export class FakeObservable<T> {
-  constructor(public data: T) {}
+  constructor(public data: T, public status = 200) {}
 
   subscribe(observer?: Partial<Observer<AxiosResponse<T>>>) {
     observer?.next &&
       observer?.next({
-        status: 200,
-        statusText: 'OK',
+        status: this.status,
+        statusText: this.status === 200 ? 'OK' : '',
         headers: {},
         config: {},
         data: this.data,
@@ -15,8 +15,14 @@
 // limitations under the License.
 
 import { TestContext } from './app.e2e-context';
+import SuiteAdmin from './suites/admin';
+import SuiteAuth from './suites/auth';
 import SuiteErc20 from './suites/erc20';
 import SuiteErc721 from './suites/erc721';
+import SuiteErc1155 from './suites/erc1155';
+import SuiteMetrics from './suites/metrics';
+import SuiteTracing from './suites/tracing';
+import SuiteTransactions from './suites/transactions';
 import SuiteWebsocket from './suites/websocket';
 
 describe('AppController (e2e)', () => {
@@ -32,5 +38,11 @@ describe('AppController (e2e)', () => {
 
   addSuite('ERC20 API', SuiteErc20);
   addSuite('ERC721 API', SuiteErc721);
+  addSuite('ERC1155 API', SuiteErc1155);
   addSuite('Websocket Events', SuiteWebsocket);
+  addSuite('Authentication', SuiteAuth);
+  addSuite('Metrics', SuiteMetrics);
+  addSuite('Tracing', SuiteTracing);
+  addSuite('Admin', SuiteAdmin);
+  addSuite('Transactions', SuiteTransactions);
 });
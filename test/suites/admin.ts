@@ -0,0 +1,245 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  EventStream,
+  EventStreamSubscription,
+} from '../../src/event-stream/event-stream.interfaces';
+import { EventStreamProxyGateway } from '../../src/eventstream-proxy/eventstream-proxy.gateway';
+import {
+  RemediationActionType,
+  TokenType,
+  TransferEvent,
+} from '../../src/tokens/tokens.interfaces';
+import { TestContext, TOPIC } from '../app.e2e-context';
+
+const CONTRACT_ADDRESS = '0x123456';
+const POOL_ID = `address=${CONTRACT_ADDRESS}&schema=ERC20WithData&type=${TokenType.FUNGIBLE}`;
+const TRANSFER_SUB = `${TOPIC}:${POOL_ID}:Transfer`;
+const APPROVAL_SUB = `${TOPIC}:${POOL_ID}:Approval`;
+
+const stream: EventStream = { id: 'es-1', name: TOPIC };
+
+const transferEvent: TransferEvent = {
+  subId: 'sb-1',
+  signature: 'Transfer(address,address,uint256)',
+  operator: 'A',
+  address: CONTRACT_ADDRESS,
+  blockNumber: '42',
+  transactionIndex: '0x0',
+  transactionHash: '0x123',
+  logIndex: '1',
+  timestamp: '2020-01-01 00:00:00Z',
+  data: {
+    from: '0x0000000000000000000000000000000000000000',
+    to: 'A',
+    value: '5',
+  },
+};
+
+export default (context: TestContext) => {
+  it('Remediation dry run', async () => {
+    context.eventstream.getStreams.mockResolvedValueOnce([stream]);
+    context.eventstream.getSubscriptions.mockResolvedValueOnce(<EventStreamSubscription[]>[
+      { id: 'sb-1', name: TRANSFER_SUB, stream: 'es-1', fromBlock: '10' },
+      { id: 'sb-2', name: 'badname', stream: 'es-1' },
+      { id: 'sb-3', name: `${TOPIC}:other:Transfer`, stream: 'es-2' },
+    ]);
+
+    const response = await context.server
+      .post('/admin/remediate')
+      .send({ dryRun: true })
+      .expect(200);
+
+    expect(response.body).toEqual({
+      dryRun: true,
+      actions: [
+        {
+          action: RemediationActionType.DELETE_SUBSCRIPTION,
+          name: 'badname',
+          subscriptionId: 'sb-2',
+          reason: `Non-parseable subscription name found in event stream ${TOPIC}`,
+        },
+        expect.objectContaining({
+          action: RemediationActionType.DELETE_SUBSCRIPTION,
+          name: TRANSFER_SUB,
+          subscriptionId: 'sb-1',
+          poolLocator: POOL_ID,
+        }),
+        expect.objectContaining({
+          action: RemediationActionType.CREATE_SUBSCRIPTION,
+          name: TRANSFER_SUB,
+          poolLocator: POOL_ID,
+          event: 'Transfer',
+          fromBlock: '10',
+        }),
+        expect.objectContaining({
+          action: RemediationActionType.CREATE_SUBSCRIPTION,
+          name: APPROVAL_SUB,
+          poolLocator: POOL_ID,
+          event: 'Approval',
+          fromBlock: '10',
+        }),
+      ],
+    });
+    expect(context.eventstream.deleteSubscription).not.toHaveBeenCalled();
+    expect(context.eventstream.getOrCreateSubscription).not.toHaveBeenCalled();
+  });
+
+  it('Remediation resumes from the last delivered block', async () => {
+    context.eventstream.getSubscription.mockResolvedValueOnce(<EventStreamSubscription>{
+      name: TRANSFER_SUB,
+    });
+
+    await context.server
+      .ws('/api/ws')
+      .exec(() => {
+        expect(context.eventHandler).toBeDefined();
+        context.eventHandler([transferEvent]);
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('token-mint');
+        return true;
+      })
+      .close();
+
+    context.eventstream.getStreams.mockResolvedValue([stream]);
+    context.eventstream.createOrUpdateStream.mockResolvedValue(stream);
+    context.eventstream.getSubscriptions.mockResolvedValue(<EventStreamSubscription[]>[
+      { id: 'sb-1', name: TRANSFER_SUB, stream: 'es-1', fromBlock: '0' },
+    ]);
+
+    const forgetSubscription = jest.spyOn(
+      context.app.get(EventStreamProxyGateway),
+      'forgetSubscription',
+    );
+
+    const response = await context.server.post('/admin/remediate').send({}).expect(200);
+
+    expect(response.body.dryRun).toEqual(false);
+    expect(response.body.actions).toHaveLength(3);
+    expect(context.eventstream.deleteSubscription).toHaveBeenCalledTimes(1);
+    expect(context.eventstream.deleteSubscription).toHaveBeenCalledWith('sb-1');
+    expect(forgetSubscription).toHaveBeenCalledWith('sb-1');
+    expect(context.eventstream.getOrCreateSubscription).toHaveBeenCalledTimes(2);
+    expect(context.eventstream.getOrCreateSubscription).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ name: 'Transfer' }),
+      'es-1',
+      'Transfer',
+      TRANSFER_SUB,
+      CONTRACT_ADDRESS,
+      expect.anything(),
+      '42',
+    );
+    expect(context.eventstream.getOrCreateSubscription).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ name: 'Approval' }),
+      'es-1',
+      'Approval',
+      APPROVAL_SUB,
+      CONTRACT_ADDRESS,
+      expect.anything(),
+      '42',
+    );
+  });
+
+  it('No remediation needed', async () => {
+    context.eventstream.getStreams.mockResolvedValueOnce([stream]);
+    context.eventstream.getSubscriptions.mockResolvedValueOnce(<EventStreamSubscription[]>[
+      { id: 'sb-1', name: TRANSFER_SUB, stream: 'es-1' },
+      { id: 'sb-2', name: APPROVAL_SUB, stream: 'es-1' },
+    ]);
+
+    await context.server
+      .post('/admin/remediate')
+      .send({ dryRun: true })
+      .expect(200)
+      .expect({ dryRun: true, actions: [] });
+  });
+
+  it('List streams', async () => {
+    context.eventstream.getStreams.mockResolvedValueOnce([stream]);
+
+    await context.server.get('/admin/streams').expect(200).expect([stream]);
+  });
+
+  it('Delete stream', async () => {
+    context.eventstream.getStreams.mockResolvedValue([stream]);
+
+    await context.server.delete('/admin/streams/es-1').expect(204);
+    await context.server.delete('/admin/streams/es-2').expect(404);
+
+    expect(context.eventstream.deleteStream).toHaveBeenCalledTimes(1);
+    expect(context.eventstream.deleteStream).toHaveBeenCalledWith('es-1');
+  });
+
+  it('List subscriptions', async () => {
+    context.eventstream.getSubscriptions.mockResolvedValueOnce(<EventStreamSubscription[]>[
+      { id: 'sb-1', name: TRANSFER_SUB, stream: 'es-1', fromBlock: '10' },
+      { id: 'sb-2', name: 'badname', stream: 'es-1' },
+    ]);
+
+    await context.server
+      .get('/admin/subscriptions')
+      .expect(200)
+      .expect([
+        {
+          id: 'sb-1',
+          name: TRANSFER_SUB,
+          stream: 'es-1',
+          fromBlock: '10',
+          poolLocator: POOL_ID,
+          event: 'Transfer',
+        },
+        { id: 'sb-2', name: 'badname', stream: 'es-1' },
+      ]);
+  });
+
+  it('Delete subscription', async () => {
+    context.eventstream.getSubscription.mockResolvedValueOnce(<EventStreamSubscription>{
+      id: 'sb-1',
+      name: TRANSFER_SUB,
+      stream: 'es-1',
+    });
+
+    await context.server.delete('/admin/subscriptions/sb-1').expect(204);
+    await context.server.delete('/admin/subscriptions/sb-2').expect(404);
+
+    expect(context.eventstream.deleteSubscription).toHaveBeenCalledTimes(1);
+    expect(context.eventstream.deleteSubscription).toHaveBeenCalledWith('sb-1');
+  });
+
+  it('Reset subscription', async () => {
+    context.eventstream.getSubscription.mockResolvedValue(<EventStreamSubscription>{
+      id: 'sb-1',
+      name: TRANSFER_SUB,
+      stream: 'es-1',
+    });
+
+    await context.server
+      .post('/admin/subscriptions/sb-1/reset')
+      .send({ fromBlock: '100' })
+      .expect(204);
+    await context.server
+      .post('/admin/subscriptions/sb-1/reset')
+      .send({ fromBlock: 'latest' })
+      .expect(400);
+
+    expect(context.eventstream.resetSubscription).toHaveBeenCalledTimes(1);
+    expect(context.eventstream.resetSubscription).toHaveBeenCalledWith('sb-1', '100');
+  });
+};
@@ -0,0 +1,83 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { EventStreamReply } from '../../src/event-stream/event-stream.interfaces';
+import { AuthService } from '../../src/auth/auth.service';
+import { EthConnectReturn, TokenType } from '../../src/tokens/tokens.interfaces';
+import { FakeObservable, TestContext } from '../app.e2e-context';
+
+const API_KEY = 'key123';
+const CONTRACT_ADDRESS = '0x123456';
+const POOL_ID = `address=${CONTRACT_ADDRESS}&schema=ERC20WithData&type=${TokenType.FUNGIBLE}`;
+
+export default (context: TestContext) => {
+  beforeEach(() => {
+    context.app.get(AuthService).configure([API_KEY]);
+  });
+
+  it('Reject REST request without credentials', async () => {
+    await context.server
+      .get('/balance')
+      .query({ poolLocator: POOL_ID, account: '0x123' })
+      .expect(401);
+
+    expect(context.http.post).toHaveBeenCalledTimes(0);
+  });
+
+  it('Reject REST request with invalid credentials', async () => {
+    await context.server
+      .get('/balance')
+      .set('Authorization', 'Bearer invalid')
+      .query({ poolLocator: POOL_ID, account: '0x123' })
+      .expect(401);
+
+    expect(context.http.post).toHaveBeenCalledTimes(0);
+  });
+
+  it('Accept REST request with API key', async () => {
+    context.http.post = jest.fn(() => new FakeObservable(<EthConnectReturn>{ output: '5' }));
+
+    await context.server
+      .get('/balance')
+      .set('X-API-Key', API_KEY)
+      .query({ poolLocator: POOL_ID, account: '0x123' })
+      .expect(200)
+      .expect({ balance: '5' });
+  });
+
+  it('Reject websocket without credentials', () => {
+    return context.server.ws('/api/ws').expectClosed(1008, 'Unauthorized');
+  });
+
+  it('Accept websocket with API key', () => {
+    return context.server
+      .ws('/api/ws')
+      .set('X-API-Key', API_KEY)
+      .exec(() => {
+        expect(context.receiptHandler).toBeDefined();
+        context.receiptHandler(<EventStreamReply>{
+          headers: {
+            requestId: '1',
+            type: 'TransactionSuccess',
+          },
+        });
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('receipt');
+        return true;
+      });
+  });
+};
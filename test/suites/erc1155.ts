@@ -0,0 +1,396 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import ERC1155NoDataABI from '../../src/abi/ERC1155NoData.json';
+import ERC1155WithDataABI from '../../src/abi/ERC1155WithData.json';
+import {
+  EthConnectAsyncResponse,
+  EthConnectMsgRequest,
+  EthConnectReturn,
+  IAbiMethod,
+  TokenApproval,
+  TokenBurn,
+  TokenMint,
+  TokenPool,
+  TokenPoolEvent,
+  TokenTransfer,
+  TokenType,
+} from '../../src/tokens/tokens.interfaces';
+import { FakeObservable, TestContext } from '../app.e2e-context';
+
+const BASE_URL = 'http://eth';
+const CONTRACT_ADDRESS = '0x123456';
+const IDENTITY = '0x1';
+const OPTIONS = {};
+const REQUEST = 'request123';
+const TX = 'tx123';
+const NAME = 'abcTest';
+const SYMBOL = 'abc';
+const ERC1155_NO_DATA_SCHEMA = 'ERC1155NoData';
+const ERC1155_NO_DATA_POOL_ID = `address=${CONTRACT_ADDRESS}&schema=${ERC1155_NO_DATA_SCHEMA}&type=${TokenType.FUNGIBLE}`;
+const ERC1155_WITH_DATA_SCHEMA = 'ERC1155WithData';
+const ERC1155_WITH_DATA_POOL_ID = `address=${CONTRACT_ADDRESS}&schema=${ERC1155_WITH_DATA_SCHEMA}&type=${TokenType.FUNGIBLE}`;
+const ERC1155_WITH_DATA_NF_POOL_ID = `address=${CONTRACT_ADDRESS}&schema=${ERC1155_WITH_DATA_SCHEMA}&type=${TokenType.NONFUNGIBLE}`;
+
+const MINT_NO_DATA = 'mint';
+const TRANSFER_NO_DATA = 'safeTransferFrom';
+const MINT_WITH_DATA = 'mintWithData';
+const TRANSFER_WITH_DATA = 'transferWithData';
+const BURN_WITH_DATA = 'burnWithData';
+const APPROVE_FOR_ALL_WITH_DATA = 'setApprovalForAllWithData';
+
+const abiMethodMap = {
+  ERC1155NoData: ERC1155NoDataABI.abi as IAbiMethod[],
+  ERC1155WithData: ERC1155WithDataABI.abi as IAbiMethod[],
+};
+
+export default (context: TestContext) => {
+  const mockPoolQuery = (withData: boolean) => {
+    context.http.post
+      .mockReturnValueOnce(
+        new FakeObservable(<EthConnectReturn>{
+          output: true,
+        }),
+      )
+      .mockReturnValueOnce(
+        new FakeObservable(<EthConnectReturn>{
+          output: withData,
+        }),
+      )
+      .mockReturnValueOnce(
+        new FakeObservable(<EthConnectReturn>{
+          output: NAME,
+        }),
+      )
+      .mockReturnValueOnce(
+        new FakeObservable(<EthConnectReturn>{
+          output: SYMBOL,
+        }),
+      );
+  };
+
+  describe('ERC1155WithData', () => {
+    it('Create pool - correct fields', async () => {
+      const request: TokenPool = {
+        type: TokenType.FUNGIBLE,
+        requestId: REQUEST,
+        signer: IDENTITY,
+        data: `{"tx":${TX}}`,
+        config: { address: CONTRACT_ADDRESS },
+        name: NAME,
+        symbol: SYMBOL,
+      };
+
+      const expectedResponse = expect.objectContaining(<TokenPoolEvent>{
+        data: `{"tx":${TX}}`,
+        poolLocator: ERC1155_WITH_DATA_POOL_ID,
+        standard: 'ERC1155',
+        type: TokenType.FUNGIBLE,
+        symbol: SYMBOL,
+        decimals: 0,
+        info: {
+          name: NAME,
+          address: CONTRACT_ADDRESS,
+          schema: ERC1155_WITH_DATA_SCHEMA,
+        },
+      });
+
+      mockPoolQuery(true);
+
+      const response = await context.server.post('/createpool').send(request).expect(200);
+      expect(response.body).toEqual(expectedResponse);
+    });
+
+    it('Mint token', async () => {
+      const request: TokenMint = {
+        tokenIndex: '1',
+        amount: '20',
+        signer: IDENTITY,
+        poolLocator: ERC1155_WITH_DATA_POOL_ID,
+        to: '0x123',
+      };
+
+      const mockEthConnectRequest: EthConnectMsgRequest = {
+        headers: {
+          type: 'SendTransaction',
+        },
+        from: IDENTITY,
+        to: CONTRACT_ADDRESS,
+        method: abiMethodMap.ERC1155WithData.find(abi => abi.name === MINT_WITH_DATA) as IAbiMethod,
+        params: ['0x123', '1', '20', '0x00'],
+      };
+
+      const response: EthConnectAsyncResponse = {
+        id: 'responseId',
+        sent: true,
+      };
+
+      context.http.post = jest.fn(() => new FakeObservable(response));
+
+      await context.server.post('/mint').send(request).expect(202).expect({ id: 'responseId' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+      expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectRequest, OPTIONS);
+    });
+
+    it('Mint token - missing token index', async () => {
+      const request: TokenMint = {
+        amount: '20',
+        signer: IDENTITY,
+        poolLocator: ERC1155_WITH_DATA_POOL_ID,
+        to: '0x123',
+      };
+
+      await context.server.post('/mint').send(request).expect(400);
+      expect(context.http.post).toHaveBeenCalledTimes(0);
+    });
+
+    it('Mint token - nonfungible amount', async () => {
+      const request: TokenMint = {
+        tokenIndex: '1',
+        amount: '2',
+        signer: IDENTITY,
+        poolLocator: ERC1155_WITH_DATA_NF_POOL_ID,
+        to: '0x123',
+      };
+
+      await context.server.post('/mint').send(request).expect(400);
+      expect(context.http.post).toHaveBeenCalledTimes(0);
+    });
+
+    it('Transfer token', async () => {
+      const request: TokenTransfer = {
+        tokenIndex: '1',
+        amount: '20',
+        signer: IDENTITY,
+        poolLocator: ERC1155_WITH_DATA_POOL_ID,
+        to: '0x123',
+        from: IDENTITY,
+      };
+
+      const mockEthConnectRequest: EthConnectMsgRequest = {
+        headers: {
+          type: 'SendTransaction',
+        },
+        from: IDENTITY,
+        to: CONTRACT_ADDRESS,
+        method: abiMethodMap.ERC1155WithData.find(
+          abi => abi.name === TRANSFER_WITH_DATA,
+        ) as IAbiMethod,
+        params: [IDENTITY, '0x123', '1', '20', '0x00'],
+      };
+
+      const response: EthConnectAsyncResponse = {
+        id: 'responseId',
+        sent: true,
+      };
+
+      context.http.post = jest.fn(() => new FakeObservable(response));
+
+      await context.server.post('/transfer').send(request).expect(202).expect({ id: 'responseId' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+      expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectRequest, OPTIONS);
+    });
+
+    it('Burn token', async () => {
+      const request: TokenBurn = {
+        tokenIndex: '1',
+        signer: IDENTITY,
+        poolLocator: ERC1155_WITH_DATA_NF_POOL_ID,
+        from: IDENTITY,
+      };
+
+      const mockEthConnectRequest: EthConnectMsgRequest = {
+        headers: {
+          type: 'SendTransaction',
+        },
+        from: IDENTITY,
+        to: CONTRACT_ADDRESS,
+        method: abiMethodMap.ERC1155WithData.find(abi => abi.name === BURN_WITH_DATA) as IAbiMethod,
+        params: [IDENTITY, '1', '1', '0x00'],
+      };
+
+      const response: EthConnectAsyncResponse = {
+        id: 'responseId',
+        sent: true,
+      };
+
+      context.http.post = jest.fn(() => new FakeObservable(response));
+
+      await context.server.post('/burn').send(request).expect(202).expect({ id: 'responseId' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+      expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectRequest, OPTIONS);
+    });
+
+    it('Token approval for all', async () => {
+      const request: TokenApproval = {
+        poolLocator: ERC1155_WITH_DATA_POOL_ID,
+        signer: IDENTITY,
+        operator: '2',
+        approved: true,
+      };
+
+      const mockEthConnectRequest: EthConnectMsgRequest = {
+        headers: {
+          type: 'SendTransaction',
+        },
+        from: IDENTITY,
+        to: CONTRACT_ADDRESS,
+        method: abiMethodMap.ERC1155WithData.find(
+          abi => abi.name === APPROVE_FOR_ALL_WITH_DATA,
+        ) as IAbiMethod,
+        params: ['2', true, '0x00'],
+      };
+
+      const response: EthConnectAsyncResponse = {
+        id: '1',
+        sent: true,
+      };
+
+      context.http.post = jest.fn(() => new FakeObservable(response));
+
+      await context.server.post('/approval').send(request).expect(202).expect({ id: '1' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+      expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectRequest, OPTIONS);
+    });
+
+    it('Token approval for one', async () => {
+      const request: TokenApproval = {
+        poolLocator: ERC1155_WITH_DATA_POOL_ID,
+        signer: IDENTITY,
+        operator: '2',
+        approved: true,
+        config: { tokenIndex: '5' },
+      };
+
+      await context.server.post('/approval').send(request).expect(400);
+      expect(context.http.post).toHaveBeenCalledTimes(0);
+    });
+
+    it('Query balance', async () => {
+      context.http.post = jest.fn(() => new FakeObservable(<EthConnectReturn>{ output: '7' }));
+
+      await context.server
+        .get('/balance')
+        .query({ poolLocator: ERC1155_WITH_DATA_POOL_ID, account: '0x123', tokenIndex: '1' })
+        .expect(200)
+        .expect({ balance: '7' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+      expect(context.http.post.mock.calls[0][1].params).toEqual(['0x123', '1']);
+    });
+  });
+
+  describe('ERC1155NoData', () => {
+    it('Create pool - correct fields', async () => {
+      const request: TokenPool = {
+        type: TokenType.FUNGIBLE,
+        requestId: REQUEST,
+        signer: IDENTITY,
+        data: `{"tx":${TX}}`,
+        config: { address: CONTRACT_ADDRESS },
+        name: NAME,
+        symbol: SYMBOL,
+      };
+
+      const expectedResponse = expect.objectContaining(<TokenPoolEvent>{
+        data: `{"tx":${TX}}`,
+        poolLocator: ERC1155_NO_DATA_POOL_ID,
+        standard: 'ERC1155',
+        type: TokenType.FUNGIBLE,
+        symbol: SYMBOL,
+        info: {
+          name: NAME,
+          address: CONTRACT_ADDRESS,
+          schema: ERC1155_NO_DATA_SCHEMA,
+        },
+      });
+
+      mockPoolQuery(false);
+
+      const response = await context.server.post('/createpool').send(request).expect(200);
+      expect(response.body).toEqual(expectedResponse);
+    });
+
+    it('Mint token', async () => {
+      const request: TokenMint = {
+        tokenIndex: '1',
+        amount: '20',
+        signer: IDENTITY,
+        poolLocator: ERC1155_NO_DATA_POOL_ID,
+        to: '0x123',
+      };
+
+      const mockEthConnectRequest: EthConnectMsgRequest = {
+        headers: {
+          type: 'SendTransaction',
+        },
+        from: IDENTITY,
+        to: CONTRACT_ADDRESS,
+        method: abiMethodMap.ERC1155NoData.find(abi => abi.name === MINT_NO_DATA) as IAbiMethod,
+        params: ['0x123', '1', '20'],
+      };
+
+      const response: EthConnectAsyncResponse = {
+        id: 'responseId',
+        sent: true,
+      };
+
+      context.http.post = jest.fn(() => new FakeObservable(response));
+
+      await context.server.post('/mint').send(request).expect(202).expect({ id: 'responseId' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+      expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectRequest, OPTIONS);
+    });
+
+    it('Transfer token', async () => {
+      const request: TokenTransfer = {
+        tokenIndex: '1',
+        amount: '20',
+        signer: IDENTITY,
+        poolLocator: ERC1155_NO_DATA_POOL_ID,
+        to: '0x123',
+        from: IDENTITY,
+      };
+
+      const mockEthConnectRequest: EthConnectMsgRequest = {
+        headers: {
+          type: 'SendTransaction',
+        },
+        from: IDENTITY,
+        to: CONTRACT_ADDRESS,
+        method: abiMethodMap.ERC1155NoData.find(abi => abi.name === TRANSFER_NO_DATA) as IAbiMethod,
+        params: [IDENTITY, '0x123', '1', '20', '0x00'],
+      };
+
+      const response: EthConnectAsyncResponse = {
+        id: 'responseId',
+        sent: true,
+      };
+
+      context.http.post = jest.fn(() => new FakeObservable(response));
+
+      await context.server.post('/transfer').send(request).expect(202).expect({ id: 'responseId' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+      expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectRequest, OPTIONS);
+    });
+  });
+};
@@ -14,8 +14,13 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { splitSignature } from '@ethersproject/bytes';
+import { _TypedDataEncoder } from '@ethersproject/hash';
+import { Wallet } from '@ethersproject/wallet';
 import ERC20WithDataABI from '../../src/abi/ERC20WithData.json';
 import ERC20NoDataABI from '../../src/abi/ERC20NoData.json';
+import IERC20PermitABI from '../../src/abi/IERC20Permit.json';
+import IERC3009ABI from '../../src/abi/IERC3009.json';
 import {
   EthConnectAsyncResponse,
   EthConnectMsgRequest,
@@ -23,13 +28,21 @@ import {
   IAbiMethod,
   TokenApproval,
   TokenBurn,
+  TokenEstimate,
   TokenMint,
+  TokenPermit,
+  TokenPermitDataRequest,
   TokenPool,
+  TokenPoolDetails,
   TokenPoolEvent,
   TokenTransfer,
+  TokenTransferAuthorization,
   TokenType,
+  TransferAuthorizationMethod,
+  TransferEvent,
 } from '../../src/tokens/tokens.interfaces';
-import { FakeObservable, TestContext } from '../app.e2e-context';
+import { TokensService } from '../../src/tokens/tokens.service';
+import { FakeObservable, TestContext, TOPIC } from '../app.e2e-context';
 
 const BASE_URL = 'http://eth';
 const CONTRACT_ADDRESS = '0x123456';
@@ -53,20 +66,83 @@ const MINT_WITH_DATA = 'mintWithData';
 const TRANSFER_WITH_DATA = 'transferWithData';
 const BURN_WITH_DATA = 'burnWithData';
 const APPROVE_WITH_DATA = 'approveWithData';
+const BALANCE_OF = 'balanceOf';
+const TOTAL_SUPPLY = 'totalSupply';
+const PERMIT = 'permit';
+const NONCES = 'nonces';
+const TRANSFER_WITH_AUTHORIZATION = 'transferWithAuthorization';
+
+const RECIPIENT = '0x' + '33'.repeat(20);
+const AUTHORIZATION_DOMAIN = {
+  name: NAME,
+  version: '1',
+  chainId: 1337,
+  verifyingContract: '0x' + '12'.repeat(20),
+};
+const AUTHORIZATION_FIELDS = [
+  { name: 'from', type: 'address' },
+  { name: 'to', type: 'address' },
+  { name: 'value', type: 'uint256' },
+  { name: 'validAfter', type: 'uint256' },
+  { name: 'validBefore', type: 'uint256' },
+  { name: 'nonce', type: 'bytes32' },
+];
 
 const abiMethodMap = {
   ERC20WithData: ERC20WithDataABI.abi as IAbiMethod[],
   ERC20NoData: ERC20NoDataABI.abi as IAbiMethod[],
 };
 
+const holder = new Wallet('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+
+/**
+ * Sign an EIP-3009 authorization to transfer 100 tokens from the holder to the recipient.
+ */
+const signAuthorization = async (
+  overrides: Partial<TokenTransferAuthorization>,
+): Promise<TokenTransferAuthorization> => {
+  const method = overrides.method ?? TransferAuthorizationMethod.TRANSFER;
+  const primaryType = method.charAt(0).toUpperCase() + method.substring(1);
+  const message = {
+    from: holder.address,
+    to: RECIPIENT,
+    value: '100',
+    validAfter: '0',
+    validBefore: overrides.validBefore ?? String(Math.floor(Date.now() / 1000) + 3600),
+    nonce: '0x' + '01'.repeat(32),
+  };
+  const signature = splitSignature(
+    await holder._signTypedData(
+      AUTHORIZATION_DOMAIN,
+      { [primaryType]: AUTHORIZATION_FIELDS },
+      message,
+    ),
+  );
+  return {
+    poolLocator: ERC20_WITH_DATA_POOL_ID,
+    signer: IDENTITY,
+    ...message,
+    ...overrides,
+    v: signature.v,
+    r: signature.r,
+    s: signature.s,
+  };
+};
+
 export default (context: TestContext) => {
   const mockPoolQuery = (withData: boolean | undefined) => {
     if (withData !== undefined) {
-      context.http.post.mockReturnValueOnce(
-        new FakeObservable(<EthConnectReturn>{
-          output: withData,
-        }),
-      );
+      context.http.post
+        .mockReturnValueOnce(
+          new FakeObservable(<EthConnectReturn>{
+            output: false,
+          }),
+        )
+        .mockReturnValueOnce(
+          new FakeObservable(<EthConnectReturn>{
+            output: withData,
+          }),
+        );
     }
     context.http.post
       .mockReturnValueOnce(
@@ -204,6 +280,50 @@ export default (context: TestContext) => {
       expect(response.body).toEqual(expectedResponse);
     });
 
+    it('Deactivate pool', async () => {
+      context.eventstream.getStreams.mockResolvedValueOnce([{ id: 'es-1', name: TOPIC }]);
+      context.eventstream.getSubscriptions.mockResolvedValueOnce([
+        { id: 'sb-1', name: `${TOPIC}:${ERC20_WITH_DATA_POOL_ID}:Transfer`, stream: 'es-1' },
+        { id: 'sb-2', name: `${TOPIC}:${ERC20_NO_DATA_POOL_ID}:Transfer`, stream: 'es-1' },
+      ]);
+
+      await context.server
+        .post('/deactivatepool')
+        .send({ poolLocator: ERC20_WITH_DATA_POOL_ID })
+        .expect(204);
+
+      expect(context.eventstream.deleteSubscription).toHaveBeenCalledTimes(1);
+      expect(context.eventstream.deleteSubscription).toHaveBeenCalledWith('sb-1');
+    });
+
+    it('Deactivate pool - invalid pool locator', async () => {
+      await context.server
+        .post('/deactivatepool')
+        .send({ poolLocator: 'address=0x123' })
+        .expect(400)
+        .expect({ statusCode: 400, message: 'Invalid pool locator', error: 'Bad Request' });
+
+      expect(context.eventstream.getStreams).not.toHaveBeenCalled();
+      expect(context.eventstream.getSubscriptions).not.toHaveBeenCalled();
+    });
+
+    it('Deactivate pool - no event stream', async () => {
+      context.eventstream.getStreams.mockResolvedValueOnce([{ id: 'es-1', name: 'other' }]);
+
+      await context.server
+        .post('/deactivatepool')
+        .send({ poolLocator: ERC20_WITH_DATA_POOL_ID })
+        .expect(404)
+        .expect({
+          statusCode: 404,
+          message: `Event stream '${TOPIC}' not found`,
+          error: 'Not Found',
+        });
+
+      expect(context.eventstream.createOrUpdateStream).not.toHaveBeenCalled();
+      expect(context.eventstream.deleteSubscription).not.toHaveBeenCalled();
+    });
+
     it('Mint token', async () => {
       const request: TokenMint = {
         amount: '20',
@@ -333,6 +453,528 @@ export default (context: TestContext) => {
       expect(context.http.post).toHaveBeenCalledTimes(1);
       expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectRequest, OPTIONS);
     });
+
+    it('Mint token with decimal amount', async () => {
+      const request: TokenMint = {
+        amount: '12.5',
+        signer: IDENTITY,
+        poolLocator: ERC20_WITH_DATA_POOL_ID,
+        to: '0x123',
+        useDecimals: true,
+      };
+
+      const mockEthConnectRequest: EthConnectMsgRequest = {
+        headers: {
+          type: 'SendTransaction',
+        },
+        from: IDENTITY,
+        to: CONTRACT_ADDRESS,
+        method: abiMethodMap.ERC20WithData.find(abi => abi.name === MINT_WITH_DATA) as IAbiMethod,
+        params: ['0x123', '12500000000000000000', '0x00'],
+      };
+
+      const response: EthConnectAsyncResponse = {
+        id: 'responseId',
+        sent: true,
+      };
+
+      context.http.post
+        .mockReturnValueOnce(new FakeObservable(<EthConnectReturn>{ output: '18' }))
+        .mockReturnValueOnce(new FakeObservable(response));
+
+      await context.server.post('/mint').send(request).expect(202).expect({ id: 'responseId' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(2);
+      expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectRequest, OPTIONS);
+    });
+
+    it('Mint token with too many decimal places', async () => {
+      const request: TokenMint = {
+        amount: '0.0000000000000000001',
+        signer: IDENTITY,
+        poolLocator: ERC20_WITH_DATA_POOL_ID,
+        to: '0x123',
+        useDecimals: true,
+      };
+
+      context.http.post.mockReturnValueOnce(new FakeObservable(<EthConnectReturn>{ output: '18' }));
+
+      await context.server.post('/mint').send(request).expect(400).expect({
+        statusCode: 400,
+        message: "Invalid amount '0.0000000000000000001' for a pool with 18 decimals",
+        error: 'Bad Request',
+      });
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('Mint token with invalid useDecimals', async () => {
+      const request = {
+        amount: '12.5',
+        signer: IDENTITY,
+        poolLocator: ERC20_WITH_DATA_POOL_ID,
+        to: '0x123',
+        useDecimals: 'false',
+      };
+
+      context.http.post = jest.fn();
+
+      await context.server
+        .post('/mint')
+        .send(request)
+        .expect(400)
+        .expect({
+          statusCode: 400,
+          message: ['useDecimals must be a boolean value'],
+          error: 'Bad Request',
+        });
+
+      expect(context.http.post).not.toHaveBeenCalled();
+    });
+
+    it('Token approval with decimal allowance', async () => {
+      const request: TokenApproval = {
+        poolLocator: ERC20_WITH_DATA_POOL_ID,
+        signer: IDENTITY,
+        operator: '2',
+        approved: true,
+        config: {
+          allowance: '1.5',
+        },
+        useDecimals: true,
+      };
+
+      const mockEthConnectRequest: EthConnectMsgRequest = {
+        headers: {
+          type: 'SendTransaction',
+        },
+        from: IDENTITY,
+        to: CONTRACT_ADDRESS,
+        method: abiMethodMap.ERC20WithData.find(
+          abi => abi.name === APPROVE_WITH_DATA,
+        ) as IAbiMethod,
+        params: ['2', '1500000000000000000', '0x00'],
+      };
+
+      const response: EthConnectAsyncResponse = {
+        id: '1',
+        sent: true,
+      };
+
+      context.http.post
+        .mockReturnValueOnce(new FakeObservable(<EthConnectReturn>{ output: '18' }))
+        .mockReturnValueOnce(new FakeObservable(response));
+
+      await context.server.post('/approval').send(request).expect(202).expect({ id: '1' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(2);
+      expect(context.http.post).toHaveBeenLastCalledWith(BASE_URL, mockEthConnectRequest, OPTIONS);
+    });
+
+    it('Mint token - repeated request ID', async () => {
+      const request: TokenMint = {
+        amount: '20',
+        signer: IDENTITY,
+        poolLocator: ERC20_WITH_DATA_POOL_ID,
+        to: '0x123',
+        requestId: 'req1',
+      };
+
+      const response: EthConnectAsyncResponse = {
+        id: 'req1',
+        sent: true,
+      };
+
+      context.http.post = jest.fn(() => new FakeObservable(response));
+
+      await context.server.post('/mint').send(request).expect(202).expect({ id: 'req1' });
+      await context.server.post('/mint').send(request).expect(202).expect({ id: 'req1' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('Mint token - repeated request ID with different body', async () => {
+      const request: TokenMint = {
+        amount: '20',
+        signer: IDENTITY,
+        poolLocator: ERC20_WITH_DATA_POOL_ID,
+        to: '0x123',
+        requestId: 'req1',
+      };
+
+      const response: EthConnectAsyncResponse = {
+        id: 'req1',
+        sent: true,
+      };
+
+      context.http.post = jest.fn(() => new FakeObservable(response));
+
+      await context.server.post('/mint').send(request).expect(202).expect({ id: 'req1' });
+      await context.server
+        .post('/mint')
+        .send({ ...request, amount: '30' })
+        .expect(409)
+        .expect({
+          statusCode: 409,
+          message: "Request ID 'req1' was already used for a different request",
+          error: 'Conflict',
+        });
+      await context.server
+        .post('/burn')
+        .send({ ...request, from: '0x123', to: undefined })
+        .expect(409);
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('Replay events', async () => {
+      const transferEvent: TransferEvent = {
+        subId: 'replay',
+        signature: 'Transfer(address,address,uint256)',
+        address: CONTRACT_ADDRESS,
+        operator: IDENTITY,
+        blockNumber: '1200',
+        transactionIndex: '0x0',
+        transactionHash: '0x123',
+        logIndex: '1',
+        timestamp: '2020-01-01 00:00:00Z',
+        data: {
+          from: '0x0000000000000000000000000000000000000000',
+          to: '0x123',
+          value: '5',
+        },
+        inputSigner: IDENTITY,
+      };
+      const history = {
+        getBlockNumber: jest.fn(() => Promise.resolve(2500)),
+        getHistoricalEvents: jest
+          .fn()
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce([transferEvent]),
+      };
+      context.app.get(TokensService).useHistoryConnector(history);
+
+      const response = await context.server
+        .post('/replay')
+        .send({ poolLocator: ERC20_WITH_DATA_POOL_ID, fromBlock: '0', limit: 1 })
+        .expect(200);
+
+      expect(response.body.nextBlock).toEqual('2000');
+      expect(response.body.events).toHaveLength(1);
+      expect(response.body.events[0]).toEqual({
+        event: 'token-mint',
+        data: expect.objectContaining({
+          poolLocator: ERC20_WITH_DATA_POOL_ID,
+          to: '0x123',
+          amount: '5',
+          signer: IDENTITY,
+        }),
+      });
+      expect(history.getHistoricalEvents).toHaveBeenCalledTimes(2);
+      expect(history.getHistoricalEvents).toHaveBeenCalledWith(
+        CONTRACT_ADDRESS,
+        [
+          expect.objectContaining({ name: 'Transfer' }),
+          expect.objectContaining({ name: 'Approval' }),
+        ],
+        expect.anything(),
+        1000,
+        1999,
+      );
+    });
+
+    it('Replay events - no JSON-RPC endpoint', async () => {
+      await context.server
+        .post('/replay')
+        .send({ poolLocator: ERC20_WITH_DATA_POOL_ID, fromBlock: '0' })
+        .expect(400);
+    });
+
+    it('Permit', async () => {
+      const request: TokenPermit = {
+        poolLocator: ERC20_WITH_DATA_POOL_ID,
+        signer: IDENTITY,
+        owner: '0x2',
+        spender: '0x3',
+        value: '100',
+        deadline: '1700000000',
+        v: 27,
+        r: '0x' + '11'.repeat(32),
+        s: '0x' + '22'.repeat(32),
+      };
+
+      const mockEthConnectRequest: EthConnectMsgRequest = {
+        headers: {
+          type: 'SendTransaction',
+        },
+        from: IDENTITY,
+        to: CONTRACT_ADDRESS,
+        method: IERC20PermitABI.abi.find(abi => abi.name === PERMIT) as IAbiMethod,
+        params: ['0x2', '0x3', '100', '1700000000', 27, request.r, request.s],
+      };
+
+      const response: EthConnectAsyncResponse = {
+        id: '1',
+        sent: true,
+      };
+
+      context.http.post = jest.fn(() => new FakeObservable(response));
+
+      await context.server.post('/permit').send(request).expect(202).expect({ id: '1' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+      expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectRequest, OPTIONS);
+    });
+
+    it('Permit typed data', async () => {
+      const request: TokenPermitDataRequest = {
+        poolLocator: ERC20_WITH_DATA_POOL_ID,
+        owner: '0x2',
+        spender: '0x3',
+        value: '100',
+        deadline: '1700000000',
+      };
+
+      const chain = { getChainId: jest.fn(() => Promise.resolve(1337)) };
+      context.app.get(TokensService).useChainConnector(chain);
+      context.http.post = jest
+        .fn()
+        .mockReturnValueOnce(new FakeObservable(<EthConnectReturn>{ output: NAME }))
+        .mockReturnValueOnce(new FakeObservable(<EthConnectReturn>{ output: '3' }));
+
+      const response = await context.server.post('/permit/typeddata').send(request).expect(200);
+
+      expect(response.body).toEqual(
+        expect.objectContaining({
+          primaryType: 'Permit',
+          domain: {
+            name: NAME,
+            version: '1',
+            chainId: 1337,
+            verifyingContract: CONTRACT_ADDRESS,
+          },
+          message: {
+            owner: '0x2',
+            spender: '0x3',
+            value: '100',
+            nonce: '3',
+            deadline: '1700000000',
+          },
+        }),
+      );
+      expect(Object.keys(response.body.types)).toEqual(['EIP712Domain', 'Permit']);
+      expect(context.http.post).toHaveBeenCalledWith(
+        BASE_URL,
+        {
+          headers: { type: 'Query' },
+          to: CONTRACT_ADDRESS,
+          method: IERC20PermitABI.abi.find(abi => abi.name === NONCES),
+          params: ['0x2'],
+        },
+        OPTIONS,
+      );
+    });
+
+    it('Permit typed data - no JSON-RPC endpoint', async () => {
+      await context.server
+        .post('/permit/typeddata')
+        .send({
+          poolLocator: ERC20_WITH_DATA_POOL_ID,
+          owner: '0x2',
+          spender: '0x3',
+          value: '100',
+          deadline: '1700000000',
+        })
+        .expect(400);
+    });
+
+    it('Transfer with authorization', async () => {
+      const request = await signAuthorization({ signer: IDENTITY });
+      const separator = _TypedDataEncoder.hashDomain(AUTHORIZATION_DOMAIN);
+
+      const mockEthConnectRequest: EthConnectMsgRequest = {
+        headers: {
+          type: 'SendTransaction',
+        },
+        from: IDENTITY,
+        to: CONTRACT_ADDRESS,
+        method: IERC3009ABI.abi.find(abi => abi.name === TRANSFER_WITH_AUTHORIZATION) as IAbiMethod,
+        params: [
+          holder.address,
+          RECIPIENT,
+          '100',
+          '0',
+          request.validBefore,
+          request.nonce,
+          request.v,
+          request.r,
+          request.s,
+        ],
+      };
+
+      context.http.post = jest
+        .fn()
+        .mockReturnValueOnce(new FakeObservable(<EthConnectReturn>{ output: separator }))
+        .mockReturnValueOnce(new FakeObservable(<EthConnectAsyncResponse>{ id: '1', sent: true }));
+
+      await context.server
+        .post('/transferwithauthorization')
+        .send(request)
+        .expect(202)
+        .expect({ id: '1' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(2);
+      expect(context.http.post).toHaveBeenLastCalledWith(BASE_URL, mockEthConnectRequest, OPTIONS);
+    });
+
+    it('Transfer with authorization - signed by another account', async () => {
+      const request = await signAuthorization({ signer: IDENTITY });
+      const separator = _TypedDataEncoder.hashDomain(AUTHORIZATION_DOMAIN);
+
+      context.http.post = jest.fn(
+        () => new FakeObservable(<EthConnectReturn>{ output: separator }),
+      );
+
+      await context.server
+        .post('/transferwithauthorization')
+        .send({ ...request, value: '200' })
+        .expect(400);
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('Transfer with authorization - expired', async () => {
+      const request = await signAuthorization({ signer: IDENTITY, validBefore: '1000' });
+      context.http.post = jest.fn();
+
+      await context.server.post('/transferwithauthorization').send(request).expect(400);
+      expect(context.http.post).not.toHaveBeenCalled();
+    });
+
+    it('Receive with authorization - not submitted by the recipient', async () => {
+      const request = await signAuthorization({
+        signer: IDENTITY,
+        method: TransferAuthorizationMethod.RECEIVE,
+      });
+      context.http.post = jest.fn();
+
+      await context.server.post('/transferwithauthorization').send(request).expect(400);
+      expect(context.http.post).not.toHaveBeenCalled();
+    });
+
+    it('Estimate mint', async () => {
+      const request: TokenMint = {
+        amount: '20',
+        signer: IDENTITY,
+        poolLocator: ERC20_WITH_DATA_POOL_ID,
+        to: '0x123',
+      };
+      const estimate: TokenEstimate = {
+        to: CONTRACT_ADDRESS,
+        data: '0x1234',
+        success: true,
+        gasEstimate: '51234',
+      };
+      const estimator = { estimate: jest.fn(() => Promise.resolve(estimate)) };
+      context.app.get(TokensService).useEstimator(estimator);
+
+      await context.server.post('/estimate/mint').send(request).expect(200).expect(estimate);
+
+      expect(estimator.estimate).toHaveBeenCalledWith(
+        IDENTITY,
+        CONTRACT_ADDRESS,
+        abiMethodMap.ERC20WithData.find(abi => abi.name === MINT_WITH_DATA),
+        ['0x123', '20', '0x00'],
+      );
+      expect(context.http.post).not.toHaveBeenCalled();
+    });
+
+    it('Estimate transfer - reverted', async () => {
+      const request: TokenTransfer = {
+        amount: '20',
+        signer: IDENTITY,
+        poolLocator: ERC20_WITH_DATA_POOL_ID,
+        from: IDENTITY,
+        to: '0x123',
+      };
+      const estimate: TokenEstimate = {
+        to: CONTRACT_ADDRESS,
+        data: '0x1234',
+        success: false,
+        revertReason: 'ERC20: transfer amount exceeds balance',
+      };
+      const estimator = { estimate: jest.fn(() => Promise.resolve(estimate)) };
+      context.app.get(TokensService).useEstimator(estimator);
+
+      await context.server.post('/estimate/transfer').send(request).expect(200).expect(estimate);
+      expect(context.http.post).not.toHaveBeenCalled();
+    });
+
+    it('Estimate mint - no JSON-RPC endpoint', async () => {
+      await context.server
+        .post('/estimate/mint')
+        .send({ amount: '20', signer: IDENTITY, poolLocator: ERC20_WITH_DATA_POOL_ID, to: '0x123' })
+        .expect(400);
+    });
+
+    it('Get pool', async () => {
+      mockPoolQuery(undefined);
+      context.http.post.mockReturnValueOnce(
+        new FakeObservable(<EthConnectReturn>{
+          output: '1000',
+        }),
+      );
+
+      const response = await context.server
+        .get(`/pool/${encodeURIComponent(ERC20_WITH_DATA_POOL_ID)}`)
+        .expect(200);
+      expect(response.body).toEqual(<TokenPoolDetails>{
+        poolLocator: ERC20_WITH_DATA_POOL_ID,
+        standard: 'ERC20',
+        type: TokenType.FUNGIBLE,
+        symbol: SYMBOL,
+        decimals: 18,
+        totalSupply: '1000',
+        info: {
+          name: NAME,
+          address: CONTRACT_ADDRESS,
+          schema: ERC20_WITH_DATA_SCHEMA,
+        },
+      });
+      expect(context.http.post).toHaveBeenCalledTimes(4);
+      expect(context.http.post).toHaveBeenLastCalledWith(
+        BASE_URL,
+        <EthConnectMsgRequest>{
+          headers: { type: 'Query' },
+          to: CONTRACT_ADDRESS,
+          method: abiMethodMap.ERC20WithData.find(abi => abi.name === TOTAL_SUPPLY) as IAbiMethod,
+          params: [],
+        },
+        OPTIONS,
+      );
+    });
+
+    it('Query balance', async () => {
+      const mockEthConnectQuery: EthConnectMsgRequest = {
+        headers: {
+          type: 'Query',
+        },
+        to: CONTRACT_ADDRESS,
+        method: abiMethodMap.ERC20WithData.find(abi => abi.name === BALANCE_OF) as IAbiMethod,
+        params: ['0x123'],
+      };
+
+      context.http.post = jest.fn(() => new FakeObservable(<EthConnectReturn>{ output: '20' }));
+
+      await context.server
+        .get('/balance')
+        .query({ poolLocator: ERC20_WITH_DATA_POOL_ID, account: '0x123' })
+        .expect(200)
+        .expect({ balance: '20' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+      expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectQuery, OPTIONS);
+    });
   });
 
   describe('ERC20NoData', () => {
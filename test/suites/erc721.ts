@@ -14,8 +14,11 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { throwError } from 'rxjs';
 import ERC721NoDataABI from '../../src/abi/ERC721NoData.json';
 import ERC721WithDataABI from '../../src/abi/ERC721WithData.json';
+import IERC165ABI from '../../src/abi/IERC165.json';
+import ITokenBatchWithDataABI from '../../src/abi/ITokenBatchWithData.json';
 import {
   EthConnectAsyncResponse,
   EthConnectMsgRequest,
@@ -24,9 +27,12 @@ import {
   TokenApproval,
   TokenBurn,
   TokenMint,
+  TokenMintBatch,
   TokenPool,
+  TokenPoolDetails,
   TokenPoolEvent,
   TokenTransfer,
+  TokenTransferBatch,
   TokenType,
 } from '../../src/tokens/tokens.interfaces';
 import { FakeObservable, TestContext } from '../app.e2e-context';
@@ -54,6 +60,11 @@ const TRANSFER_WITH_DATA = 'transferWithData';
 const BURN_WITH_DATA = 'burnWithData';
 const APPROVE_WITH_DATA = 'approveWithData';
 const APPROVE_FOR_ALL_WITH_DATA = 'setApprovalForAllWithData';
+const BALANCE_OF = 'balanceOf';
+const OWNER_OF = 'ownerOf';
+const SUPPORTS_INTERFACE = 'supportsInterface';
+const MINT_BATCH_WITH_DATA = 'mintBatchWithData';
+const TOKEN_BATCH_WITH_DATA_IID = '0xb2ba6b96';
 
 const abiMethodMap = {
   ERC721NoData: ERC721NoDataABI.abi as IAbiMethod[],
@@ -63,11 +74,17 @@ const abiMethodMap = {
 export default (context: TestContext) => {
   const mockPoolQuery = (withData: boolean | undefined) => {
     if (withData !== undefined) {
-      context.http.post.mockReturnValueOnce(
-        new FakeObservable(<EthConnectReturn>{
-          output: withData,
-        }),
-      );
+      context.http.post
+        .mockReturnValueOnce(
+          new FakeObservable(<EthConnectReturn>{
+            output: false,
+          }),
+        )
+        .mockReturnValueOnce(
+          new FakeObservable(<EthConnectReturn>{
+            output: withData,
+          }),
+        );
     }
     context.http.post
       .mockReturnValueOnce(
@@ -210,6 +227,163 @@ export default (context: TestContext) => {
       expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectRequest, OPTIONS);
     });
 
+    it('Mint token batch', async () => {
+      const request: TokenMintBatch = {
+        signer: IDENTITY,
+        poolLocator: ERC721_WITH_DATA_POOL_ID,
+        requestId: REQUEST,
+        mints: [
+          { tokenIndex: '721', to: '0x123' },
+          { tokenIndex: '722', to: '0x456', data: 'test' },
+        ],
+      };
+
+      const mockSupportsRequest: EthConnectMsgRequest = {
+        headers: {
+          type: 'Query',
+        },
+        to: CONTRACT_ADDRESS,
+        method: IERC165ABI.abi.find(abi => abi.name === SUPPORTS_INTERFACE) as IAbiMethod,
+        params: [TOKEN_BATCH_WITH_DATA_IID],
+      };
+
+      const mockEthConnectRequest: EthConnectMsgRequest = {
+        headers: {
+          id: REQUEST,
+          type: 'SendTransaction',
+        },
+        from: IDENTITY,
+        to: CONTRACT_ADDRESS,
+        method: ITokenBatchWithDataABI.abi.find(
+          abi => abi.name === MINT_BATCH_WITH_DATA,
+        ) as IAbiMethod,
+        params: [
+          ['0x123', '0x456'],
+          ['721', '722'],
+          ['0x00', '0x74657374'],
+        ],
+      };
+
+      context.http.post = jest
+        .fn()
+        .mockReturnValueOnce(new FakeObservable(<EthConnectReturn>{ output: true }))
+        .mockReturnValueOnce(new FakeObservable(<EthConnectAsyncResponse>{ id: REQUEST }));
+
+      await context.server
+        .post('/mintbatch')
+        .send(request)
+        .expect(202)
+        .expect({
+          id: REQUEST,
+          items: [{ id: `${REQUEST}:0` }, { id: `${REQUEST}:1` }],
+        });
+
+      expect(context.http.post).toHaveBeenCalledTimes(2);
+      expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockSupportsRequest, OPTIONS);
+      expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectRequest, OPTIONS);
+    });
+
+    it('Mint token batch - no batch support', async () => {
+      const request: TokenMintBatch = {
+        signer: IDENTITY,
+        poolLocator: ERC721_WITH_DATA_POOL_ID,
+        requestId: REQUEST,
+        mints: [
+          { tokenIndex: '721', to: '0x123' },
+          { tokenIndex: '722', to: '0x456' },
+        ],
+      };
+
+      const mintAbi = abiMethodMap.ERC721WithData.find(
+        abi => abi.name === MINT_WITH_DATA,
+      ) as IAbiMethod;
+
+      context.http.post = jest
+        .fn()
+        .mockReturnValueOnce(new FakeObservable(<EthConnectReturn>{ output: false }))
+        .mockReturnValueOnce(new FakeObservable(<EthConnectAsyncResponse>{ id: `${REQUEST}:0` }))
+        .mockReturnValueOnce(new FakeObservable(<EthConnectAsyncResponse>{ id: `${REQUEST}:1` }));
+
+      await context.server
+        .post('/mintbatch')
+        .send(request)
+        .expect(202)
+        .expect({
+          id: REQUEST,
+          items: [{ id: `${REQUEST}:0` }, { id: `${REQUEST}:1` }],
+        });
+
+      expect(context.http.post).toHaveBeenCalledTimes(3);
+      expect(context.http.post).toHaveBeenCalledWith(
+        BASE_URL,
+        <EthConnectMsgRequest>{
+          headers: { id: `${REQUEST}:0`, type: 'SendTransaction' },
+          from: IDENTITY,
+          to: CONTRACT_ADDRESS,
+          method: mintAbi,
+          params: ['0x123', '721', '0x00'],
+        },
+        OPTIONS,
+      );
+      expect(context.http.post).toHaveBeenCalledWith(
+        BASE_URL,
+        <EthConnectMsgRequest>{
+          headers: { id: `${REQUEST}:1`, type: 'SendTransaction' },
+          from: IDENTITY,
+          to: CONTRACT_ADDRESS,
+          method: mintAbi,
+          params: ['0x456', '722', '0x00'],
+        },
+        OPTIONS,
+      );
+    });
+
+    it('Transfer token batch - partial failure', async () => {
+      const request: TokenTransferBatch = {
+        signer: IDENTITY,
+        poolLocator: ERC721_WITH_DATA_POOL_ID,
+        requestId: REQUEST,
+        transfers: [
+          { tokenIndex: '721', from: IDENTITY, to: '0x123' },
+          { tokenIndex: '722', from: IDENTITY, to: '0x456' },
+        ],
+      };
+
+      context.http.post = jest
+        .fn()
+        .mockReturnValueOnce(new FakeObservable(<EthConnectReturn>{ output: false }))
+        .mockReturnValueOnce(new FakeObservable(<EthConnectAsyncResponse>{ id: `${REQUEST}:0` }))
+        .mockReturnValueOnce(throwError(() => new Error('Failed')));
+
+      await context.server
+        .post('/transferbatch')
+        .send(request)
+        .expect(202)
+        .expect({
+          id: REQUEST,
+          items: [{ id: `${REQUEST}:0` }, { id: `${REQUEST}:1`, error: 'Failed' }],
+        });
+
+      expect(context.http.post).toHaveBeenCalledTimes(3);
+    });
+
+    it('Transfer token batch - nonfungible amount', async () => {
+      const request: TokenTransferBatch = {
+        signer: IDENTITY,
+        poolLocator: ERC721_WITH_DATA_POOL_ID,
+        transfers: [
+          { tokenIndex: '721', from: IDENTITY, to: '0x123' },
+          { tokenIndex: '722', from: IDENTITY, to: '0x456', amount: '2' },
+        ],
+      };
+
+      context.http.post = jest.fn();
+
+      await context.server.post('/transferbatch').send(request).expect(400);
+
+      expect(context.http.post).toHaveBeenCalledTimes(0);
+    });
+
     it('Burn token', async () => {
       const request: TokenBurn = {
         tokenIndex: '721',
@@ -308,6 +482,119 @@ export default (context: TestContext) => {
       expect(context.http.post).toHaveBeenCalledTimes(1);
       expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectRequest, OPTIONS);
     });
+
+    it('Permit - not supported', async () => {
+      context.http.post = jest.fn();
+
+      await context.server
+        .post('/permit')
+        .send({
+          poolLocator: ERC721_WITH_DATA_POOL_ID,
+          signer: IDENTITY,
+          owner: '0x2',
+          spender: '0x3',
+          value: '1',
+          deadline: '1700000000',
+          v: 27,
+          r: '0x' + '11'.repeat(32),
+          s: '0x' + '22'.repeat(32),
+        })
+        .expect(400);
+
+      expect(context.http.post).not.toHaveBeenCalled();
+    });
+
+    it('Get pool - enumerable', async () => {
+      mockPoolQuery(undefined);
+      context.http.post
+        .mockReturnValueOnce(
+          new FakeObservable(<EthConnectReturn>{
+            output: true,
+          }),
+        )
+        .mockReturnValueOnce(
+          new FakeObservable(<EthConnectReturn>{
+            output: '12',
+          }),
+        );
+
+      const response = await context.server
+        .get(`/pool/${encodeURIComponent(ERC721_WITH_DATA_POOL_ID)}`)
+        .expect(200);
+      expect(response.body).toEqual(<TokenPoolDetails>{
+        poolLocator: ERC721_WITH_DATA_POOL_ID,
+        standard: 'ERC721',
+        type: TokenType.NONFUNGIBLE,
+        symbol: SYMBOL,
+        decimals: 0,
+        totalSupply: '12',
+        info: {
+          name: NAME,
+          address: CONTRACT_ADDRESS,
+          schema: ERC721_WITH_DATA_SCHEMA,
+        },
+      });
+      expect(context.http.post).toHaveBeenCalledTimes(4);
+    });
+
+    it('Get pool - not enumerable', async () => {
+      mockPoolQuery(undefined);
+      context.http.post.mockReturnValueOnce(
+        new FakeObservable(<EthConnectReturn>{
+          output: false,
+        }),
+      );
+
+      const response = await context.server
+        .get(`/pool/${encodeURIComponent(ERC721_WITH_DATA_POOL_ID)}`)
+        .expect(200);
+      expect(response.body.totalSupply).toBeUndefined();
+      expect(context.http.post).toHaveBeenCalledTimes(3);
+    });
+
+    it('Query balance', async () => {
+      const mockEthConnectQuery: EthConnectMsgRequest = {
+        headers: {
+          type: 'Query',
+        },
+        to: CONTRACT_ADDRESS,
+        method: abiMethodMap.ERC721WithData.find(abi => abi.name === BALANCE_OF) as IAbiMethod,
+        params: ['0x123'],
+      };
+
+      context.http.post = jest.fn(() => new FakeObservable(<EthConnectReturn>{ output: '3' }));
+
+      await context.server
+        .get('/balance')
+        .query({ poolLocator: ERC721_WITH_DATA_POOL_ID, account: '0x123' })
+        .expect(200)
+        .expect({ balance: '3' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+      expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectQuery, OPTIONS);
+    });
+
+    it('Query balance of one token', async () => {
+      const mockEthConnectQuery: EthConnectMsgRequest = {
+        headers: {
+          type: 'Query',
+        },
+        to: CONTRACT_ADDRESS,
+        method: abiMethodMap.ERC721WithData.find(abi => abi.name === OWNER_OF) as IAbiMethod,
+        params: ['5'],
+      };
+
+      context.http.post = jest.fn(() => new FakeObservable(<EthConnectReturn>{ output: '0xABC' }));
+
+      await context.server
+        .get('/balance')
+        .query({ poolLocator: ERC721_WITH_DATA_POOL_ID, account: '0xabc', tokenIndex: '5' })
+        .expect(200)
+        .expect({ balance: '1' });
+
+      expect(context.http.post).toHaveBeenCalledTimes(1);
+      expect(context.http.post).toHaveBeenCalledWith(BASE_URL, mockEthConnectQuery, OPTIONS);
+    });
   });
 
   describe('ERC721NoData', () => {
@@ -0,0 +1,54 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { EthConnectReturn, TokenType } from '../../src/tokens/tokens.interfaces';
+import { FakeObservable, TestContext } from '../app.e2e-context';
+
+const CONTRACT_ADDRESS = '0x123456';
+const POOL_ID = `address=${CONTRACT_ADDRESS}&schema=ERC20WithData&type=${TokenType.FUNGIBLE}`;
+
+export default (context: TestContext) => {
+  it('Expose REST and blockchain request metrics', async () => {
+    context.http.post = jest.fn(() => new FakeObservable(<EthConnectReturn>{ output: '5' }));
+
+    await context.server
+      .get('/balance')
+      .query({ poolLocator: POOL_ID, account: '0x123' })
+      .expect(200);
+
+    const response = await context.server
+      .get('/metrics')
+      .expect(200)
+      .expect('Content-Type', /text\/plain/);
+    expect(response.text).toContain(
+      'fftokens_http_requests_total{method="GET",route="balance",status="200"} 1',
+    );
+    expect(response.text).toContain(
+      'fftokens_blockchain_request_duration_seconds_count{operation="query",status="success"} 1',
+    );
+  });
+
+  it('Track connected websocket clients', () => {
+    return context.server
+      .ws('/api/ws')
+      .exec(async () => {
+        const response = await context.server.get('/metrics').expect(200);
+        expect(response.text).toContain('fftokens_websocket_clients 1');
+      })
+      .close()
+      .expectClosed();
+  });
+};
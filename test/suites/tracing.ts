@@ -0,0 +1,114 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { InMemorySpanExporter } from '@opentelemetry/sdk-trace-base';
+import {
+  EventStreamReply,
+  EventStreamSubscription,
+} from '../../src/event-stream/event-stream.interfaces';
+import {
+  EthConnectAsyncResponse,
+  TokenMint,
+  TokenType,
+  TransferEvent,
+} from '../../src/tokens/tokens.interfaces';
+import { TracingService } from '../../src/tracing/tracing.service';
+import { FakeObservable, TestContext, TOPIC } from '../app.e2e-context';
+
+const CONTRACT_ADDRESS = '0x123456';
+const IDENTITY = '0x321';
+const POOL_ID = `address=${CONTRACT_ADDRESS}&schema=ERC20WithData&type=${TokenType.FUNGIBLE}`;
+const TX_HASH = '0xabc';
+
+const mockMintTransferEvent: TransferEvent = {
+  subId: 'sb-123',
+  signature: 'Transfer(address,address,uint256)',
+  operator: IDENTITY,
+  address: CONTRACT_ADDRESS,
+  blockNumber: '1',
+  transactionIndex: '0x0',
+  transactionHash: TX_HASH,
+  logIndex: '1',
+  timestamp: '2020-01-01 00:00:00Z',
+  data: {
+    from: '0x0000000000000000000000000000000000000000',
+    to: 'A',
+    value: '5',
+  },
+  inputSigner: IDENTITY,
+};
+
+export default (context: TestContext) => {
+  let exporter: InMemorySpanExporter;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    context.app.get(TracingService).configure('test', '', exporter);
+  });
+
+  it('Trace a request through to its receipt and events', async () => {
+    context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
+      name: TOPIC + ':' + POOL_ID,
+    });
+    context.http.post = jest.fn(
+      () => new FakeObservable(<EthConnectAsyncResponse>{ id: 'req1', sent: true }),
+    );
+
+    const request: TokenMint = {
+      poolLocator: POOL_ID,
+      signer: IDENTITY,
+      to: 'A',
+      amount: '5',
+      requestId: 'req1',
+    };
+    await context.server.post('/mint').send(request).expect(202).expect({ id: 'req1' });
+
+    await context.server
+      .ws('/api/ws')
+      .exec(() => {
+        context.receiptHandler(<EventStreamReply>{
+          headers: { requestId: 'req1', type: 'TransactionSuccess' },
+          transactionHash: TX_HASH,
+        });
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('receipt');
+        return true;
+      })
+      .exec(() => {
+        context.eventHandler([mockMintTransferEvent]);
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('token-mint');
+        return true;
+      })
+      .close()
+      .expectClosed();
+
+    const spans = exporter.getFinishedSpans();
+    const names = spans.map(span => span.name);
+    expect(names).toEqual(
+      expect.arrayContaining(['POST mint', 'sendTransaction', 'receipt', 'processEvent']),
+    );
+    const traceIds = new Set(spans.map(span => span.spanContext().traceId));
+    expect(traceIds.size).toEqual(1);
+
+    const sendSpan = spans.find(span => span.name === 'sendTransaction');
+    expect(sendSpan?.attributes['request.id']).toEqual('req1');
+    const eventSpan = spans.find(span => span.name === 'processEvent');
+    expect(eventSpan?.events.map(event => event.attributes?.event)).toEqual(['token-mint']);
+  });
+};
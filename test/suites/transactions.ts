@@ -0,0 +1,66 @@
+// Copyright © 2022 Kaleido, Inc.
+//
+// SPDX-License-Identifier: Apache-2.0
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     http://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { JsonRpcCall, TransactionStatus } from '../../src/transactions/transactions.interfaces';
+import { TransactionManager } from '../../src/transactions/transactions.manager';
+import { TransactionsService } from '../../src/transactions/transactions.service';
+import { TestContext } from '../app.e2e-context';
+
+const SIGNER = '0xb107ed9caa1323b7bc36e81995a4658ec2251951';
+const OTHER_SIGNER = '0x70997970c51812dc3a010c7d01b50e0d17dc79c8';
+const CONTRACT_ADDRESS = '0x123456';
+const TX_HASH = '0x' + '12'.repeat(32);
+
+export default (context: TestContext) => {
+  it('Transactions are not tracked with ethconnect', async () => {
+    await context.server.get('/transactions').expect(400);
+  });
+
+  it('List transactions for a signer', async () => {
+    const rpc = jest.fn((method: string) => {
+      switch (method) {
+        case 'eth_getTransactionCount':
+          return Promise.resolve('0x5');
+        case 'eth_estimateGas':
+          return Promise.resolve('0x5208');
+        case 'eth_getBlockByNumber':
+          return Promise.resolve({ number: '0x1' });
+        case 'eth_gasPrice':
+          return Promise.resolve('0x3b9aca00');
+        case 'eth_sendTransaction':
+          return Promise.resolve(TX_HASH);
+      }
+      return Promise.reject(new Error(`Unexpected method ${method}`));
+    });
+    const manager = new TransactionManager(rpc as unknown as JsonRpcCall);
+    context.app.get(TransactionsService).useManager(manager);
+    await manager.submit('req-1', SIGNER, CONTRACT_ADDRESS, '0x01');
+
+    const response = await context.server.get(`/transactions?signer=${SIGNER}`).expect(200);
+    expect(response.body).toEqual([
+      expect.objectContaining({
+        requestId: 'req-1',
+        signer: SIGNER,
+        nonce: 5,
+        status: TransactionStatus.PENDING,
+        hash: TX_HASH,
+        gasPrice: '1000000000',
+      }),
+    ]);
+
+    await context.server.get(`/transactions?signer=${OTHER_SIGNER}`).expect(200).expect([]);
+  });
+};
@@ -14,23 +14,35 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
+import { ClientRequest, get, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ConfirmationsService } from '../../src/confirmations/confirmations.service';
 import {
   EventStreamReply,
   EventStreamSubscription,
 } from '../../src/event-stream/event-stream.interfaces';
-import { ReceiptEvent } from '../../src/eventstream-proxy/eventstream-proxy.interfaces';
+import { EventStreamProxyGateway } from '../../src/eventstream-proxy/eventstream-proxy.gateway';
+import {
+  ReceiptEvent,
+  WebSocketMessageWithId,
+} from '../../src/eventstream-proxy/eventstream-proxy.interfaces';
+import { MemoryDeliveryStore } from '../../src/eventstream-proxy/eventstream-proxy.store';
 import {
   ApprovalForAllEvent,
   ERC20ApprovalEvent,
   ERC721ApprovalEvent,
+  ERC1155ApprovalForAllEvent,
   EthConnectReturn,
   TokenApprovalEvent,
   TokenBurnEvent,
   TokenMintEvent,
   TokenTransferEvent,
   TokenType,
+  TransferBatchEvent,
   TransferEvent,
+  TransferSingleEvent,
 } from '../../src/tokens/tokens.interfaces';
+import { TokensService } from '../../src/tokens/tokens.service';
 import { WebSocketMessage } from '../../src/websocket-events/websocket-events.base';
 import { FakeObservable, TestContext } from '../app.e2e-context';
 
@@ -42,11 +54,16 @@ const ERC20_POOL_ID = `address=${CONTRACT_ADDRESS}&schema=${ERC20_STANDARD}&type
 const ERC721_STANDARD = 'ERC721WithData';
 const ERC721_POOL_ID = `address=${CONTRACT_ADDRESS}&schema=${ERC721_STANDARD}&type=${TokenType.NONFUNGIBLE}`;
 const ERC721_BASE_URI = 'firefly://token/';
+const ERC1155_STANDARD = 'ERC1155WithData';
+const ERC1155_POOL_ID = `address=${CONTRACT_ADDRESS}&schema=${ERC1155_STANDARD}&type=${TokenType.FUNGIBLE}`;
+const ERC1155_URI = 'firefly://token/{id}';
 const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
 
 const transferEventSignature = 'Transfer(address,address,uint256)';
 const approvalEventSignature = 'Approval(address,address,uint256)';
 const approvalForAllEventSignature = 'ApprovalForAll(address,address,bool)';
+const transferSingleEventSignature = 'TransferSingle(address,address,address,uint256,uint256)';
+const transferBatchEventSignature = 'TransferBatch(address,address,address,uint256[],uint256[])';
 
 const mockERC20MintTransferEvent: TransferEvent = {
   subId: 'sb-123',
@@ -194,6 +211,28 @@ const mockApprovalForAllEvent: ApprovalForAllEvent = {
 };
 
 export default (context: TestContext) => {
+  /**
+   * Open a Server-Sent Events stream, and pass each received message to the callback.
+   */
+  const openEventStream = (path: string, onMessage: (message: WebSocketMessageWithId) => void) =>
+    new Promise<ClientRequest>((resolve, reject) => {
+      const { port } = (context.app.getHttpServer() as Server).address() as AddressInfo;
+      const req = get({ port, path }, res => {
+        expect(res.statusCode).toEqual(200);
+        expect(res.headers['content-type']).toEqual('text/event-stream');
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          for (const line of chunk.split('\n')) {
+            if (line.startsWith('data: ')) {
+              onMessage(JSON.parse(line.substring(6)));
+            }
+          }
+        });
+        resolve(req);
+      });
+      req.on('error', err => reject(err));
+    });
+
   it('ERC20 token mint event', async () => {
     context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
       name: TOPIC + ':' + ERC20_POOL_ID,
@@ -245,6 +284,29 @@ export default (context: TestContext) => {
       });
   });
 
+  it('ERC20 token mint event with formatted amount', async () => {
+    context.app.get(TokensService).formatAmounts = true;
+    context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
+      name: TOPIC + ':' + ERC20_POOL_ID,
+    });
+    context.http.post = jest.fn(() => new FakeObservable(<EthConnectReturn>{ output: '1' }));
+
+    await context.server
+      .ws('/api/ws')
+      .exec(() => {
+        expect(context.eventHandler).toBeDefined();
+        context.eventHandler([mockERC20MintTransferEvent]);
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('token-mint');
+        expect(message.data.amount).toEqual('5');
+        expect(message.data.formattedAmount).toEqual('0.5');
+        return true;
+      });
+
+    expect(context.http.post).toHaveBeenCalledTimes(1);
+  });
+
   it('ERC20 token mint event with old locator', async () => {
     context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
       name:
@@ -434,6 +496,38 @@ export default (context: TestContext) => {
       });
   });
 
+  it('ERC20 token transfer event - relayed authorization', async () => {
+    context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
+      name: TOPIC + ':' + ERC20_POOL_ID,
+    });
+
+    const relayedEvent: TransferEvent = {
+      ...mockERC20TransferEvent,
+      inputMethod: 'transferWithAuthorization',
+      inputArgs: {
+        from: 'A',
+        to: 'B',
+        value: '5',
+        validAfter: '0',
+        validBefore: '1700000000',
+        nonce: '0x' + '00'.repeat(32),
+      },
+      inputSigner: 'relayer',
+    };
+
+    await context.server
+      .ws('/api/ws')
+      .exec(() => {
+        expect(context.eventHandler).toBeDefined();
+        context.eventHandler([relayedEvent]);
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('token-transfer');
+        expect(message.data).toMatchObject({ from: 'A', to: 'B', amount: '5', signer: 'A' });
+        return true;
+      });
+  });
+
   it('ERC721 token transfer event', async () => {
     context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
       name: TOPIC + ':' + ERC721_POOL_ID,
@@ -824,6 +918,183 @@ export default (context: TestContext) => {
       });
   });
 
+  it('ERC1155 token transfer single event', async () => {
+    context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
+      name: TOPIC + ':' + ERC1155_POOL_ID,
+    });
+
+    context.http.post = jest.fn(
+      () => new FakeObservable(<EthConnectReturn>{ output: ERC1155_URI }),
+    );
+
+    const mockTransferSingleEvent: TransferSingleEvent = {
+      subId: 'sb-123',
+      signature: transferSingleEventSignature,
+      address: 'bob',
+      operator: 'A',
+      blockNumber: '1',
+      transactionIndex: '0x0',
+      transactionHash: '0x123',
+      logIndex: '1',
+      timestamp: '2020-01-01 00:00:00Z',
+      data: {
+        operator: 'A',
+        from: 'A',
+        to: 'B',
+        id: '7',
+        value: '5',
+      },
+      inputMethod: 'transferWithData',
+      inputArgs: {
+        data: '0x74657374',
+      },
+      inputSigner: IDENTITY,
+    };
+
+    const mockTransferWebSocketMessage: WebSocketMessage = {
+      event: 'token-transfer',
+      data: <TokenTransferEvent>{
+        id: '000000000001/000000/000001',
+        poolLocator: ERC1155_POOL_ID,
+        tokenIndex: '7',
+        uri: ERC1155_URI,
+        from: 'A',
+        to: 'B',
+        amount: '5',
+        signer: IDENTITY,
+        data: 'test',
+        blockchain: {
+          id: '000000000001/000000/000001',
+          name: 'TransferSingle',
+          location: 'address=bob',
+          signature: transferSingleEventSignature,
+          timestamp: '2020-01-01 00:00:00Z',
+          output: {
+            operator: 'A',
+            from: 'A',
+            to: 'B',
+            id: '7',
+            value: '5',
+          },
+          info: {
+            address: 'bob',
+            blockNumber: '1',
+            transactionIndex: '0x0',
+            transactionHash: '0x123',
+            logIndex: '1',
+            signature: transferSingleEventSignature,
+          },
+        },
+      },
+    };
+
+    await context.server
+      .ws('/api/ws')
+      .exec(() => {
+        expect(context.eventHandler).toBeDefined();
+        context.eventHandler([mockTransferSingleEvent]);
+      })
+      .expectJson(message => {
+        expect(message.id).toBeDefined();
+        delete message.id;
+        expect(message).toEqual(mockTransferWebSocketMessage);
+        return true;
+      });
+  });
+
+  it('ERC1155 token transfer batch event', async () => {
+    context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
+      name: TOPIC + ':' + ERC1155_POOL_ID,
+    });
+
+    context.http.post = jest.fn(
+      () => new FakeObservable(<EthConnectReturn>{ output: ERC1155_URI }),
+    );
+
+    const mockTransferBatchEvent: TransferBatchEvent = {
+      subId: 'sb-123',
+      signature: transferBatchEventSignature,
+      address: 'bob',
+      operator: 'A',
+      blockNumber: '1',
+      transactionIndex: '0x0',
+      transactionHash: '0x123',
+      logIndex: '1',
+      timestamp: '2020-01-01 00:00:00Z',
+      data: {
+        operator: 'A',
+        from: ZERO_ADDRESS,
+        to: 'B',
+        ids: ['7', '8'],
+        values: ['5', '1'],
+      },
+      inputSigner: IDENTITY,
+    };
+
+    await context.server
+      .ws('/api/ws')
+      .exec(() => {
+        expect(context.eventHandler).toBeDefined();
+        context.eventHandler([mockTransferBatchEvent]);
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('token-mint');
+        expect(message.data.id).toEqual('000000000001/000000/000001/000000');
+        expect(message.data.blockchain.name).toEqual('TransferBatch');
+        expect(message.data.tokenIndex).toEqual('7');
+        expect(message.data.amount).toEqual('5');
+        expect(message.data.to).toEqual('B');
+        return true;
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('token-mint');
+        expect(message.data.id).toEqual('000000000001/000000/000001/000001');
+        expect(message.data.tokenIndex).toEqual('8');
+        expect(message.data.amount).toEqual('1');
+        expect(message.data.to).toEqual('B');
+        return true;
+      });
+  });
+
+  it('ERC1155 token approval for all event', async () => {
+    context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
+      name: TOPIC + ':' + ERC1155_POOL_ID,
+    });
+
+    const mockERC1155ApprovalForAllEvent: ERC1155ApprovalForAllEvent = {
+      subId: 'sb-123',
+      signature: approvalForAllEventSignature,
+      address: 'bob',
+      operator: 'A',
+      blockNumber: '1',
+      transactionIndex: '0x0',
+      transactionHash: '0x123',
+      logIndex: '1',
+      timestamp: '2020-01-01 00:00:00Z',
+      data: {
+        account: IDENTITY,
+        operator: 'B',
+        approved: true,
+      },
+      inputSigner: IDENTITY,
+    };
+
+    await context.server
+      .ws('/api/ws')
+      .exec(() => {
+        expect(context.eventHandler).toBeDefined();
+        context.eventHandler([mockERC1155ApprovalForAllEvent]);
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('token-approval');
+        expect(message.data.subject).toEqual(IDENTITY + ':B');
+        expect(message.data.signer).toEqual(IDENTITY);
+        expect(message.data.operator).toEqual('B');
+        expect(message.data.approved).toEqual(true);
+        return true;
+      });
+  });
+
   it('Success receipt', () => {
     return context.server
       .ws('/api/ws')
@@ -874,6 +1145,102 @@ export default (context: TestContext) => {
       });
   });
 
+  it('Receipts for subscribed request IDs only', () => {
+    return context.server
+      .ws('/api/ws')
+      .sendJson({ event: 'subscribeReceipts', data: { ids: ['2'] } })
+      .expectJson(message => {
+        expect(message).toEqual({ event: 'receiptsSubscribed', data: { ids: ['2'] } });
+        return true;
+      })
+      .exec(() => {
+        expect(context.receiptHandler).toBeDefined();
+        context.receiptHandler(<EventStreamReply>{
+          headers: {
+            requestId: '1',
+            type: 'TransactionSuccess',
+          },
+        });
+        context.receiptHandler(<EventStreamReply>{
+          headers: {
+            requestId: '2',
+            type: 'TransactionSuccess',
+          },
+        });
+      })
+      .expectJson(message => {
+        expect(message).toEqual(<WebSocketMessage>{
+          event: 'receipt',
+          data: <ReceiptEvent>{
+            id: '2',
+            success: true,
+          },
+        });
+        return true;
+      });
+  });
+
+  it('Receipt received before subscribing', () => {
+    return context.server
+      .ws('/api/ws')
+      .exec(() => {
+        context.receiptHandler(<EventStreamReply>{
+          headers: {
+            requestId: '1',
+            type: 'TransactionSuccess',
+          },
+        });
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('receipt');
+        return true;
+      })
+      .sendJson({ event: 'subscribeReceipts', data: { ids: ['1', '2'] } })
+      .expectJson(message => {
+        expect(message).toEqual(<WebSocketMessage>{
+          event: 'receipt',
+          data: <ReceiptEvent>{
+            id: '1',
+            success: true,
+          },
+        });
+        return true;
+      })
+      .expectJson(message => {
+        expect(message).toEqual({ event: 'receiptsSubscribed', data: { ids: ['2'] } });
+        return true;
+      });
+  });
+
+  it('Wait for receipt', async () => {
+    context.http.get = jest.fn(() => new FakeObservable(undefined, 404));
+
+    await context.server.ws('/api/ws').exec(async () => {
+      const receipt = context.server.get('/receipt/1?waitMs=5000').expect(200);
+      setTimeout(
+        () =>
+          context.receiptHandler(<EventStreamReply>{
+            headers: {
+              requestId: '1',
+              type: 'TransactionSuccess',
+            },
+          }),
+        100,
+      );
+      const response = await receipt;
+      expect(response.body).toEqual({ headers: { requestId: '1', type: 'TransactionSuccess' } });
+    });
+
+    expect(context.http.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('Wait for receipt - timeout', async () => {
+    context.http.get = jest.fn(() => new FakeObservable(undefined, 404));
+
+    await context.server.get('/receipt/1?waitMs=50').expect(404);
+    await context.server.get('/receipt/1?waitMs=abc').expect(400);
+  });
+
   it('Disconnect and reconnect', async () => {
     context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
       name: TOPIC + ':' + CONTRACT_ADDRESS,
@@ -984,4 +1351,354 @@ export default (context: TestContext) => {
       return true;
     });
   });
+
+  it('Resend unacked messages after restart', async () => {
+    const pendingMessage: WebSocketMessageWithId = {
+      id: 'msg1',
+      event: 'token-mint',
+      data: { poolLocator: ERC20_POOL_ID },
+    };
+    const store = new MemoryDeliveryStore({
+      dispatchedEvents: ['sb-123/1/0x0/1'],
+      awaitingAck: [pendingMessage],
+    });
+    context.app.get(EventStreamProxyGateway).configure('url', TOPIC, store);
+
+    context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
+      name: TOPIC + ':' + ERC20_POOL_ID + ':' + ERC20_STANDARD,
+    });
+
+    await context.server
+      .ws('/api/ws')
+      .expectJson(message => {
+        expect(message).toEqual(pendingMessage);
+        return true;
+      })
+      .exec(() => {
+        // Redelivered event was already dispatched, so it should be skipped
+        context.eventHandler([mockERC20MintTransferEvent]);
+      })
+      .wait(100)
+      .exec(() => {
+        expect(context.socket.ack).not.toHaveBeenCalled();
+      })
+      .sendJson({ event: 'ack', data: { id: 'msg1' } })
+      .wait(100)
+      .exec(async () => {
+        expect(context.socket.ack).toHaveBeenCalledTimes(1);
+        expect(await store.load()).toEqual({
+          dispatchedEvents: [],
+          awaitingAck: [],
+          consumers: [],
+        });
+      });
+  });
+
+  it('Persist delivery state once per batch', async () => {
+    const store = new MemoryDeliveryStore();
+    const save = jest.spyOn(store, 'save');
+    context.app.get(EventStreamProxyGateway).configure('url', TOPIC, store);
+
+    context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
+      name: TOPIC + ':' + ERC20_POOL_ID + ':' + ERC20_STANDARD,
+    });
+
+    const messageIDs: string[] = [];
+    await context.server
+      .ws('/api/ws')
+      .exec(() => {
+        save.mockClear();
+        context.eventHandler([
+          mockERC20MintTransferEvent,
+          { ...mockERC20TransferEvent, logIndex: '2' },
+          { ...mockERC20BurnEvent, logIndex: '3' },
+        ]);
+      })
+      .expectJson(message => {
+        messageIDs.push(message.id);
+        return true;
+      })
+      .expectJson(message => {
+        messageIDs.push(message.id);
+        return true;
+      })
+      .expectJson(message => {
+        messageIDs.push(message.id);
+        return true;
+      })
+      .wait(100)
+      .exec(() => {
+        expect(save).toHaveBeenCalledTimes(1);
+        expect(save.mock.calls[0][0].awaitingAck).toHaveLength(3);
+      })
+      .exec(client => {
+        for (const id of messageIDs) {
+          client.send(JSON.stringify({ event: 'ack', data: { id } }));
+        }
+      })
+      .wait(100)
+      .exec(() => {
+        // One save per acknowledgment
+        expect(save).toHaveBeenCalledTimes(4);
+        expect(save.mock.calls[3][0]).toEqual({
+          dispatchedEvents: [],
+          awaitingAck: [],
+          consumers: [],
+          checkpoints: { [TOPIC + ':' + ERC20_POOL_ID + ':' + ERC20_STANDARD]: '1' },
+        });
+        expect(context.socket.ack).toHaveBeenCalled();
+      });
+  });
+
+  it('Fan-out to subscribed topics', async () => {
+    context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
+      name: TOPIC + ':' + ERC20_POOL_ID,
+    });
+
+    const ws1 = context.server.ws('/api/ws');
+    const ws2 = context.server.ws('/api/ws');
+    let messageID: string;
+
+    await ws1.sendJson({ event: 'subscribe', data: { topic: 'ns1' } }).expectJson({
+      event: 'subscribed',
+      data: { topic: 'ns1' },
+    });
+    await ws2
+      .sendJson({ event: 'subscribe', data: { topic: 'ns2', poolLocators: [ERC20_POOL_ID] } })
+      .expectJson({
+        event: 'subscribed',
+        data: { topic: 'ns2', poolLocators: [ERC20_POOL_ID] },
+      });
+
+    await ws1
+      .exec(() => {
+        context.eventHandler([mockERC20MintTransferEvent]);
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('token-mint');
+        messageID = message.id;
+        return true;
+      })
+      .exec(client => {
+        client.send(JSON.stringify({ event: 'ack', data: { id: messageID } }));
+      });
+
+    await ws2
+      .expectJson(message => {
+        expect(message.event).toEqual('token-mint');
+        expect(message.id).toEqual(messageID);
+        return true;
+      })
+      .wait(100)
+      .exec(() => {
+        // Batch is not complete until every consumer has acked
+        expect(context.socket.ack).not.toHaveBeenCalled();
+      })
+      .exec(client => {
+        client.send(JSON.stringify({ event: 'ack', data: { id: messageID } }));
+      })
+      .wait(100)
+      .exec(() => {
+        expect(context.socket.ack).toHaveBeenCalledTimes(1);
+      })
+      .close();
+
+    await ws1.close();
+  });
+
+  it('Skip topics not subscribed to pool', async () => {
+    context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
+      name: TOPIC + ':' + ERC20_POOL_ID,
+    });
+
+    const ws1 = context.server.ws('/api/ws');
+    const ws2 = context.server.ws('/api/ws');
+
+    await ws1
+      .sendJson({ event: 'subscribe', data: { topic: 'ns1', poolLocators: [ERC721_POOL_ID] } })
+      .expectJson(message => message.event === 'subscribed');
+    await ws2
+      .sendJson({ event: 'subscribe', data: { topic: 'ns2' } })
+      .expectJson(message => message.event === 'subscribed');
+
+    let messageID: string;
+    await ws2
+      .exec(() => {
+        context.eventHandler([mockERC20MintTransferEvent]);
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('token-mint');
+        messageID = message.id;
+        return true;
+      })
+      .exec(client => {
+        client.send(JSON.stringify({ event: 'ack', data: { id: messageID } }));
+      })
+      .wait(100)
+      .exec(() => {
+        // Only the consumer for ns2 was interested in the event
+        expect(context.socket.ack).toHaveBeenCalledTimes(1);
+      })
+      .close();
+
+    await ws1.close();
+  });
+
+  it('Mirror token events to Server-Sent Events stream', async () => {
+    context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
+      name: TOPIC + ':' + ERC20_POOL_ID,
+    });
+
+    const received: WebSocketMessageWithId[] = [];
+    const skipped: WebSocketMessageWithId[] = [];
+    const sse = await openEventStream(
+      `/events/stream?events=token-mint&poolLocators=${encodeURIComponent(ERC20_POOL_ID)}`,
+      message => received.push(message),
+    );
+    const sseOther = await openEventStream(
+      `/events/stream?poolLocators=${encodeURIComponent(ERC721_POOL_ID)}`,
+      message => skipped.push(message),
+    );
+
+    const ws1 = context.server.ws('/api/ws');
+    let messageID: string;
+    try {
+      await ws1
+        .exec(() => {
+          context.eventHandler([mockERC20MintTransferEvent]);
+        })
+        .expectJson(message => {
+          expect(message.event).toEqual('token-mint');
+          messageID = message.id;
+          return true;
+        })
+        .wait(100)
+        .exec(() => {
+          expect(received).toEqual([
+            expect.objectContaining({ id: messageID, event: 'token-mint' }),
+          ]);
+          expect(skipped).toEqual([]);
+          // The stream does not hold up the batch, which waits only for the websocket client
+          expect(context.socket.ack).not.toHaveBeenCalled();
+        })
+        .exec(client => {
+          client.send(JSON.stringify({ event: 'ack', data: { id: messageID } }));
+        })
+        .wait(100)
+        .exec(() => {
+          expect(context.socket.ack).toHaveBeenCalledTimes(1);
+        })
+        .close();
+    } finally {
+      sse.destroy();
+      sseOther.destroy();
+      // Let the streams close before the app does
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  });
+
+  it('Stream token events with only a Server-Sent Events client', async () => {
+    context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
+      name: TOPIC + ':' + ERC20_POOL_ID,
+    });
+
+    const received: WebSocketMessageWithId[] = [];
+    const sse = await openEventStream('/events/stream', message => received.push(message));
+    await new Promise(resolve => setTimeout(resolve, 100));
+    try {
+      // The stream starts listening, and acks each batch as there is no consumer to wait for
+      context.eventHandler([mockERC20MintTransferEvent]);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(received).toEqual([expect.objectContaining({ event: 'token-mint' })]);
+      expect(context.socket.ack).toHaveBeenCalledTimes(1);
+      expect(context.socket.close).not.toHaveBeenCalled();
+    } finally {
+      sse.destroy();
+    }
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(context.socket.close).toHaveBeenCalledTimes(1);
+  });
+
+  it('Hold token events until confirmed', async () => {
+    context.app.get(ConfirmationsService).configure('http://rpc', 5, 1);
+    context.eventstream.getSubscription.mockReturnValueOnce(<EventStreamSubscription>{
+      name: TOPIC + ':' + ERC20_POOL_ID,
+    });
+    context.http.post
+      .mockReturnValueOnce(new FakeObservable({ result: '0x3' }))
+      .mockReturnValueOnce(new FakeObservable({ result: '0x6' }))
+      .mockReturnValueOnce(
+        new FakeObservable({ result: { blockNumber: '0x1', transactionHash: '0x123' } }),
+      );
+
+    await context.server
+      .ws('/api/ws')
+      .exec(() => {
+        context.eventHandler([mockERC20MintTransferEvent]);
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('token-mint');
+        expect(context.http.post).toHaveBeenCalledTimes(3);
+        return true;
+      });
+  });
+
+  it('Drop token events removed by a reorg', async () => {
+    context.app.get(ConfirmationsService).configure('http://rpc', 1, 1);
+    context.eventstream.getSubscription
+      .mockReturnValueOnce(<EventStreamSubscription>{ name: TOPIC + ':' + ERC20_POOL_ID })
+      .mockReturnValueOnce(<EventStreamSubscription>{ name: TOPIC + ':' + ERC20_POOL_ID });
+    context.http.post
+      .mockReturnValueOnce(new FakeObservable({ result: '0x6' }))
+      .mockReturnValueOnce(new FakeObservable({ result: null }))
+      .mockReturnValueOnce(new FakeObservable({ result: '0x6' }))
+      .mockReturnValueOnce(
+        new FakeObservable({ result: { blockNumber: '0x1', transactionHash: '0x123' } }),
+      );
+
+    await context.server
+      .ws('/api/ws')
+      .exec(() => {
+        context.eventHandler([mockERC20MintTransferEvent, mockERC20TransferEvent]);
+      })
+      .expectJson(message => {
+        // Only the second event is still part of the chain
+        expect(message.event).toEqual('token-transfer');
+        return true;
+      });
+  });
+
+  it('Reject the batch when confirmation times out', async () => {
+    context.app.get(ConfirmationsService).configure('http://rpc', 5, 1, 10);
+    context.eventstream.getSubscription.mockReturnValue(<EventStreamSubscription>{
+      name: TOPIC + ':' + ERC20_POOL_ID,
+    });
+    context.http.post = jest.fn(() => new FakeObservable({ result: '0x3' }));
+
+    await context.server
+      .ws('/api/ws')
+      .exec(async () => {
+        context.eventHandler([mockERC20MintTransferEvent, mockERC20TransferEvent]);
+        while (context.socket.nack.mock.calls.length === 0) {
+          await new Promise(resolve => setTimeout(resolve, 5));
+        }
+        expect(context.socket.ack).not.toHaveBeenCalled();
+        expect(context.socket.nack).toHaveBeenCalledWith(
+          expect.stringContaining('Timed out waiting for confirmation of tx'),
+        );
+
+        // The redelivered batch is processed once the chain is reachable again
+        context.app.get(ConfirmationsService).configure('http://rpc', 0);
+        context.eventHandler([mockERC20MintTransferEvent, mockERC20TransferEvent]);
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('token-mint');
+        return true;
+      })
+      .expectJson(message => {
+        expect(message.event).toEqual('token-transfer');
+        return true;
+      });
+  });
 };